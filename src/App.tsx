@@ -1,17 +1,47 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { Query, QueryClient } from "@tanstack/react-query";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
+import Budgets from "./pages/Budgets";
+import Recurring from "./pages/Recurring";
+import Import from "./pages/Import";
+import Settings from "./pages/Settings";
+import Trash from "./pages/Trash";
+import Ledgers from "./pages/Ledgers";
+import Balances from "./pages/Balances";
+import Claims from "./pages/Claims";
+import ClaimReview from "./pages/ClaimReview";
+import Reports from "./pages/Reports";
+import AcceptInvite from "./pages/AcceptInvite";
 import NotFound from "./pages/NotFound";
 import AuthGuard from "./components/AuthGuard";
+import { QUERY_CACHE_MAX_AGE, queryPersister } from "./lib/queryCache";
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { gcTime: QUERY_CACHE_MAX_AGE },
+  },
+});
+
+// Only expense data, the tags its rows show and the ledgers it belongs to
+// are worth keeping for offline use
+const PERSISTED_QUERIES = ["expenses", "tags", "ledgers"];
+
+const persistOptions = {
+  persister: queryPersister,
+  maxAge: QUERY_CACHE_MAX_AGE,
+  dehydrateOptions: {
+    shouldDehydrateQuery: (query: Query) =>
+      PERSISTED_QUERIES.includes(query.queryKey[0] as string) && query.state.status === "success",
+  },
+};
 
 const App = () => (
-  <QueryClientProvider client={queryClient}>
+  <PersistQueryClientProvider client={queryClient} persistOptions={persistOptions}>
     <TooltipProvider>
       <Toaster />
       <Sonner />
@@ -19,12 +49,23 @@ const App = () => (
         <Routes>
           <Route path="/login" element={<Login />} />
           <Route path="/" element={<AuthGuard><Index /></AuthGuard>} />
+          <Route path="/budgets" element={<AuthGuard><Budgets /></AuthGuard>} />
+          <Route path="/recurring" element={<AuthGuard><Recurring /></AuthGuard>} />
+          <Route path="/import" element={<AuthGuard><Import /></AuthGuard>} />
+          <Route path="/settings" element={<AuthGuard><Settings /></AuthGuard>} />
+          <Route path="/trash" element={<AuthGuard><Trash /></AuthGuard>} />
+          <Route path="/ledgers" element={<AuthGuard><Ledgers /></AuthGuard>} />
+          <Route path="/balances" element={<AuthGuard><Balances /></AuthGuard>} />
+          <Route path="/claims" element={<AuthGuard><Claims /></AuthGuard>} />
+          <Route path="/claims/review" element={<AuthGuard><ClaimReview /></AuthGuard>} />
+          <Route path="/reports" element={<AuthGuard><Reports /></AuthGuard>} />
+          <Route path="/invite/:token" element={<AuthGuard><AcceptInvite /></AuthGuard>} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
     </TooltipProvider>
-  </QueryClientProvider>
+  </PersistQueryClientProvider>
 );
 
 export default App;
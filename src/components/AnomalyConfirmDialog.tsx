@@ -0,0 +1,51 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { AlertTriangle } from 'lucide-react';
+import { ANOMALY_FLAGS, Anomaly } from '@/lib/anomalies';
+
+interface AnomalyConfirmDialogProps {
+  // What the detector found; the dialog is closed while empty
+  anomalies: Anomaly[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+// Asks before an unusual expense is saved; saved anyway, it is flagged for review
+const AnomalyConfirmDialog = ({ anomalies, onConfirm, onCancel }: AnomalyConfirmDialogProps) => (
+  <AlertDialog open={anomalies.length > 0} onOpenChange={(open) => !open && onCancel()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>This expense looks unusual</AlertDialogTitle>
+        <AlertDialogDescription>
+          Check it for a typo or a second entry of the same charge. Saved anyway, it is listed under
+          Flagged for Review until you mark it as fine.
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <div className="space-y-2">
+        {anomalies.map(anomaly => (
+          <div key={anomaly.flag} className="flex items-start gap-2 rounded-md bg-warning/10 p-2 text-sm">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-warning" />
+            <div>
+              <p className="font-medium">{ANOMALY_FLAGS[anomaly.flag]}</p>
+              <p className="text-muted-foreground">{anomaly.detail}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Go back</AlertDialogCancel>
+        <AlertDialogAction onClick={onConfirm}>Save anyway</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default AnomalyConfirmDialog;
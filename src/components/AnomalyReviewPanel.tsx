@@ -0,0 +1,109 @@
+import { Check, Edit, LucideIcon, ShieldAlert, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import CategoryBadge from './CategoryBadge';
+import type { Expense } from '@/hooks/use-expenses';
+import { ANOMALY_FLAGS, isAnomalyFlag } from '@/lib/anomalies';
+import { Converted, formatMoney } from '@/lib/currency';
+
+interface AnomalyReviewPanelProps {
+  expenses: Converted<Expense>[];
+  baseCurrency: string;
+  colorFor: (category: string) => string;
+  iconFor: (category: string) => LucideIcon;
+  // Viewers see the list without actions
+  canEdit: boolean;
+  busy: boolean;
+  onReview: (expenses: Expense[]) => void;
+  onEdit: (expense: Converted<Expense>) => void;
+  onDelete: (expense: Expense) => void;
+}
+
+// Expenses saved although they looked unusual, until each is marked fine,
+// corrected or deleted
+const AnomalyReviewPanel = ({
+  expenses,
+  baseCurrency,
+  colorFor,
+  iconFor,
+  canEdit,
+  busy,
+  onReview,
+  onEdit,
+  onDelete
+}: AnomalyReviewPanelProps) => (
+  <Card className="bg-gradient-card shadow-card border-0 animate-fade-in">
+    <CardHeader className="flex flex-row items-center justify-between space-y-0">
+      <CardTitle className="flex items-center gap-2">
+        <ShieldAlert className="h-5 w-5 text-warning" />
+        Flagged for Review ({expenses.length})
+      </CardTitle>
+      {canEdit && expenses.length > 1 && (
+        <Button size="sm" variant="outline" disabled={busy} onClick={() => onReview(expenses)}>
+          <Check className="h-4 w-4 mr-1" />
+          Mark all fine
+        </Button>
+      )}
+    </CardHeader>
+    <CardContent className="space-y-3">
+      {expenses.map(expense => (
+        <div key={expense.id} className="bg-background/50 p-4 rounded-lg border border-border/50">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <span className="font-semibold text-lg">{formatMoney(expense.originalAmount, expense.currency)}</span>
+                {expense.currency !== baseCurrency && expense.converted && (
+                  <span className="text-xs text-muted-foreground">≈ {formatMoney(expense.amount, baseCurrency)}</span>
+                )}
+                <CategoryBadge name={expense.category} color={colorFor(expense.category)} icon={iconFor(expense.category)} />
+                {(expense.anomaly_flags ?? []).filter(isAnomalyFlag).map(flag => (
+                  <Badge key={flag} variant="outline" className="text-xs font-normal text-warning border-warning/50">
+                    {ANOMALY_FLAGS[flag]}
+                  </Badge>
+                ))}
+              </div>
+              <p className="text-sm text-muted-foreground truncate">{expense.description}</p>
+              <p className="text-xs text-muted-foreground">{expense.date}</p>
+            </div>
+            {canEdit && (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  title="Looks fine"
+                  disabled={busy}
+                  onClick={() => onReview([expense])}
+                  className="h-8 w-8 p-0 hover:bg-success/10 hover:text-success"
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  title="Edit"
+                  onClick={() => onEdit(expense)}
+                  className="h-8 w-8 p-0 hover:bg-primary/10"
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  title="Move to trash"
+                  disabled={busy}
+                  onClick={() => onDelete(expense)}
+                  className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      ))}
+    </CardContent>
+  </Card>
+);
+
+export default AnomalyReviewPanel;
@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Session } from '@supabase/supabase-js';
 
@@ -11,6 +11,9 @@ const AuthGuard = ({ children }: AuthGuardProps) => {
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const navigate = useNavigate();
+  const location = useLocation();
+  // Sent along to the login page, which comes back here, e.g. to an invitation link
+  const from = location.pathname;
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -20,7 +23,7 @@ const AuthGuard = ({ children }: AuthGuardProps) => {
         setIsLoading(false);
         
         if (!session) {
-          navigate('/login');
+          navigate('/login', { state: { from } });
         }
       }
     );
@@ -31,12 +34,12 @@ const AuthGuard = ({ children }: AuthGuardProps) => {
       setIsLoading(false);
       
       if (!session) {
-        navigate('/login');
+        navigate('/login', { state: { from } });
       }
     });
 
     return () => subscription.unsubscribe();
-  }, [navigate]);
+  }, [navigate, from]);
 
   if (isLoading) {
     return (
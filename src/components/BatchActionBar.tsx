@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import CategorySelect from './CategorySelect';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Briefcase, CalendarClock, Download, Hash, Tag, Trash2, X } from 'lucide-react';
+import { Category } from '@/lib/categories';
+import { EXPORT_FORMATS, ExportFormat } from '@/lib/export';
+import { formatTag, isValidTagName, normalizeTagName } from '@/lib/tags';
+
+interface BatchActionBarProps {
+  count: number;
+  allSelected: boolean;
+  // Categories offered for the selection, e.g. only expense ones when no
+  // income is selected
+  categories: Category[];
+  busy: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onChangeCategory: (category: string) => void;
+  onShiftDate: (days: number) => void;
+  // Existing tag names; `onAddTag` may also get a new one
+  tagSuggestions: string[];
+  onAddTag: (name: string) => void;
+  // The signed-in user's draft claims, which expenses can be added to
+  draftClaims: { id: string; title: string }[];
+  onAddToClaim: (claimId: string) => void;
+  onExport: (format: ExportFormat) => void;
+  onDelete: () => void;
+}
+
+// Actions for the expenses selected in the history
+const BatchActionBar = ({
+  count,
+  allSelected,
+  categories,
+  busy,
+  onSelectAll,
+  onClear,
+  onChangeCategory,
+  onShiftDate,
+  tagSuggestions,
+  onAddTag,
+  draftClaims,
+  onAddToClaim,
+  onExport,
+  onDelete
+}: BatchActionBarProps) => {
+  const [category, setCategory] = useState('');
+  const [days, setDays] = useState('');
+  const [categoryOpen, setCategoryOpen] = useState(false);
+  const [shiftOpen, setShiftOpen] = useState(false);
+  const [tag, setTag] = useState('');
+  const [tagOpen, setTagOpen] = useState(false);
+
+  const shiftDays = Number(days);
+  const validShift = days.trim() !== '' && Number.isInteger(shiftDays) && shiftDays !== 0;
+  const tagName = normalizeTagName(tag);
+  const tagMatches = tagSuggestions.filter(name => name.startsWith(tagName)).slice(0, 8);
+
+  const applyTag = (name: string) => {
+    onAddTag(name);
+    setTag('');
+    setTagOpen(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border border-primary/30 bg-primary/5 p-2">
+      <span className="px-1 text-sm font-medium">{count} selected</span>
+      {!allSelected && (
+        <Button variant="ghost" size="sm" onClick={onSelectAll}>
+          Select all loaded
+        </Button>
+      )}
+      <div className="ml-auto flex flex-wrap items-center gap-2">
+        <Popover open={categoryOpen} onOpenChange={setCategoryOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="bg-background/50" disabled={busy}>
+              <Tag className="h-4 w-4" />
+              Category
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-64 space-y-3">
+            <Label>Change category to</Label>
+            <CategorySelect value={category} onChange={setCategory} categories={categories} />
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={!category}
+              onClick={() => {
+                onChangeCategory(category);
+                setCategoryOpen(false);
+              }}
+            >
+              Apply to {count}
+            </Button>
+          </PopoverContent>
+        </Popover>
+        <Popover open={shiftOpen} onOpenChange={setShiftOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="bg-background/50" disabled={busy}>
+              <CalendarClock className="h-4 w-4" />
+              Shift date
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-64 space-y-3">
+            <Label htmlFor="shift-days">Move by days (negative for earlier)</Label>
+            <Input
+              id="shift-days"
+              type="number"
+              step="1"
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+              className="bg-background/50"
+            />
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={!validShift}
+              onClick={() => {
+                onShiftDate(shiftDays);
+                setShiftOpen(false);
+              }}
+            >
+              Apply to {count}
+            </Button>
+          </PopoverContent>
+        </Popover>
+        <Popover open={tagOpen} onOpenChange={setTagOpen}>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm" className="bg-background/50" disabled={busy}>
+              <Hash className="h-4 w-4" />
+              Add tag
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-64 space-y-3">
+            <Label htmlFor="batch-tag">Tag</Label>
+            <Input
+              id="batch-tag"
+              placeholder="#reimbursable"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && isValidTagName(tagName)) applyTag(tagName);
+              }}
+              className="bg-background/50"
+            />
+            {tagMatches.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {tagMatches.map(name => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => applyTag(name)}
+                    className="rounded-full border border-border px-2 py-0.5 text-xs text-muted-foreground hover:bg-primary/10 hover:text-foreground"
+                  >
+                    {formatTag(name)}
+                  </button>
+                ))}
+              </div>
+            )}
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={!isValidTagName(tagName)}
+              onClick={() => applyTag(tagName)}
+            >
+              Apply to {count}
+            </Button>
+          </PopoverContent>
+        </Popover>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="bg-background/50"
+              disabled={busy || draftClaims.length === 0}
+              title={draftClaims.length === 0 ? 'Create a draft claim first' : undefined}
+            >
+              <Briefcase className="h-4 w-4" />
+              Add to claim
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {draftClaims.map(claim => (
+              <DropdownMenuItem key={claim.id} onSelect={() => onAddToClaim(claim.id)}>
+                {claim.title}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="bg-background/50">
+              <Download className="h-4 w-4" />
+              Export
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {EXPORT_FORMATS.map(format => (
+              <DropdownMenuItem key={format.value} onSelect={() => onExport(format.value)}>
+                {format.label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button
+          variant="outline"
+          size="sm"
+          className="bg-background/50 hover:bg-destructive/10 hover:text-destructive"
+          disabled={busy}
+          onClick={onDelete}
+        >
+          <Trash2 className="h-4 w-4" />
+          Delete
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="Clear selection" onClick={onClear}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BatchActionBar;
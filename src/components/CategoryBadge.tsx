@@ -0,0 +1,20 @@
+import { LucideIcon } from 'lucide-react';
+
+interface CategoryBadgeProps {
+  name: string;
+  color: string;
+  icon: LucideIcon;
+}
+
+// Category name tinted with the category's own color
+const CategoryBadge = ({ name, color, icon: Icon }: CategoryBadgeProps) => (
+  <span
+    className="inline-flex items-center gap-1 text-xs px-2 py-1 rounded-full"
+    style={{ backgroundColor: `${color}1a`, color }}
+  >
+    <Icon className="h-3 w-3" />
+    {name}
+  </span>
+);
+
+export default CategoryBadge;
@@ -0,0 +1,466 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Archive, ArchiveRestore, ArrowDown, ArrowUp, Check, Plus, Tags } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { cn } from '@/lib/utils';
+import {
+  CATEGORY_ICONS,
+  Category,
+  CategoryNode,
+  DEFAULT_CATEGORY_ICON,
+  buildCategoryTree,
+  categoryIcon,
+  flattenCategoryTree,
+  nextCategoryColor
+} from '@/lib/categories';
+import { EntryType, ENTRY_TYPES } from '@/lib/cashflow';
+
+interface CategoryManagerProps {
+  // Categories are added to this ledger
+  ledgerId: string;
+  categories: Category[];
+  onChange: () => Promise<void>;
+}
+
+interface CategoryDraft {
+  name: string;
+  color: string;
+  icon: string;
+  parent_id: string | null;
+  kind: EntryType;
+}
+
+// Select value standing for "no parent", as Radix items cannot be empty
+const NO_PARENT = 'none';
+
+interface IconSelectProps {
+  value: string;
+  onChange: (value: string) => void;
+  color: string;
+}
+
+const IconSelect = ({ value, onChange, color }: IconSelectProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="w-20 bg-background/50" aria-label="Icon">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {Object.entries(CATEGORY_ICONS).map(([name, Icon]) => (
+        <SelectItem key={name} value={name}>
+          <Icon className="h-4 w-4" style={{ color }} />
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface ParentSelectProps {
+  value: string | null;
+  onChange: (value: string | null) => void;
+  options: CategoryNode[];
+}
+
+const ParentSelect = ({ value, onChange, options }: ParentSelectProps) => (
+  <Select value={value ?? NO_PARENT} onValueChange={(next) => onChange(next === NO_PARENT ? null : next)}>
+    <SelectTrigger className="w-40 bg-background/50" aria-label="Parent category">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      <SelectItem value={NO_PARENT}>No parent</SelectItem>
+      {options.map(({ category, depth }) => (
+        <SelectItem key={category.id} value={category.id}>
+          <span style={{ paddingLeft: `${depth * 1.25}rem` }}>{category.name}</span>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const emptyDraft = (): CategoryDraft => ({ name: '', color: '', icon: DEFAULT_CATEGORY_ICON, parent_id: null, kind: 'expense' });
+
+const CategoryManager = ({ ledgerId, categories, onChange }: CategoryManagerProps) => {
+  const [drafts, setDrafts] = useState<Record<string, CategoryDraft>>({});
+  const [newCategory, setNewCategory] = useState<CategoryDraft>(emptyDraft);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const draftFor = (category: Category): CategoryDraft =>
+    drafts[category.id] ?? {
+      name: category.name,
+      color: category.color,
+      icon: category.icon,
+      parent_id: category.parent_id,
+      kind: category.kind as EntryType
+    };
+
+  const updateDraft = (category: Category, changes: Partial<CategoryDraft>) =>
+    setDrafts(prev => ({ ...prev, [category.id]: { ...draftFor(category), ...changes } }));
+
+  const isDirty = (category: Category) => {
+    const draft = drafts[category.id];
+    return !!draft && (
+      draft.name.trim() !== category.name ||
+      draft.color !== category.color ||
+      draft.icon !== category.icon ||
+      draft.parent_id !== category.parent_id
+    );
+  };
+
+  const nodes = flattenCategoryTree(buildCategoryTree(categories));
+
+  // A category cannot be moved under itself or one of its own descendants,
+  // nor under a category of the other kind
+  const parentOptionsFor = (node: CategoryNode) => {
+    const excluded = new Set([node, ...flattenCategoryTree(node.children)].map(item => item.category.id));
+    return nodes.filter(option => !excluded.has(option.category.id) && option.category.kind === node.category.kind);
+  };
+
+  const siblingsOf = (parentId: string | null) =>
+    nodes.filter(node => node.category.parent_id === parentId).map(node => node.category);
+
+  const newColor = newCategory.color || nextCategoryColor(categories);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = newCategory.name.trim();
+    if (!name) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter a category name.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        navigate('/login');
+        return;
+      }
+
+      const { error } = await supabase
+        .from('categories')
+        .insert({
+          ledger_id: ledgerId,
+          user_id: user.id,
+          name,
+          color: newColor,
+          icon: newCategory.icon,
+          parent_id: newCategory.parent_id,
+          kind: newCategory.kind,
+          sort_order: siblingsOf(newCategory.parent_id).length
+        });
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: error.code === '23505'
+            ? `A category named "${name}" already exists.`
+            : "Failed to add category: " + error.message,
+        });
+        return;
+      }
+
+      setNewCategory(emptyDraft());
+      await onChange();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred",
+      });
+    }
+  };
+
+  const handleSave = async (category: Category) => {
+    const draft = draftFor(category);
+    const name = draft.name.trim();
+    if (!name) {
+      toast({
+        title: "Validation Error",
+        description: "A category needs a name.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .update({
+          name,
+          color: draft.color,
+          icon: draft.icon,
+          parent_id: draft.parent_id,
+          // Moving to another parent appends the category to its new siblings
+          ...(draft.parent_id !== category.parent_id && { sort_order: siblingsOf(draft.parent_id).length })
+        })
+        .eq('id', category.id);
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: error.code === '23505'
+            ? `A category named "${name}" already exists.`
+            : "Failed to update category: " + error.message,
+        });
+        return;
+      }
+
+      if (name !== category.name) {
+        toast({
+          title: "Category renamed",
+          description: `Expenses, budgets and recurring expenses in "${category.name}" now use "${name}".`
+        });
+      }
+      setDrafts(prev => {
+        const next = { ...prev };
+        delete next[category.id];
+        return next;
+      });
+      await onChange();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred",
+      });
+    }
+  };
+
+  const handleArchive = async (category: Category) => {
+    try {
+      const { error } = await supabase
+        .from('categories')
+        .update({ archived: !category.archived })
+        .eq('id', category.id);
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to update category: " + error.message,
+        });
+        return;
+      }
+
+      await onChange();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred",
+      });
+    }
+  };
+
+  // Swap a category with its neighbour under the same parent and renumber
+  // those siblings, since backfilled categories may share a sort order
+  const handleMove = async (category: Category, direction: -1 | 1) => {
+    const siblings = siblingsOf(category.parent_id);
+    const index = siblings.findIndex(sibling => sibling.id === category.id);
+    const target = index + direction;
+    if (target < 0 || target >= siblings.length) return;
+
+    const reordered = [...siblings];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+    try {
+      const results = await Promise.all(
+        reordered
+          .map((category, position) => ({ category, position }))
+          .filter(({ category, position }) => category.sort_order !== position)
+          .map(({ category, position }) =>
+            supabase.from('categories').update({ sort_order: position }).eq('id', category.id)
+          )
+      );
+
+      const failure = results.find(result => result.error)?.error;
+      if (failure) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to reorder categories: " + failure.message,
+        });
+      }
+
+      await onChange();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-4 sm:items-end">
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="new-category-name">New category</Label>
+          <Input
+            id="new-category-name"
+            placeholder="e.g. Groceries"
+            value={newCategory.name}
+            onChange={(e) => setNewCategory(prev => ({ ...prev, name: e.target.value }))}
+            className="bg-background/50"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Input
+            type="color"
+            aria-label="Color"
+            value={newColor}
+            onChange={(e) => setNewCategory(prev => ({ ...prev, color: e.target.value }))}
+            className="w-12 p-1 bg-background/50"
+          />
+          <IconSelect
+            value={newCategory.icon}
+            onChange={(icon) => setNewCategory(prev => ({ ...prev, icon }))}
+            color={newColor}
+          />
+          <Select
+            value={newCategory.kind}
+            onValueChange={(kind) => setNewCategory(prev => ({ ...prev, kind: kind as EntryType, parent_id: null }))}
+          >
+            <SelectTrigger className="w-28 bg-background/50" aria-label="Used for">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ENTRY_TYPES.map(type => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ParentSelect
+            value={newCategory.parent_id}
+            onChange={(parent_id) => setNewCategory(prev => ({ ...prev, parent_id }))}
+            options={nodes.filter(node => node.category.kind === newCategory.kind)}
+          />
+          <Button
+            type="submit"
+            className="bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      </form>
+
+      <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+        {nodes.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Tags className="h-12 w-12 mx-auto mb-2 opacity-50" />
+            <p>No categories yet</p>
+          </div>
+        ) : (
+          nodes.map(node => {
+            const { category, depth } = node;
+            const draft = draftFor(category);
+            const Icon = categoryIcon(draft.icon);
+            const siblings = siblingsOf(category.parent_id);
+            return (
+              <div
+                key={category.id}
+                className={cn(
+                  'bg-background/50 p-3 rounded-lg border border-border/50 flex flex-wrap items-center gap-2',
+                  category.archived && 'opacity-60'
+                )}
+                style={{ marginLeft: `${depth * 1.5}rem` }}
+              >
+                <Icon className="h-5 w-5 shrink-0" style={{ color: draft.color }} />
+                <Input
+                  aria-label="Name"
+                  value={draft.name}
+                  onChange={(e) => updateDraft(category, { name: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && isDirty(category)) handleSave(category);
+                  }}
+                  className="flex-1 min-w-32 bg-background/50"
+                />
+                {category.kind === 'income' && (
+                  <span className="text-xs bg-success/10 text-success px-2 py-1 rounded-full">
+                    Income
+                  </span>
+                )}
+                <Input
+                  type="color"
+                  aria-label="Color"
+                  value={draft.color}
+                  onChange={(e) => updateDraft(category, { color: e.target.value })}
+                  className="w-12 p-1 bg-background/50"
+                />
+                <IconSelect
+                  value={draft.icon}
+                  onChange={(icon) => updateDraft(category, { icon })}
+                  color={draft.color}
+                />
+                <ParentSelect
+                  value={draft.parent_id}
+                  onChange={(parent_id) => updateDraft(category, { parent_id })}
+                  options={parentOptionsFor(node)}
+                />
+                <div className="flex gap-1">
+                  {isDirty(category) && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleSave(category)}
+                      className="h-8 w-8 p-0 hover:bg-primary/10"
+                      title="Save changes"
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleMove(category, -1)}
+                    disabled={siblings[0]?.id === category.id}
+                    className="h-8 w-8 p-0"
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleMove(category, 1)}
+                    disabled={siblings[siblings.length - 1]?.id === category.id}
+                    className="h-8 w-8 p-0"
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleArchive(category)}
+                    className="h-8 w-8 p-0 hover:bg-warning/10 hover:text-warning"
+                    title={category.archived ? 'Restore' : 'Archive'}
+                  >
+                    {category.archived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryManager;
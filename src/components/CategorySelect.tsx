@@ -0,0 +1,50 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Category, buildCategoryTree, categoryIcon, flattenCategoryTree } from '@/lib/categories';
+
+interface CategorySelectProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  categories: Category[];
+  placeholder?: string;
+  className?: string;
+}
+
+const CategorySelect = ({
+  id,
+  value,
+  onChange,
+  categories,
+  placeholder = 'Select category',
+  className = 'bg-background/50'
+}: CategorySelectProps) => {
+  // Keep a value that is no longer offered (archived or deleted) selectable
+  // so editing an older record does not silently drop its category
+  const missing = value && !categories.some(category => category.name === value);
+
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {missing && (
+          <SelectItem value={value}>{value}</SelectItem>
+        )}
+        {flattenCategoryTree(buildCategoryTree(categories)).map(({ category, depth }) => {
+          const Icon = categoryIcon(category.icon);
+          return (
+            <SelectItem key={category.id} value={category.name}>
+              <span className="flex items-center gap-2" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                <Icon className="h-4 w-4" style={{ color: category.color }} />
+                {category.name}
+              </span>
+            </SelectItem>
+          );
+        })}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CategorySelect;
@@ -0,0 +1,92 @@
+import { ReactNode } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { MessageSquare, X } from 'lucide-react';
+import { Claim, claimStatus, claimTotals } from '@/lib/claims';
+import { formatMoney } from '@/lib/currency';
+import { LedgerMember, memberLabel } from '@/lib/ledgers';
+import { cn } from '@/lib/utils';
+
+interface ClaimCardProps {
+  claim: Claim;
+  members: LedgerMember[];
+  // Buttons for the moves the viewer can make
+  actions?: ReactNode;
+  // Given while the claim's expenses can still be taken out
+  onRemoveExpense?: (expenseId: string) => void;
+}
+
+const formatDate = (timestamp: string) => new Date(timestamp).toLocaleDateString();
+
+// A claim with its status, who made it, what it adds up to and its expenses
+const ClaimCard = ({ claim, members, actions, onRemoveExpense }: ClaimCardProps) => {
+  const status = claimStatus(claim.status);
+  const totals = claimTotals(claim.expenses);
+
+  return (
+    <div className="bg-background/50 p-4 rounded-lg border border-border/50 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold truncate">{claim.title}</span>
+            <Badge variant="outline" className={cn('text-xs font-normal', status.className)}>
+              {status.label}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {memberLabel(members, claim.user_id)}
+            {claim.submitted_at && ` · submitted ${formatDate(claim.submitted_at)}`}
+            {claim.reviewed_at && claim.reviewed_by && ` · reviewed by ${memberLabel(members, claim.reviewed_by)} ${formatDate(claim.reviewed_at)}`}
+            {claim.reimbursed_at && ` · reimbursed ${formatDate(claim.reimbursed_at)}`}
+          </p>
+        </div>
+        <div className="text-right font-semibold">
+          {totals.length === 0
+            ? formatMoney(0)
+            : totals.map(total => <div key={total.currency}>{formatMoney(total.amount, total.currency)}</div>)}
+        </div>
+      </div>
+
+      {claim.review_comment && (
+        <div className="flex items-start gap-2 rounded-md bg-muted/50 p-2 text-sm">
+          <MessageSquare className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+          <span>{claim.review_comment}</span>
+        </div>
+      )}
+
+      {claim.expenses.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No expenses yet. Select expenses in the history and choose "Add to claim".
+        </p>
+      ) : (
+        <div className="divide-y divide-border/50 text-sm">
+          {claim.expenses.map(expense => (
+            <div key={expense.id} className="flex items-center gap-2 py-1.5">
+              <span className="w-24 shrink-0 text-xs text-muted-foreground">{expense.date}</span>
+              <span className="flex-1 truncate">
+                {expense.description}
+                {expense.category && <span className="text-muted-foreground"> · {expense.category}</span>}
+              </span>
+              <span className="font-medium">{formatMoney(expense.amount, expense.currency)}</span>
+              {onRemoveExpense && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Remove from claim"
+                  onClick={() => onRemoveExpense(expense.id)}
+                  className="h-6 w-6 p-0 hover:text-destructive"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {actions && <div className="flex flex-wrap justify-end gap-2">{actions}</div>}
+    </div>
+  );
+};
+
+export default ClaimCard;
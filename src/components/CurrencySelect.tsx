@@ -0,0 +1,26 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CURRENCIES } from '@/lib/currency';
+
+interface CurrencySelectProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}
+
+const CurrencySelect = ({ id, value, onChange, className = 'bg-background/50' }: CurrencySelectProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger id={id} className={className}>
+      <SelectValue placeholder="Currency" />
+    </SelectTrigger>
+    <SelectContent>
+      {CURRENCIES.map(currency => (
+        <SelectItem key={currency.code} value={currency.code}>
+          {currency.code} · {currency.name}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default CurrencySelect;
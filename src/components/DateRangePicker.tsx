@@ -0,0 +1,66 @@
+import { DateRange as DayPickerRange } from 'react-day-picker';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarRange } from 'lucide-react';
+import { DATE_RANGE_PRESETS, DateRange, DateRangePreset } from '@/lib/dateRange';
+import { parseDateKey, toDateKey } from '@/lib/dates';
+
+interface DateRangePickerProps {
+  preset: DateRangePreset;
+  range: DateRange;
+  label: string;
+  onPresetChange: (preset: DateRangePreset) => void;
+  onCustomRangeChange: (range: DateRange) => void;
+}
+
+const DateRangePicker = ({ preset, range, label, onPresetChange, onCustomRangeChange }: DateRangePickerProps) => {
+  const selected: DayPickerRange | undefined = range.from || range.to
+    ? {
+        from: range.from ? parseDateKey(range.from) : undefined,
+        to: range.to ? parseDateKey(range.to) : undefined
+      }
+    : undefined;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={preset} onValueChange={(value) => onPresetChange(value as DateRangePreset)}>
+        <SelectTrigger className="w-44 bg-background/50" aria-label="Date range">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DATE_RANGE_PRESETS.map(item => (
+            <SelectItem key={item.value} value={item.value}>
+              {item.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {preset === 'custom' && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className="flex items-center gap-2 bg-background/50 font-normal">
+              <CalendarRange className="h-4 w-4" />
+              {label}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="range"
+              numberOfMonths={2}
+              defaultMonth={selected?.from}
+              selected={selected}
+              onSelect={(value) => onCustomRangeChange({
+                from: value?.from ? toDateKey(value.from) : null,
+                to: value?.to ? toDateKey(value.to) : null
+              })}
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+};
+
+export default DateRangePicker;
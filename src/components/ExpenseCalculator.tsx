@@ -1,85 +1,288 @@
 import { useState, useEffect } from 'react';
 import ExpenseCharts from './ExpenseCharts';
+import ExportMenu from './ExportMenu';
+import CurrencySelect from './CurrencySelect';
+import CategorySelect from './CategorySelect';
+import CategoryBadge from './CategoryBadge';
+import ReceiptThumbnails from './ReceiptThumbnails';
+import HighlightedText from './HighlightedText';
+import DateRangePicker from './DateRangePicker';
+import VirtualList from './VirtualList';
+import BatchActionBar from './BatchActionBar';
+import TagInput from './TagInput';
+import TagSpendingChart from './TagSpendingChart';
+import LedgerSwitcher from './LedgerSwitcher';
+import SplitEditor from './SplitEditor';
+import SpendingForecast from './SpendingForecast';
+import AnomalyConfirmDialog from './AnomalyConfirmDialog';
+import AnomalyReviewPanel from './AnomalyReviewPanel';
+import PeriodComparison from './PeriodComparison';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { ToastAction } from '@/components/ui/toast';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Trash2, Edit, Plus, DollarSign, TrendingUp, Calendar, Filter, PieChart, BarChart3, LogOut } from 'lucide-react';
+import { Trash2, Edit, Plus, DollarSign, TrendingUp, Calendar, Filter, PieChart, BarChart3, LogOut, Target, Repeat, Upload, Settings, AlertTriangle, Paperclip, X, Wallet, PiggyBank, Search, HelpCircle, CloudOff, Scale, Users, Briefcase, FileText } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useCurrencySettings } from '@/hooks/use-currency-settings';
+import { useCategories } from '@/hooks/use-categories';
+import { useDateRangeFilter } from '@/hooks/use-date-range-filter';
+import { useExpenseSearch } from '@/hooks/use-expense-search';
+import {
+  BatchAction,
+  Expense,
+  ExpenseInput,
+  fetchAllExpenses,
+  useBatchExpenseAction,
+  useCreateExpense,
+  useDeleteAttachment,
+  useDeleteExpense,
+  useExpenseTagTotals,
+  useExpenseTotals,
+  useExpenses,
+  useFlaggedExpenses,
+  useRestoreExpense,
+  useUpdateExpense
+} from '@/hooks/use-expenses';
+import { RemoteExpenseChange, useExpenseRealtime } from '@/hooks/use-expense-realtime';
+import { useClaims } from '@/hooks/use-claims';
+import { useLedgerMembers, useLedgers } from '@/hooks/use-ledgers';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import { useSelection } from '@/hooks/use-selection';
+import { useResolveTags, useTags } from '@/hooks/use-tags';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { EntryType, ENTRY_TYPES, getSavingsRate, isIncome } from '@/lib/cashflow';
+import { buildCategoryBreakdown, flattenCategoryTree, rollUpCategoryTotals } from '@/lib/categories';
+import { Converted, convertToBase, formatMoney } from '@/lib/currency';
+import { countRangeDays } from '@/lib/dateRange';
+import { QUERY_SYNTAX_HELP, highlightTerms, isEmptyExpenseQuery, toExpenseFilters } from '@/lib/expenseQuery';
+import { NO_EXPENSE_FILTERS } from '@/lib/expenseHistory';
+import { generateDueRecurringExpenses } from '@/lib/recurring';
+import { Anomaly, AnomalyFlag, detectAnomalies, fetchAnomalyHistory } from '@/lib/anomalies';
+import { ExpenseAttachment, RECEIPT_MIME_TYPES, removeQueuedReceipts, validateReceipt } from '@/lib/attachments';
+import { ExportFormat, exportExpenses } from '@/lib/export';
+import { formatTag } from '@/lib/tags';
+import { memberLabel } from '@/lib/ledgers';
+import { claimStatus } from '@/lib/claims';
+import { computeFormSplit, newSplitForm, SplitDetails, SplitForm, splitFormFrom } from '@/lib/splits';
+import { toDateKey } from '@/lib/dates';
+import { coversMonthToDate, forecastMonthEnd, getForecastStart, getForecastWarnings } from '@/lib/forecast';
+import {
+  Budget,
+  BudgetPeriod,
+  BUDGET_PERIODS,
+  findExceededBudgets,
+  getBudgetStatus,
+  getPeriodSpend,
+  getPeriodStart
+} from '@/lib/budgets';
 
-export interface Expense {
-  id: string;
-  amount: number;
-  category: string;
-  description: string;
-  date: string;
-}
-
-const EXPENSE_CATEGORIES = [
-  'Food & Dining',
-  'Transportation',
-  'Shopping',
-  'Entertainment',
-  'Bills & Utilities',
-  'Healthcare',
-  'Travel',
-  'Education',
-  'Business',
-  'Other'
-];
+const describeBatchAction = (action: BatchAction, count: number) => {
+  const expenses = `${count} ${count === 1 ? 'expense' : 'expenses'}`;
+  switch (action.kind) {
+    case 'category': return `Moved ${expenses} to ${action.category}.`;
+    case 'tag': return `Tagged ${expenses}.`;
+    case 'claim': return `Added ${expenses} to the claim.`;
+    case 'reviewAnomalies': return `Marked ${expenses} as reviewed.`;
+    case 'shiftDate': {
+      const days = Math.abs(action.days);
+      return `Moved ${expenses} ${days} ${days === 1 ? 'day' : 'days'} ${action.days > 0 ? 'later' : 'earlier'}.`;
+    }
+    case 'delete': return `Moved ${expenses} to the trash.`;
+    case 'restore': return `Restored ${expenses}.`;
+  }
+};
 
 const ExpenseCalculator = () => {
-  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [recurringReady, setRecurringReady] = useState(false);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
   const [form, setForm] = useState({
+    type: 'expense' as EntryType,
     amount: '',
+    currency: '',
     category: '',
     description: '',
-    date: new Date().toISOString().split('T')[0]
+    date: new Date().toISOString().split('T')[0],
+    tags: [] as string[],
+    // Null while the expense is not split
+    split: null as SplitForm | null
   });
+  const [userId, setUserId] = useState<string | null>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
+  // Set when the expense open in the form changes on another device
+  const [conflict, setConflict] = useState<RemoteExpenseChange | null>(null);
+  const [receiptFiles, setReceiptFiles] = useState<File[]>([]);
+  // An unusual entry waiting for the user to confirm it
+  const [pendingSave, setPendingSave] = useState<{
+    entry: ExpenseInput;
+    split: SplitDetails | null;
+    anomalies: Anomaly[];
+  } | null>(null);
   const [filterCategory, setFilterCategory] = useState<string>('all');
-  const [loading, setLoading] = useState(true);
+  const [filterTag, setFilterTag] = useState<string>('all');
   const { toast } = useToast();
+  const { baseCurrency, convert } = useCurrencySettings();
+  const { current: ledger, canEdit } = useLedgers();
+  // Queries wait for the ledgers to load; '' never matches a ledger
+  const ledgerId = ledger?.id ?? '';
+  const {
+    categories,
+    activeCategories,
+    tree,
+    colorFor,
+    iconFor,
+    pathOf,
+    belongsTo,
+    loading: categoriesLoading
+  } = useCategories(ledgerId);
+  const { tags, nameOf } = useTags(ledgerId, { enabled: !!ledger });
+  const resolveTags = useResolveTags(ledgerId);
+  const { data: members = [] } = useLedgerMembers(ledgerId);
+  const { data: claims = [] } = useClaims(ledgerId, { enabled: !!ledger });
+  const dateFilter = useDateRangeFilter();
+  const search = useExpenseSearch();
   const navigate = useNavigate();
+  const createExpense = useCreateExpense();
+  const updateExpense = useUpdateExpense();
+  const deleteExpense = useDeleteExpense();
+  const restoreExpense = useRestoreExpense();
+  const batchAction = useBatchExpenseAction();
+  const deleteReceipt = useDeleteAttachment();
+  const queryClient = useQueryClient();
+  const offline = useOfflineSync();
+  const realtime = useExpenseRealtime(ledger?.id, change => {
+    const id = change.kind === 'deleted' ? change.id : change.expense.id;
+    if (id === editingId) setConflict(change);
+  });
 
-  // Load expenses from Supabase on component mount
+  // Generate due recurring expenses once on mount and remove receipt files
+  // of expenses purged since; files that fail stay queued for the next load
   useEffect(() => {
-    loadExpenses();
+    generateRecurring().then(() => setRecurringReady(true));
+    if (navigator.onLine) removeQueuedReceipts().catch(() => undefined);
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
   }, []);
 
-  const loadExpenses = async () => {
+  // Expenses, tags and budgets belong to a ledger, so switching ledgers
+  // stops editing, drops the tags and split members picked from the
+  // previous one and loads the new ledger's budgets
+  useEffect(() => {
+    loadBudgets();
+    setEditingId(null);
+    setConflict(null);
+    setFilterTag('all');
+    setForm(prev => ({ ...prev, tags: [], split: null }));
+  }, [ledgerId]);
+
+  // Names a `category:` search term covers: the matching category (by name,
+  // ignoring case) and all of its sub-categories
+  const searchCategoryNames = (terms: string[]) =>
+    terms.flatMap(term => {
+      const match = categories.find(category => category.name.toLowerCase() === term.toLowerCase());
+      if (!match) return [term];
+      return categories.filter(category => belongsTo(category.name, match.name)).map(category => category.name);
+    });
+
+  // Categories the history is limited to by the search and the dropdown
+  // together, or null when neither filters by category
+  const historyCategoryNames = (): string[] | null => {
+    const searched = search.query.categories.length > 0 ? searchCategoryNames(search.query.categories) : null;
+    const selected = filterCategory === 'all'
+      ? null
+      : categories.filter(category => belongsTo(category.name, filterCategory)).map(category => category.name);
+    if (searched && selected) return searched.filter(name => selected.includes(name));
+    return searched ?? selected;
+  };
+
+  // Totals ignore the category dropdown, which is applied to their per-day
+  // rows instead, so switching categories reuses them. The tag dropdown
+  // can only be applied on the server and narrows both.
+  const tagFilter = filterTag === 'all' ? null : [filterTag];
+  const historyFilters = toExpenseFilters(ledgerId, dateFilter.range, search.query, historyCategoryNames(), tagFilter);
+  const totalsFilters = toExpenseFilters(
+    ledgerId,
+    dateFilter.range,
+    search.query,
+    search.query.categories.length > 0 ? searchCategoryNames(search.query.categories) : null,
+    tagFilter
+  );
+  // Weeks can start in the previous year and the forecast looks back to the
+  // same month last year, so take whichever began first
+  const periodFilters = {
+    ...NO_EXPENSE_FILTERS,
+    ledger: ledgerId,
+    from: [getPeriodStart('weekly'), getPeriodStart('yearly'), getForecastStart()].sort()[0],
+    type: 'expense'
+  };
+
+  // Category filters need the category tree to include sub-categories
+  const enabled = recurringReady && !categoriesLoading && !!ledger;
+  const history = useExpenses(historyFilters, { enabled });
+  // Per-day sums for the date range and search, behind every total and chart
+  const totals = useExpenseTotals(totalsFilters, { enabled });
+  // Recent spending per day regardless of filters, which budgets and the
+  // forecast are measured against
+  const periodTotals = useExpenseTotals(periodFilters, { enabled });
+  const tagTotals = useExpenseTagTotals(totalsFilters, { enabled });
+  const flagged = useFlaggedExpenses(ledgerId, { enabled: !!ledger });
+
+  const loadError = history.error ?? totals.error ?? periodTotals.error ?? tagTotals.error ?? flagged.error;
+  useEffect(() => {
+    if (loadError) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load expenses: " + loadError.message,
+      });
+    }
+  }, [loadError, toast]);
+
+  // Materialize recurring expenses that fell due since the last visit
+  const generateRecurring = async () => {
+    if (!navigator.onLine) return;
     try {
       const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        navigate('/login');
-        return;
-      }
-
-      const { data, error } = await supabase
-        .from('expenses')
-        .select('*')
-        .order('date', { ascending: false });
+      if (!user) return;
 
-      if (error) {
+      const created = await generateDueRecurringExpenses(user.id);
+      if (created > 0) {
         toast({
-          variant: "destructive",
-          title: "Error",
-          description: "Failed to load expenses: " + error.message,
+          title: "Recurring expenses added",
+          description: `${created} scheduled ${created === 1 ? 'expense was' : 'expenses were'} added automatically.`,
         });
-      } else {
-        setExpenses(data || []);
       }
     } catch (error) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "An unexpected error occurred while loading expenses",
+        description: "Failed to generate recurring expenses: " + (error as Error).message,
       });
-    } finally {
-      setLoading(false);
+    }
+  };
+
+  const loadBudgets = async () => {
+    if (!navigator.onLine || !ledgerId) return;
+    const { data, error } = await supabase
+      .from('budgets')
+      .select('*')
+      .eq('ledger_id', ledgerId);
+
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load budgets: " + error.message,
+      });
+    } else {
+      setBudgets(data || []);
     }
   };
 
@@ -93,6 +296,8 @@ const ExpenseCalculator = () => {
           description: error.message,
         });
       } else {
+        // Cached expenses are also kept offline, so drop them with the session
+        queryClient.clear();
         toast({
           title: "Success",
           description: "Logged out successfully!",
@@ -108,6 +313,58 @@ const ExpenseCalculator = () => {
     }
   };
 
+  const handleReceiptChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    const rejected = files.map(validateReceipt).filter((reason): reason is string => reason !== null);
+    if (rejected.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Some files were not added",
+        description: rejected.join('. '),
+      });
+    }
+    setReceiptFiles(prev => [...prev, ...files.filter(file => validateReceipt(file) === null)]);
+    e.target.value = '';
+  };
+
+  const handleRemoveAttachment = async (attachment: ExpenseAttachment) => {
+    try {
+      await deleteReceipt.mutateAsync(attachment);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to remove receipt: " + (error as Error).message,
+      });
+    }
+  };
+
+  const savedOfflineToast = {
+    title: "Saved offline",
+    description: "The change will sync when you are back online.",
+  };
+
+  // Receipts are uploaded once the expense itself has been saved
+  const reportReceiptError = (receiptError: Error | null) => {
+    if (!receiptError) return;
+    toast({
+      variant: "destructive",
+      title: "Receipt upload failed",
+      description: "The expense was saved, but its receipts could not be uploaded: " + receiptError.message,
+    });
+  };
+
+  // Tags and splits are written after the expense itself; it stays saved
+  // when they fail and can be edited to add them again
+  const reportDetailError = (detail: 'tags' | 'split', error: Error | null) => {
+    if (!error) return;
+    toast({
+      variant: "destructive",
+      title: detail === 'tags' ? "Tags not saved" : "Split not saved",
+      description: `The expense was saved, but its ${detail} could not be: ` + error.message,
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -120,136 +377,410 @@ const ExpenseCalculator = () => {
       return;
     }
 
+    // An empty currency means the form was left on the base currency
+    const entry = {
+      amount: parseFloat(form.amount),
+      currency: form.currency || baseCurrency,
+      category: form.category,
+      description: form.description,
+      date: form.date,
+      type: form.type
+    };
+    // Income is never split
+    let split: SplitDetails | null = null;
+    if (form.split && form.type === 'expense') {
+      const result = computeFormSplit(form.split, entry.amount);
+      if ('error' in result) {
+        toast({
+          title: "Validation Error",
+          description: result.error,
+          variant: "destructive"
+        });
+        return;
+      }
+      split = { paidBy: form.split.paidBy, method: form.split.method, splits: result.splits };
+    }
+
+    // Unusual expenses are saved only once confirmed, and then flagged
+    const anomalies = await findAnomalies(entry);
+    if (anomalies && anomalies.length > 0) {
+      setPendingSave({ entry, split, anomalies });
+      return;
+    }
+    await saveEntry(entry, split, anomalies === null ? undefined : []);
+  };
+
+  // What is unusual about an entry compared with its category's history;
+  // null when that cannot be checked, e.g. offline
+  const findAnomalies = async (entry: ExpenseInput): Promise<Anomaly[] | null> => {
+    if (isIncome(entry)) return [];
+    if (!navigator.onLine) return null;
     try {
-      if (editingId) {
-        // Update existing expense
-        const { error } = await supabase
-          .from('expenses')
-          .update({
-            amount: parseFloat(form.amount),
-            category: form.category,
-            description: form.description,
-            date: form.date
-          })
-          .eq('id', editingId);
-
-        if (error) {
-          toast({
-            variant: "destructive",
-            title: "Error",
-            description: "Failed to update expense: " + error.message,
-          });
-          return;
-        }
+      const history = await fetchAnomalyHistory(ledgerId, entry.category, entry.date, editingId ?? undefined);
+      return detectAnomalies(entry, history, convert, baseCurrency);
+    } catch {
+      return null;
+    }
+  };
 
-        toast({
+  const handleConfirmSave = () => {
+    if (!pendingSave) return;
+    const { entry, split, anomalies } = pendingSave;
+    setPendingSave(null);
+    saveEntry(entry, split, anomalies.map(anomaly => anomaly.flag));
+  };
+
+  // Flags are left out when the detector could not run, which keeps the
+  // ones an edited expense already has
+  const saveEntry = async (entry: ExpenseInput, split: SplitDetails | null, anomalyFlags?: AnomalyFlag[]) => {
+    const receipts = receiptFiles;
+    // An expense deleted elsewhere while being edited is added back
+    const updating = editingId !== null && conflict?.kind !== 'deleted';
+
+    // New tags are created first; the form stays filled in if that fails
+    let tagIds: string[];
+    try {
+      tagIds = await resolveTags.mutateAsync(form.tags);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save tags: " + (error as Error).message,
+      });
+      return;
+    }
+
+    // Reset the form straight away; the list already shows the change
+    resetForm();
+
+    if (updating) {
+      try {
+        const { receiptError, tagError, splitError, queued } = await updateExpense.mutateAsync({
+          id: editingId,
+          changes: entry,
+          tagIds,
+          split,
+          receipts,
+          anomalyFlags
+        });
+        reportReceiptError(receiptError);
+        toast(queued ? savedOfflineToast : {
           title: "Success",
-          description: "Expense updated successfully!"
+          description: `${entryLabel} updated successfully!`
         });
-        setEditingId(null);
-      } else {
-        // Create new expense
-        const { data: { user } } = await supabase.auth.getUser();
-        if (!user) {
-          navigate('/login');
-          return;
-        }
-
-        const { error } = await supabase
-          .from('expenses')
-          .insert({
-            amount: parseFloat(form.amount),
-            category: form.category,
-            description: form.description,
-            date: form.date,
-            user_id: user.id
-          });
-
-        if (error) {
-          toast({
-            variant: "destructive",
-            title: "Error",
-            description: "Failed to add expense: " + error.message,
-          });
-          return;
-        }
-
+        reportDetailError('tags', tagError);
+        reportDetailError('split', splitError);
+      } catch (error) {
         toast({
-          title: "Success",
-          description: "Expense added successfully!"
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to update expense: " + (error as Error).message,
         });
       }
+      return;
+    }
 
-      // Reload expenses from database
-      await loadExpenses();
-      
-      // Reset form
-      setForm({
-        amount: '',
-        category: '',
-        description: '',
-        date: new Date().toISOString().split('T')[0]
+    // Budgets are kept in the base currency, so compare converted amounts
+    const exceededBudgets = isIncome(entry) ? [] : findExceededBudgets(budgets, allSpending, {
+      ...entry,
+      amount: convert(entry.amount, entry.currency, entry.date) ?? 0
+    }, belongsTo);
+
+    try {
+      const { receiptError, tagError, splitError, queued } = await createExpense.mutateAsync({
+        id: crypto.randomUUID(),
+        ledgerId,
+        expense: entry,
+        tagIds,
+        split,
+        receipts,
+        anomalyFlags
+      });
+      reportReceiptError(receiptError);
+      toast(queued ? savedOfflineToast : {
+        title: "Success",
+        description: `${entryLabel} added successfully!`
+      });
+      reportDetailError('tags', tagError);
+      reportDetailError('split', splitError);
+
+      exceededBudgets.forEach(budget => {
+        toast({
+          variant: "destructive",
+          title: "Budget exceeded",
+          description: `${budget.category} is now over its ${budget.period} limit of ${formatMoney(budget.amount, baseCurrency)}.`,
+        });
       });
     } catch (error) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "An unexpected error occurred",
+        description: "Failed to add expense: " + (error as Error).message,
       });
     }
   };
 
-  const handleEdit = (expense: Expense) => {
+  const resetForm = () => {
     setForm({
+      type: form.type,
+      amount: '',
+      currency: '',
+      category: '',
+      description: '',
+      date: new Date().toISOString().split('T')[0],
+      tags: [],
+      split: null
+    });
+    setReceiptFiles([]);
+    setEditingId(null);
+    setConflict(null);
+  };
+
+  // Replace the form with the version saved on another device; changes
+  // come without tags or splits, so the ones in the form are kept
+  const handleUseRemoteVersion = (expense: ExpenseInput) => {
+    setForm(prev => ({
+      type: expense.type as EntryType,
       amount: expense.amount.toString(),
+      currency: expense.currency,
+      category: expense.category,
+      description: expense.description,
+      date: expense.date,
+      tags: prev.tags,
+      split: prev.split
+    }));
+    setConflict(null);
+  };
+
+  // Names of an expense's tags; tags not loaded yet are left out
+  const tagNamesOf = (expense: Expense) =>
+    expense.expense_tags
+      .map(({ tag_id }) => nameOf(tag_id))
+      .filter((name): name is string => name !== undefined);
+
+  const handleEdit = (expense: Converted<Expense>) => {
+    setConflict(null);
+    setForm({
+      type: expense.type as EntryType,
+      amount: expense.originalAmount.toString(),
+      currency: expense.currency,
       category: expense.category,
       description: expense.description,
-      date: expense.date
+      date: expense.date,
+      tags: tagNamesOf(expense),
+      split: splitFormFrom(expense)
     });
     setEditingId(expense.id);
   };
 
-  const handleDelete = async (id: string) => {
+  const handleRestore = async (expense: Expense) => {
     try {
-      const { error } = await supabase
-        .from('expenses')
-        .delete()
-        .eq('id', id);
+      const { queued } = await restoreExpense.mutateAsync(expense);
+      toast(queued ? savedOfflineToast : {
+        title: "Success",
+        description: "Expense restored.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to restore expense: " + (error as Error).message,
+      });
+    }
+  };
 
-      if (error) {
-        toast({
-          variant: "destructive",
-          title: "Error",
-          description: "Failed to delete expense: " + error.message,
-        });
-        return;
-      }
+  // Deleted expenses go to the trash, so the toast offers to undo right away
+  const handleDelete = async (id: string) => {
+    const expense = expenses.find(item => item.id === id);
+    if (!expense) return;
 
+    try {
+      const { queued } = await deleteExpense.mutateAsync(expense);
       toast({
-        title: "Success",
-        description: "Expense deleted successfully!"
+        ...(queued ? savedOfflineToast : {
+          title: "Success",
+          description: "Expense moved to the trash.",
+        }),
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => handleRestore(expense)}>
+            Undo
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to delete expense: " + (error as Error).message,
+      });
+    }
+  };
+
+  // Selected rows are changed with one request and summed up in one toast;
+  // deletes can be undone from it like single ones
+  const handleBatchAction = async (targets: Expense[], action: BatchAction) => {
+    if (targets.length === 0) return;
+    try {
+      const { count, queued } = await batchAction.mutateAsync({ expenses: targets, action });
+      selection.clear();
+      toast({
+        ...(queued ? savedOfflineToast : {
+          title: "Success",
+          description: describeBatchAction(action, count),
+        }),
+        ...(action.kind === 'delete' && {
+          action: (
+            <ToastAction altText="Undo delete" onClick={() => handleBatchAction(targets, { kind: 'restore' })}>
+              Undo
+            </ToastAction>
+          ),
+        }),
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update expenses: " + (error as Error).message,
       });
+    }
+  };
 
-      // Reload expenses from database
-      await loadExpenses();
+  const handleBatchAddTag = async (name: string) => {
+    try {
+      const [tagId] = await resolveTags.mutateAsync([name]);
+      await handleBatchAction(selectedExpenses, { kind: 'tag', tagId });
     } catch (error) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "An unexpected error occurred while deleting expense",
+        description: "Failed to save tags: " + (error as Error).message,
       });
     }
   };
 
-  const filteredExpenses = filterCategory === 'all' 
-    ? expenses 
-    : expenses.filter(exp => exp.category === filterCategory);
+  // Only expenses the user paid for go into their claims; income never does
+  const handleBatchAddToClaim = (claimId: string) =>
+    handleBatchAction(
+      selectedExpenses.filter(expense => !isIncome(expense) && (expense.paid_by ?? expense.user_id) === userId),
+      { kind: 'claim', claimId }
+    );
+
+  const handleExportSelected = async (format: ExportFormat) => {
+    try {
+      await exportExpenses(
+        baseExpenses.filter(expense => selection.selected.has(expense.id)),
+        format,
+        baseCurrency,
+        `expenses-selected-${toDateKey(new Date())}`
+      );
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export Failed",
+        description: "An unexpected error occurred while generating the export",
+      });
+    }
+  };
+
+  // Every total below is in the base currency; rows still show what was paid
+  const expenses = history.data?.pages.flatMap(page => page.expenses) ?? [];
+  const selection = useSelection(expenses.map(expense => expense.id));
+  const selectedExpenses = expenses.filter(expense => selection.selected.has(expense.id));
+  const selectedTypes = new Set(selectedExpenses.map(expense => expense.type));
+  const baseExpenses = convertToBase(expenses, convert);
+  const baseTotals = convertToBase(totals.data ?? [], convert);
+  const unconvertedCount = baseTotals
+    .filter(total => !total.converted)
+    .reduce((sum, total) => sum + total.entry_count, 0);
+
+  // The date range and search drive the list, the summary cards and the
+  // charts; the category dropdown narrows the list and the first three
+  // cards; budgets always look at their own current period
+  const filteredTotals = filterCategory === 'all'
+    ? baseTotals
+    : baseTotals.filter(total => belongsTo(total.category, filterCategory));
+  const entryCount = filteredTotals.reduce((sum, total) => sum + total.entry_count, 0);
+
+  // Spending per tag name for the tag chart
+  const tagSpending = Object.entries(
+    convertToBase(tagTotals.data ?? [], convert)
+      .filter(total => !isIncome(total))
+      .reduce((acc, total) => {
+        const name = nameOf(total.tag_id);
+        if (name) acc[name] = (acc[name] || 0) + total.amount;
+        return acc;
+      }, {} as Record<string, number>)
+  ).map(([tag, amount]) => ({ tag, amount }));
+
+  // Income is listed in the history but kept out of spending totals and budgets
+  const allSpending = convertToBase(periodTotals.data ?? [], convert);
+  const spending = baseTotals.filter(total => !isIncome(total));
+  const income = baseTotals.filter(isIncome);
+  const filteredSpending = filteredTotals.filter(total => !isIncome(total));
+  const totalAmount = filteredSpending.reduce((sum, exp) => sum + exp.amount, 0);
+  const rangeDays = countRangeDays(dateFilter.range, filteredSpending.map(exp => exp.date));
+  const dailyAverage = rangeDays > 0 ? totalAmount / rangeDays : 0;
+  const totalIncome = income.reduce((sum, exp) => sum + exp.amount, 0);
+  const totalSpending = spending.reduce((sum, exp) => sum + exp.amount, 0);
+  const savingsRate = getSavingsRate(totalIncome, totalSpending);
+
+  // Each category's total includes its sub-categories
+  const categoryTotals = rollUpCategoryTotals(
+    spending.reduce((acc, exp) => {
+      acc[exp.category] = (acc[exp.category] || 0) + exp.amount;
+      return acc;
+    }, {} as Record<string, number>),
+    pathOf
+  );
 
-  const totalAmount = filteredExpenses.reduce((sum, exp) => sum + exp.amount, 0);
-  const categoryTotals = expenses.reduce((acc, exp) => {
-    acc[exp.category] = (acc[exp.category] || 0) + exp.amount;
+  const breakdown = buildCategoryBreakdown(categoryTotals, tree, categories);
+
+  // The forecast covers all spending, so the charts only draw it while the
+  // search and tag filter leave their totals unnarrowed and the date range
+  // takes in the whole month so far
+  const forecast = forecastMonthEnd(allSpending);
+  const forecastWarnings = getForecastWarnings(forecast, budgets, belongsTo);
+  const chartsShowForecast = isEmptyExpenseQuery(search.query) && filterTag === 'all'
+    && coversMonthToDate(dateFilter.range, forecast);
+
+  const flaggedExpenses = convertToBase(flagged.data ?? [], convert);
+
+  const searchTerms = highlightTerms(search.query);
+
+  const pendingCount = offline.pendingIds.size;
+  const pendingLabel = `${pendingCount} ${pendingCount === 1 ? 'change' : 'changes'} waiting to sync`;
+  const syncStatus = !offline.online
+    ? `Offline${pendingCount > 0 ? ` · ${pendingLabel}` : ''}`
+    : offline.syncing
+      ? 'Syncing offline changes…'
+      : realtime.remoteUpdate
+        ? 'Updated from another device'
+        : realtime.connected
+          ? 'Live'
+          : 'Not syncing';
+
+  const editingExpense = editingId ? expenses.find(exp => exp.id === editingId) : undefined;
+  const entryLabel = form.type === 'income' ? 'Income' : 'Expense';
+
+  const claimsById = new Map(claims.map(claim => [claim.id, claim]));
+
+  // Status of the claim an expense is in, if any
+  const claimBadge = (expense: Expense) => {
+    const claim = expense.claim_id ? claimsById.get(expense.claim_id) : undefined;
+    if (!claim) return null;
+    const status = claimStatus(claim.status);
+    return (
+      <Badge variant="outline" className={cn('gap-1 text-xs font-normal', status.className)} title={claim.title}>
+        <Briefcase className="h-3 w-3" />
+        Claim · {status.label}
+      </Badge>
+    );
+  };
+
+  const budgetsByCategory = budgets.reduce((acc, budget) => {
+    (acc[budget.category] = acc[budget.category] || []).push(budget);
     return acc;
-  }, {} as Record<string, number>);
+  }, {} as Record<string, Budget[]>);
 
   return (
     <div className="min-h-screen bg-background p-4 md:p-6">
@@ -264,26 +795,140 @@ const ExpenseCalculator = () => {
               Track and manage your expenses with precision
             </p>
           </div>
-          <Button
-            onClick={handleLogout}
-            variant="outline"
-            size="sm"
-            className="flex items-center gap-2 hover:bg-destructive/10 hover:text-destructive hover:border-destructive/50"
-          >
-            <LogOut className="h-4 w-4" />
-            Logout
-          </Button>
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <Button
+              onClick={() => navigate('/import')}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+            <Button
+              onClick={() => navigate('/recurring')}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <Repeat className="h-4 w-4" />
+              Recurring
+            </Button>
+            <Button
+              onClick={() => navigate('/budgets')}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <Target className="h-4 w-4" />
+              Budgets
+            </Button>
+            <Button
+              onClick={() => navigate('/settings')}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <Settings className="h-4 w-4" />
+              Settings
+            </Button>
+            <Button
+              onClick={() => navigate('/trash')}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <Trash2 className="h-4 w-4" />
+              Trash
+            </Button>
+            <Button
+              onClick={() => navigate('/claims')}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <Briefcase className="h-4 w-4" />
+              Claims
+            </Button>
+            <Button
+              onClick={() => navigate('/balances')}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <Scale className="h-4 w-4" />
+              Balances
+            </Button>
+            <Button
+              onClick={() => navigate('/reports')}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <FileText className="h-4 w-4" />
+              Reports
+            </Button>
+            <LedgerSwitcher />
+            <Button
+              onClick={handleLogout}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2 hover:bg-destructive/10 hover:text-destructive hover:border-destructive/50"
+            >
+              <LogOut className="h-4 w-4" />
+              Logout
+            </Button>
+          </div>
+        </div>
+
+        {unconvertedCount > 0 && (
+          <div className="flex items-center justify-between gap-4 rounded-lg border border-warning/50 bg-warning/10 p-4 text-sm">
+            <div className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 text-warning" />
+              <span>
+                {unconvertedCount} {unconvertedCount === 1 ? 'expense has' : 'expenses have'} no exchange rate into {baseCurrency} and {unconvertedCount === 1 ? 'is' : 'are'} left out of totals and charts.
+              </span>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => navigate('/settings')}>
+              Add rates
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <p className="text-sm text-muted-foreground">
+              Showing: <span className="font-medium text-foreground">{dateFilter.label}</span>
+            </p>
+            <span className="flex items-center gap-1.5 text-xs text-muted-foreground" aria-live="polite">
+              <span
+                className={cn(
+                  'h-2 w-2 rounded-full',
+                  !offline.online ? 'bg-warning' : realtime.connected ? 'bg-success' : 'bg-muted-foreground/40',
+                  realtime.remoteUpdate && 'animate-pulse'
+                )}
+              />
+              {syncStatus}
+            </span>
+          </div>
+          <DateRangePicker
+            preset={dateFilter.preset}
+            range={dateFilter.range}
+            label={dateFilter.label}
+            onPresetChange={dateFilter.setPreset}
+            onCustomRangeChange={dateFilter.setCustomRange}
+          />
         </div>
 
         {/* Summary Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 animate-slide-in">
+        <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-6 animate-slide-in">
           <Card className="bg-gradient-card shadow-card border-0 hover:shadow-lg transition-all duration-300">
             <CardContent className="p-6">
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Total Expenses</p>
                   <p className="text-3xl font-bold text-foreground">
-                    ₹{totalAmount.toFixed(2)}
+                    {formatMoney(totalAmount, baseCurrency)}
                   </p>
                 </div>
                 <div className="h-12 w-12 bg-primary/10 rounded-lg flex items-center justify-center">
@@ -298,7 +943,7 @@ const ExpenseCalculator = () => {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-muted-foreground">Total Entries</p>
-                  <p className="text-3xl font-bold text-foreground">{filteredExpenses.length}</p>
+                  <p className="text-3xl font-bold text-foreground">{entryCount}</p>
                 </div>
                 <div className="h-12 w-12 bg-success/10 rounded-lg flex items-center justify-center">
                   <TrendingUp className="h-6 w-6 text-success" />
@@ -311,11 +956,9 @@ const ExpenseCalculator = () => {
             <CardContent className="p-6">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm font-medium text-muted-foreground">This Month</p>
+                  <p className="text-sm font-medium text-muted-foreground">Daily Average</p>
                   <p className="text-3xl font-bold text-foreground">
-                    ₹{expenses.filter(exp => 
-                      new Date(exp.date).getMonth() === new Date().getMonth()
-                    ).reduce((sum, exp) => sum + exp.amount, 0).toFixed(2)}
+                    {formatMoney(dailyAverage, baseCurrency)}
                   </p>
                 </div>
                 <div className="h-12 w-12 bg-warning/10 rounded-lg flex items-center justify-center">
@@ -324,76 +967,254 @@ const ExpenseCalculator = () => {
               </div>
             </CardContent>
           </Card>
+
+          <Card className="bg-gradient-card shadow-card border-0 hover:shadow-lg transition-all duration-300">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Total Income</p>
+                  <p className="text-3xl font-bold text-foreground">
+                    {formatMoney(totalIncome, baseCurrency)}
+                  </p>
+                </div>
+                <div className="h-12 w-12 bg-success/10 rounded-lg flex items-center justify-center">
+                  <Wallet className="h-6 w-6 text-success" />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gradient-card shadow-card border-0 hover:shadow-lg transition-all duration-300">
+            <CardContent className="p-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-muted-foreground">Savings Rate</p>
+                  <p className={cn(
+                    'text-3xl font-bold',
+                    savingsRate === null ? 'text-muted-foreground' : savingsRate < 0 ? 'text-destructive' : 'text-foreground'
+                  )}>
+                    {savingsRate === null ? '—' : `${(savingsRate * 100).toFixed(1)}%`}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Net {formatMoney(totalIncome - totalSpending, baseCurrency)}
+                  </p>
+                </div>
+                <div className="h-12 w-12 bg-primary/10 rounded-lg flex items-center justify-center">
+                  <PiggyBank className="h-6 w-6 text-primary" />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
         </div>
 
+        {flaggedExpenses.length > 0 && (
+          <AnomalyReviewPanel
+            expenses={flaggedExpenses}
+            baseCurrency={baseCurrency}
+            colorFor={colorFor}
+            iconFor={iconFor}
+            canEdit={canEdit}
+            busy={batchAction.isPending}
+            onReview={(targets) => handleBatchAction(targets, { kind: 'reviewAnomalies' })}
+            onEdit={handleEdit}
+            onDelete={(expense) => handleBatchAction([expense], { kind: 'delete' })}
+          />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           {/* Add Expense Form */}
           <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <Plus className="h-5 w-5 text-primary" />
-                {editingId ? 'Edit Expense' : 'Add New Expense'}
+                {editingId ? `Edit ${entryLabel}` : `Add New ${entryLabel}`}
               </CardTitle>
             </CardHeader>
             <CardContent>
+              {!canEdit && ledger && (
+                <p className="mb-4 text-sm text-muted-foreground">
+                  You are a viewer of "{ledger.name}" and cannot add or change its expenses.
+                </p>
+              )}
               <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="amount">Amount (₹)</Label>
-                  <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    placeholder="0.00"
-                    value={form.amount}
-                    onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
-                    className="bg-background/50"
-                  />
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="category">Category</Label>
-                  <Select value={form.category} onValueChange={(value) => setForm(prev => ({ ...prev, category: value }))}>
-                    <SelectTrigger className="bg-background/50">
-                      <SelectValue placeholder="Select category" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {EXPENSE_CATEGORIES.map(category => (
-                        <SelectItem key={category} value={category}>
-                          {category}
-                        </SelectItem>
+                <fieldset disabled={!canEdit} className="space-y-4">
+                  <Tabs
+                    value={form.type}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, type: value as EntryType, category: '' }))}
+                  >
+                    <TabsList className="grid w-full grid-cols-2">
+                      {ENTRY_TYPES.map(type => (
+                        <TabsTrigger key={type.value} value={type.value}>
+                          {type.label}
+                        </TabsTrigger>
                       ))}
-                    </SelectContent>
-                  </Select>
-                </div>
+                    </TabsList>
+                  </Tabs>
 
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Input
-                    id="description"
-                    placeholder="Enter expense description"
-                    value={form.description}
-                    onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
-                    className="bg-background/50"
-                  />
-                </div>
+                  <div className="grid grid-cols-3 gap-4">
+                    <div className="space-y-2 col-span-2">
+                      <Label htmlFor="amount">Amount</Label>
+                      <Input
+                        id="amount"
+                        type="number"
+                        step="0.01"
+                        placeholder="0.00"
+                        value={form.amount}
+                        onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                        className="bg-background/50"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="currency">Currency</Label>
+                      <CurrencySelect
+                        id="currency"
+                        value={form.currency || baseCurrency}
+                        onChange={(value) => setForm(prev => ({ ...prev, currency: value }))}
+                      />
+                    </div>
+                  </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="date">Date</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    value={form.date}
-                    onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
-                    className="bg-background/50"
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="category">Category</Label>
+                    <CategorySelect
+                      id="category"
+                      value={form.category}
+                      onChange={(value) => setForm(prev => ({ ...prev, category: value }))}
+                      categories={activeCategories.filter(category => category.kind === form.type)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Input
+                      id="description"
+                      placeholder={form.type === 'income' ? 'e.g. March salary' : 'Enter expense description'}
+                      value={form.description}
+                      onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                      className="bg-background/50"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="tags">Tags (optional)</Label>
+                    <TagInput
+                      id="tags"
+                      value={form.tags}
+                      onChange={(value) => setForm(prev => ({ ...prev, tags: value }))}
+                      suggestions={tags.map(tag => tag.name)}
+                    />
+                  </div>
 
-                <Button 
-                  type="submit" 
-                  className="w-full bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
-                >
-                  {editingId ? 'Update Expense' : 'Add Expense'}
-                </Button>
+                  {form.type === 'expense' && members.length > 1 && (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id="split"
+                          checked={form.split !== null}
+                          onCheckedChange={(checked) => setForm(prev => ({
+                            ...prev,
+                            split: checked === true
+                              ? newSplitForm(members.map(member => member.user_id), userId ?? members[0].user_id)
+                              : null
+                          }))}
+                        />
+                        <Label htmlFor="split" className="flex items-center gap-1">
+                          <Users className="h-4 w-4" />
+                          Split with ledger members
+                        </Label>
+                      </div>
+                      {form.split && (
+                        <SplitEditor
+                          members={members}
+                          amount={parseFloat(form.amount) || 0}
+                          currency={form.currency || baseCurrency}
+                          value={form.split}
+                          onChange={(value) => setForm(prev => ({ ...prev, split: value }))}
+                        />
+                      )}
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="date">Date</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      value={form.date}
+                      onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+                      className="bg-background/50"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="receipts">Receipts</Label>
+                    <Input
+                      id="receipts"
+                      type="file"
+                      multiple
+                      accept={RECEIPT_MIME_TYPES.join(',')}
+                      onChange={handleReceiptChange}
+                      className="bg-background/50"
+                    />
+                    {editingExpense?.expense_attachments?.length > 0 && (
+                      <ReceiptThumbnails
+                        attachments={editingExpense.expense_attachments}
+                        onRemove={handleRemoveAttachment}
+                      />
+                    )}
+                    {receiptFiles.length > 0 && (
+                      <ul className="space-y-1">
+                        {receiptFiles.map((file, index) => (
+                          <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm bg-background/50 rounded-md px-3 py-1">
+                            <span className="flex items-center gap-2 truncate">
+                              <Paperclip className="h-3 w-3 shrink-0" />
+                              {file.name}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => setReceiptFiles(prev => prev.filter((_, i) => i !== index))}
+                              className="text-muted-foreground hover:text-destructive"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+
+                  {conflict && (
+                    <div className="space-y-2 rounded-lg border border-warning/50 bg-warning/10 p-3 text-sm">
+                      <p className="flex items-center gap-2">
+                        <AlertTriangle className="h-4 w-4 shrink-0 text-warning" />
+                        {conflict.kind === 'deleted'
+                          ? `This ${entryLabel.toLowerCase()} was deleted on another device. Saving will add it again.`
+                          : `This ${entryLabel.toLowerCase()} was changed on another device. Saving will overwrite that change.`}
+                      </p>
+                      {conflict.kind === 'saved' ? (
+                        <div className="flex gap-2">
+                          <Button type="button" size="sm" variant="outline" onClick={() => handleUseRemoteVersion(conflict.expense)}>
+                            Use their version
+                          </Button>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => setConflict(null)}>
+                            Keep mine
+                          </Button>
+                        </div>
+                      ) : (
+                        <Button type="button" size="sm" variant="outline" onClick={resetForm}>
+                          Discard my edit
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  <Button 
+                    type="submit" 
+                    className="w-full bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+                  >
+                    {editingId ? `Update ${entryLabel}` : `Add ${entryLabel}`}
+                  </Button>
+                </fieldset>
               </form>
             </CardContent>
           </Card>
@@ -406,106 +1227,324 @@ const ExpenseCalculator = () => {
                   <Filter className="h-5 w-5 text-primary" />
                   Expense History
                 </CardTitle>
-                <Select value={filterCategory} onValueChange={setFilterCategory}>
-                  <SelectTrigger className="w-48 bg-background/50">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Categories</SelectItem>
-                    {EXPENSE_CATEGORIES.map(category => (
-                      <SelectItem key={category} value={category}>
-                        {category}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <div className="flex items-center gap-2">
+                  <Select value={filterCategory} onValueChange={setFilterCategory}>
+                    <SelectTrigger className="w-48 bg-background/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Categories</SelectItem>
+                      {flattenCategoryTree(tree).map(({ category, depth }) => (
+                        <SelectItem key={category.id} value={category.name}>
+                          <span style={{ paddingLeft: `${depth * 1.25}rem` }}>{category.name}</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {tags.length > 0 && (
+                    <Select value={filterTag} onValueChange={setFilterTag}>
+                      <SelectTrigger className="w-40 bg-background/50">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Tags</SelectItem>
+                        {tags.map(tag => (
+                          <SelectItem key={tag.id} value={tag.id}>{formatTag(tag.name)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  <ExportMenu
+                    filteredCount={entryCount}
+                    loadFilteredExpenses={async () => convertToBase(await fetchAllExpenses(historyFilters), convert)}
+                    loadAllExpenses={async () => convertToBase(await fetchAllExpenses({ ...NO_EXPENSE_FILTERS, ledger: ledgerId }), convert)}
+                    baseCurrency={baseCurrency}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1 pt-2">
+                <div className="flex items-center gap-2">
+                  <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                    <Input
+                      placeholder='Search, e.g. amount>500 category:Travel "uber"'
+                      value={search.input}
+                      onChange={(e) => search.setInput(e.target.value)}
+                      className="pl-9 bg-background/50"
+                      aria-label="Search expenses"
+                    />
+                  </div>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button variant="outline" size="sm" className="h-10 w-10 p-0 bg-background/50">
+                        <HelpCircle className="h-4 w-4" />
+                        <span className="sr-only">Search syntax</span>
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent align="end" className="w-80 space-y-2 text-sm">
+                      <p className="font-medium">Search syntax</p>
+                      {QUERY_SYNTAX_HELP.map(item => (
+                        <div key={item.example}>
+                          <code className="text-xs bg-muted px-1 py-0.5 rounded">{item.example}</code>
+                          <p className="text-xs text-muted-foreground">{item.description}</p>
+                        </div>
+                      ))}
+                    </PopoverContent>
+                  </Popover>
+                </div>
+                {search.query.errors.map(message => (
+                  <p key={message} className="text-xs text-destructive">{message}</p>
+                ))}
+                {search.text && (
+                  <p className="text-xs text-muted-foreground">
+                    {entryCount} {entryCount === 1 ? 'match' : 'matches'}
+                  </p>
+                )}
               </div>
             </CardHeader>
             <CardContent>
-              <div className="space-y-3 max-h-96 overflow-y-auto">
-                {filteredExpenses.length === 0 ? (
-                  <div className="text-center py-8 text-muted-foreground">
-                    <DollarSign className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                    <p>No expenses found</p>
-                  </div>
-                ) : (
-                  filteredExpenses.map((expense, index) => (
+              {canEdit && selectedExpenses.length > 0 && (
+                <div className="mb-4">
+                  <BatchActionBar
+                    count={selectedExpenses.length}
+                    allSelected={selectedExpenses.length === expenses.length}
+                    categories={selectedTypes.size === 1
+                      ? activeCategories.filter(category => selectedTypes.has(category.kind))
+                      : activeCategories}
+                    busy={batchAction.isPending}
+                    onSelectAll={selection.selectAll}
+                    onClear={selection.clear}
+                    onChangeCategory={category => handleBatchAction(selectedExpenses, { kind: 'category', category })}
+                    onShiftDate={days => handleBatchAction(selectedExpenses, { kind: 'shiftDate', days })}
+                    tagSuggestions={tags.map(tag => tag.name)}
+                    onAddTag={handleBatchAddTag}
+                    draftClaims={claims.filter(claim => claim.status === 'draft' && claim.user_id === userId)}
+                    onAddToClaim={handleBatchAddToClaim}
+                    onExport={handleExportSelected}
+                    onDelete={() => handleBatchAction(selectedExpenses, { kind: 'delete' })}
+                  />
+                </div>
+              )}
+              {baseExpenses.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <DollarSign className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                  <p>No expenses found</p>
+                </div>
+              ) : (
+                <VirtualList
+                  items={baseExpenses}
+                  getKey={expense => expense.id}
+                  estimateSize={96}
+                  hasMore={history.hasNextPage}
+                  loadingMore={history.isFetchingNextPage}
+                  onLoadMore={history.fetchNextPage}
+                  className="max-h-96"
+                  renderItem={expense => (
                     <div
-                      key={expense.id}
-                      className="bg-background/50 p-4 rounded-lg border border-border/50 hover:shadow-card transition-all duration-300 animate-fade-in"
-                      style={{ animationDelay: `${index * 0.1}s` }}
+                      className={cn(
+                        'bg-background/50 p-4 rounded-lg border border-border/50 hover:shadow-card transition-all duration-300 animate-fade-in',
+                        selection.selected.has(expense.id) && 'border-primary/50 bg-primary/5'
+                      )}
                     >
                       <div className="flex items-center justify-between">
+                        {canEdit && (
+                          <Checkbox
+                            checked={selection.selected.has(expense.id)}
+                            onClick={(e) => selection.toggle(expense.id, e.shiftKey)}
+                            aria-label="Select expense"
+                            className="mr-4"
+                          />
+                        )}
                         <div className="flex-1">
                           <div className="flex items-center gap-2 mb-1">
-                            <span className="font-semibold text-lg">₹{expense.amount.toFixed(2)}</span>
-                            <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full">
-                              {expense.category}
+                            <span className={cn('font-semibold text-lg', isIncome(expense) && 'text-success')}>
+                              {isIncome(expense) && '+'}{formatMoney(expense.originalAmount, expense.currency)}
                             </span>
+                            {expense.currency !== baseCurrency && (
+                              <span className="text-xs text-muted-foreground">
+                                {expense.converted ? `≈ ${formatMoney(expense.amount, baseCurrency)}` : 'no rate'}
+                              </span>
+                            )}
+                            <CategoryBadge
+                              name={expense.category}
+                              color={colorFor(expense.category)}
+                              icon={iconFor(expense.category)}
+                            />
+                            {offline.pendingIds.has(expense.id) && (
+                              <Badge variant="outline" className="gap-1 text-xs font-normal text-warning border-warning/50">
+                                <CloudOff className="h-3 w-3" />
+                                Pending sync
+                              </Badge>
+                            )}
+                            {expense.paid_by && expense.expense_splits.length > 0 && (
+                              <Badge variant="outline" className="gap-1 text-xs font-normal">
+                                <Users className="h-3 w-3" />
+                                Split {expense.expense_splits.length} ways · paid by {memberLabel(members, expense.paid_by)}
+                              </Badge>
+                            )}
+                            {claimBadge(expense)}
                           </div>
-                          <p className="text-sm text-muted-foreground mb-1">{expense.description}</p>
+                          <p className="text-sm text-muted-foreground mb-1">
+                            <HighlightedText text={expense.description} terms={searchTerms} />
+                          </p>
+                          {expense.expense_tags.length > 0 && (
+                            <div className="mb-1 flex flex-wrap gap-1">
+                              {tagNamesOf(expense).map(name => (
+                                <Badge key={name} variant="secondary" className="text-xs font-normal">
+                                  {formatTag(name)}
+                                </Badge>
+                              ))}
+                            </div>
+                          )}
                           <p className="text-xs text-muted-foreground">{expense.date}</p>
+                          {expense.expense_attachments?.length > 0 && (
+                            <div className="mt-2">
+                              <ReceiptThumbnails attachments={expense.expense_attachments} />
+                            </div>
+                          )}
                         </div>
-                        <div className="flex gap-2">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleEdit(expense)}
-                            className="h-8 w-8 p-0 hover:bg-primary/10"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => handleDelete(expense.id)}
-                            className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
+                        {canEdit && (
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleEdit(expense)}
+                              className="h-8 w-8 p-0 hover:bg-primary/10"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleDelete(expense.id)}
+                              className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     </div>
-                  ))
-                )}
-              </div>
+                  )}
+                />
+              )}
             </CardContent>
           </Card>
         </div>
 
+        {forecast.projected > 0 && (
+          <SpendingForecast forecast={forecast} warnings={forecastWarnings} currency={baseCurrency} />
+        )}
+
         {/* Professional Expense Charts */}
-        <ExpenseCharts expenses={expenses} />
+        <ExpenseCharts
+          expenses={spending}
+          income={income}
+          currency={baseCurrency}
+          rangeLabel={dateFilter.label}
+          colorFor={colorFor}
+          pathOf={pathOf}
+          forecast={chartsShowForecast && forecast.projected > 0 ? forecast : undefined}
+        />
+
+        <PeriodComparison ledgerId={ledgerId} colorFor={colorFor} pathOf={pathOf} />
+
+        {tagSpending.length > 0 && (
+          <TagSpendingChart totals={tagSpending} currency={baseCurrency} rangeLabel={dateFilter.label} />
+        )}
 
         {/* Category Breakdown */}
-        {Object.keys(categoryTotals).length > 0 && (
+        {breakdown.length > 0 && (
           <Card className="bg-gradient-card shadow-card border-0 animate-fade-in">
             <CardHeader>
               <CardTitle>Category Breakdown</CardTitle>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {Object.entries(categoryTotals).map(([category, amount]) => (
-                  <div key={category} className="bg-background/50 p-4 rounded-lg border border-border/50">
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm font-medium">{category}</span>
-                      <span className="font-semibold">₹{amount.toFixed(2)}</span>
-                    </div>
-                    <div className="mt-2 bg-muted rounded-full h-2">
-                      <div
-                        className="bg-gradient-primary h-2 rounded-full transition-all duration-500"
-                        style={{ width: `${(amount / totalAmount) * 100}%` }}
-                      />
-                    </div>
-                    <div className="text-xs text-muted-foreground mt-1">
-                      {((amount / totalAmount) * 100).toFixed(1)}% of total
+                {breakdown.map(({ name: category, children }) => {
+                  const amount = categoryTotals[category];
+                  const CategoryIcon = iconFor(category);
+                  return (
+                    <div key={category} className="bg-background/50 p-4 rounded-lg border border-border/50">
+                      <div className="flex justify-between items-center">
+                        <span className="text-sm font-medium flex items-center gap-2">
+                          <CategoryIcon className="h-4 w-4" style={{ color: colorFor(category) }} />
+                          {category}
+                        </span>
+                        <span className="font-semibold">{formatMoney(amount, baseCurrency)}</span>
+                      </div>
+                      <div className="mt-2 bg-muted rounded-full h-2">
+                        <div
+                          className="h-2 rounded-full transition-all duration-500"
+                          style={{ width: `${(amount / totalAmount) * 100}%`, backgroundColor: colorFor(category) }}
+                        />
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {((amount / totalAmount) * 100).toFixed(1)}% of total
+                      </div>
+                      {children.length > 0 && (
+                        <div className="mt-3 space-y-1">
+                          {children.map(child => (
+                            <div
+                              key={child.name}
+                              className="flex justify-between items-center text-xs"
+                              style={{ paddingLeft: `${(child.depth - 1) * 0.75}rem` }}
+                            >
+                              <span className="flex items-center gap-2 text-muted-foreground">
+                                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: colorFor(child.name) }} />
+                                {child.name}
+                              </span>
+                              <span className="font-medium">{formatMoney(categoryTotals[child.name], baseCurrency)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {[category, ...children.map(child => child.name)].flatMap(name => budgetsByCategory[name] || []).map(budget => {
+                        const spent = getPeriodSpend(allSpending, budget.category, budget.period as BudgetPeriod, belongsTo);
+                        const status = getBudgetStatus(spent, budget.amount);
+                        const periodLabel = BUDGET_PERIODS.find(p => p.value === budget.period)?.label ?? budget.period;
+                        return (
+                          <div key={budget.id} className="mt-3">
+                            <div className="flex justify-between text-xs">
+                              <span className="text-muted-foreground">
+                                {budget.category === category ? periodLabel : `${budget.category} · ${periodLabel.toLowerCase()}`} budget
+                              </span>
+                              <span className={cn(
+                                'font-medium',
+                                status === 'warning' && 'text-warning',
+                                status === 'over' && 'text-destructive'
+                              )}>
+                                {formatMoney(spent, baseCurrency)} / {formatMoney(budget.amount, baseCurrency)}
+                              </span>
+                            </div>
+                            <div className="mt-1 bg-muted rounded-full h-2">
+                              <div
+                                className={cn(
+                                  'h-2 rounded-full transition-all duration-500',
+                                  status === 'ok' && 'bg-success',
+                                  status === 'warning' && 'bg-warning',
+                                  status === 'over' && 'bg-destructive'
+                                )}
+                                style={{ width: `${Math.min((spent / budget.amount) * 100, 100)}%` }}
+                              />
+                            </div>
+                          </div>
+                        );
+                      })}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </CardContent>
           </Card>
         )}
       </div>
+
+      <AnomalyConfirmDialog
+        anomalies={pendingSave?.anomalies ?? []}
+        onConfirm={handleConfirmSave}
+        onCancel={() => setPendingSave(null)}
+      />
     </div>
   );
 };
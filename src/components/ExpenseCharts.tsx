@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import {
   PieChart,
   Pie,
@@ -13,37 +14,48 @@ import {
   LineChart,
   Line,
   Area,
-  AreaChart
+  AreaChart,
+  ComposedChart,
+  TooltipProps
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { PieChart as PieChartIcon, BarChart3, TrendingUp, Calendar } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { PieChart as PieChartIcon, BarChart3, TrendingUp, Calendar, ChevronRight, ArrowRightLeft } from 'lucide-react';
+import { getMonthlyCashFlow } from '@/lib/cashflow';
+import { formatMoney } from '@/lib/currency';
+import { MonthForecast, remainingMonthDays } from '@/lib/forecast';
 
+// Individual expenses or per-day sums; only amounts, categories and dates are charted
 interface Expense {
-  id: string;
   amount: number;
   category: string;
-  description: string;
   date: string;
 }
 
 interface ExpenseChartsProps {
   expenses: Expense[];
+  // Income entries, only used by the cash-flow chart
+  income: Expense[];
+  // Currency every amount in `expenses` has already been converted into
+  currency: string;
+  // Description of the date range the entries were filtered to
+  rangeLabel: string;
+  // Stored color of a category, so it matches badges and breakdown cards
+  colorFor: (category: string) => string;
+  // Category names from the top level down, used to drill into sub-categories
+  pathOf: (category: string) => string[];
+  // Off when the charts are captured as images, which would catch them
+  // halfway through animating
+  animate?: boolean;
+  // Month-end projection of the current month, drawn as dashed series;
+  // only given while the charts show all spending
+  forecast?: MonthForecast;
 }
 
-const CHART_COLORS = [
-  'hsl(214, 84%, 56%)',   // Primary blue
-  'hsl(142, 76%, 36%)',   // Success green
-  'hsl(38, 92%, 50%)',    // Warning orange
-  'hsl(0, 84%, 60%)',     // Destructive red
-  'hsl(262, 83%, 58%)',   // Purple
-  'hsl(173, 58%, 39%)',   // Teal
-  'hsl(43, 74%, 49%)',    // Yellow
-  'hsl(211, 82%, 68%)',   // Light blue
-  'hsl(333, 71%, 51%)',   // Pink
-  'hsl(25, 95%, 53%)'     // Orange
-];
+const ExpenseCharts = ({ expenses, income, currency, rangeLabel, colorFor, pathOf, animate = true, forecast }: ExpenseChartsProps) => {
+  // Categories drilled into on the pie chart, top level first
+  const [drillPath, setDrillPath] = useState<string[]>([]);
 
-const ExpenseCharts = ({ expenses }: ExpenseChartsProps) => {
   // Prepare data for pie chart (category distribution)
   const categoryData = expenses.reduce((acc, expense) => {
     const existing = acc.find(item => item.category === expense.category);
@@ -64,6 +76,36 @@ const ExpenseCharts = ({ expenses }: ExpenseChartsProps) => {
     item.percentage = totalAmount > 0 ? (item.amount / totalAmount) * 100 : 0;
   });
 
+  // Prepare data for the drill-down pie: top-level categories, or the direct
+  // sub-categories of the category drilled into. Expenses filed on that
+  // category itself keep its name as their slice.
+  const drillLevel = drillPath.length;
+  const drillParent = drillPath[drillLevel - 1];
+  const pieData = expenses.reduce((acc, expense) => {
+    const path = pathOf(expense.category);
+    if (drillParent && path[drillLevel - 1] !== drillParent) return acc;
+
+    const category = path[drillLevel] ?? drillParent;
+    const hasChildren = category !== drillParent && path.length > drillLevel + 1;
+    const existing = acc.find(item => item.category === category);
+    if (existing) {
+      existing.amount += expense.amount;
+      existing.hasChildren = existing.hasChildren || hasChildren;
+    } else {
+      acc.push({ category, amount: expense.amount, percentage: 0, hasChildren });
+    }
+    return acc;
+  }, [] as { category: string; amount: number; percentage: number; hasChildren: boolean }[]);
+
+  const pieTotal = pieData.reduce((sum, item) => sum + item.amount, 0);
+  pieData.forEach(item => {
+    item.percentage = pieTotal > 0 ? (item.amount / pieTotal) * 100 : 0;
+  });
+
+  const drillInto = (slice: { category: string; hasChildren: boolean }) => {
+    if (slice.hasChildren) setDrillPath(prev => [...prev, slice.category]);
+  };
+
   // Prepare data for monthly trend chart
   const monthlyData = expenses.reduce((acc, expense) => {
     const date = new Date(expense.date);
@@ -83,19 +125,26 @@ const ExpenseCharts = ({ expenses }: ExpenseChartsProps) => {
       });
     }
     return acc;
-  }, [] as { monthKey: string; month: string; amount: number; count: number }[]);
+  }, [] as { monthKey: string; month: string; amount: number; count: number; projected?: number }[]);
 
   // Sort by month
   monthlyData.sort((a, b) => a.monthKey.localeCompare(b.monthKey));
 
-  // Prepare data for daily expenses (last 30 days)
+  // The current month's bar is topped up by what the forecast expects for
+  // the rest of the month
+  const currentMonth = forecast && monthlyData.find(item => item.monthKey === forecast.monthKey);
+  if (forecast && currentMonth) {
+    currentMonth.projected = Math.max(forecast.projected - forecast.spent, 0);
+  }
+
+  // Prepare data for the cash-flow chart (monthly income vs expense vs net)
+  const cashFlowData = getMonthlyCashFlow([
+    ...expenses.map(expense => ({ ...expense, type: 'expense' })),
+    ...income.map(entry => ({ ...entry, type: 'income' }))
+  ]);
+
+  // Prepare data for daily expenses over the selected range
   const dailyData = expenses
-    .filter(expense => {
-      const expenseDate = new Date(expense.date);
-      const thirtyDaysAgo = new Date();
-      thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-      return expenseDate >= thirtyDaysAgo;
-    })
     .reduce((acc, expense) => {
       const dateKey = expense.date;
       const existing = acc.find(item => item.date === dateKey);
@@ -109,19 +158,35 @@ const ExpenseCharts = ({ expenses }: ExpenseChartsProps) => {
         });
       }
       return acc;
-    }, [] as { date: string; amount: number; displayDate: string }[]);
+    }, [] as { date: string; amount?: number; displayDate: string; projected?: number }[]);
 
   // Sort by date
   dailyData.sort((a, b) => a.date.localeCompare(b.date));
 
+  // Once the daily chart reaches into the current month, it runs on to the
+  // month's end at the projected daily rate, starting from the latest day
+  const lastDay = dailyData[dailyData.length - 1];
+  if (forecast && lastDay?.date.startsWith(forecast.monthKey)) {
+    lastDay.projected = lastDay.amount;
+    remainingMonthDays(forecast)
+      .filter(date => date > lastDay.date)
+      .forEach(date => dailyData.push({
+        date,
+        displayDate: new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+        projected: forecast.dailyRate
+      }));
+  }
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
         <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
           <p className="text-sm font-medium">{label}</p>
-          <p className="text-sm text-primary">
-            Amount: ₹{payload[0].value.toFixed(2)}
-          </p>
+          {payload.filter(item => item.value !== undefined).map(item => (
+            <p key={item.dataKey} className={item.dataKey === 'projected' ? 'text-sm text-muted-foreground' : 'text-sm text-primary'}>
+              {item.name}: {formatMoney(item.value, currency)}
+            </p>
+          ))}
         </div>
       );
     }
@@ -134,15 +199,33 @@ const ExpenseCharts = ({ expenses }: ExpenseChartsProps) => {
       return (
         <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
           <p className="text-sm font-medium">{data.category}</p>
-          <p className="text-sm text-primary">₹{data.amount.toFixed(2)}</p>
+          <p className="text-sm text-primary">{formatMoney(data.amount, currency)}</p>
           <p className="text-xs text-muted-foreground">{data.percentage.toFixed(1)}%</p>
+          {data.hasChildren && (
+            <p className="text-xs text-muted-foreground">Click to see sub-categories</p>
+          )}
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const CashFlowTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+      return (
+        <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+          <p className="text-sm font-medium">{label}</p>
+          <p className="text-sm text-success">Income: {formatMoney(data.income, currency)}</p>
+          <p className="text-sm text-destructive">Expenses: {formatMoney(data.expense, currency)}</p>
+          <p className="text-sm text-primary">Net: {formatMoney(data.net, currency)}</p>
         </div>
       );
     }
     return null;
   };
 
-  if (expenses.length === 0) {
+  if (expenses.length === 0 && income.length === 0) {
     return null;
   }
 
@@ -157,13 +240,34 @@ const ExpenseCharts = ({ expenses }: ExpenseChartsProps) => {
               <PieChartIcon className="h-5 w-5 text-primary" />
               Category Distribution
             </CardTitle>
+            {drillLevel > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-sm">
+                <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setDrillPath([])}>
+                  All
+                </Button>
+                {drillPath.map((category, index) => (
+                  <span key={category} className="flex items-center gap-1">
+                    <ChevronRight className="h-3 w-3 text-muted-foreground" />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2"
+                      disabled={index === drillLevel - 1}
+                      onClick={() => setDrillPath(drillPath.slice(0, index + 1))}
+                    >
+                      {category}
+                    </Button>
+                  </span>
+                ))}
+              </div>
+            )}
           </CardHeader>
           <CardContent>
             <div className="h-80">
               <ResponsiveContainer width="100%" height="100%">
                 <PieChart>
                   <Pie
-                    data={categoryData}
+                    data={pieData}
                     dataKey="amount"
                     nameKey="category"
                     cx="50%"
@@ -171,11 +275,14 @@ const ExpenseCharts = ({ expenses }: ExpenseChartsProps) => {
                     outerRadius={100}
                     innerRadius={40}
                     paddingAngle={2}
+                    isAnimationActive={animate}
                   >
-                    {categoryData.map((entry, index) => (
+                    {pieData.map((entry) => (
                       <Cell 
-                        key={`cell-${index}`} 
-                        fill={CHART_COLORS[index % CHART_COLORS.length]}
+                        key={`cell-${entry.category}`} 
+                        fill={colorFor(entry.category)}
+                        cursor={entry.hasChildren ? 'pointer' : 'default'}
+                        onClick={() => drillInto(entry)}
                       />
                     ))}
                   </Pie>
@@ -215,9 +322,25 @@ const ExpenseCharts = ({ expenses }: ExpenseChartsProps) => {
                   <Tooltip content={<CustomTooltip />} />
                   <Bar 
                     dataKey="amount" 
+                    name="Amount"
+                    stackId="month"
                     fill="hsl(214, 84%, 56%)"
                     radius={[4, 4, 0, 0]}
+                    isAnimationActive={animate}
                   />
+                  {forecast && (
+                    <Bar
+                      dataKey="projected"
+                      name="Projected rest of month"
+                      stackId="month"
+                      fill="hsl(214, 84%, 56%)"
+                      fillOpacity={0.1}
+                      stroke="hsl(214, 84%, 56%)"
+                      strokeDasharray="4 4"
+                      radius={[4, 4, 0, 0]}
+                      isAnimationActive={animate}
+                    />
+                  )}
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -225,12 +348,54 @@ const ExpenseCharts = ({ expenses }: ExpenseChartsProps) => {
         </Card>
       </div>
 
+      {/* Monthly Cash Flow */}
+      {income.length > 0 && (
+        <Card className="bg-gradient-card shadow-card border-0 animate-fade-in">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowRightLeft className="h-5 w-5 text-primary" />
+              Cash Flow
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={cashFlowData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis 
+                    dataKey="month" 
+                    tick={{ fontSize: 12 }}
+                    stroke="hsl(var(--muted-foreground))"
+                  />
+                  <YAxis 
+                    tick={{ fontSize: 12 }}
+                    stroke="hsl(var(--muted-foreground))"
+                  />
+                  <Tooltip content={<CashFlowTooltip />} />
+                  <Legend wrapperStyle={{ fontSize: '12px' }} />
+                  <Bar dataKey="income" name="Income" fill="hsl(var(--success))" radius={[4, 4, 0, 0]} isAnimationActive={animate} />
+                  <Bar dataKey="expense" name="Expenses" fill="hsl(var(--destructive))" radius={[4, 4, 0, 0]} isAnimationActive={animate} />
+                  <Line
+                    type="monotone"
+                    dataKey="net"
+                    name="Net"
+                    stroke="hsl(214, 84%, 56%)"
+                    strokeWidth={2}
+                    isAnimationActive={animate}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Daily Trend Area Chart */}
       <Card className="bg-gradient-card shadow-card border-0 animate-fade-in">
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <TrendingUp className="h-5 w-5 text-primary" />
-            Daily Expense Trend (Last 30 Days)
+            Daily Expense Trend ({rangeLabel})
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -257,11 +422,25 @@ const ExpenseCharts = ({ expenses }: ExpenseChartsProps) => {
                 <Area
                   type="monotone"
                   dataKey="amount"
+                  name="Amount"
                   stroke="hsl(214, 84%, 56%)"
                   fillOpacity={1}
                   fill="url(#colorAmount)"
                   strokeWidth={2}
+                  isAnimationActive={animate}
                 />
+                {forecast && (
+                  <Area
+                    type="monotone"
+                    dataKey="projected"
+                    name="Projected"
+                    stroke="hsl(214, 84%, 56%)"
+                    strokeDasharray="5 5"
+                    fill="none"
+                    strokeWidth={2}
+                    isAnimationActive={animate}
+                  />
+                )}
               </AreaChart>
             </ResponsiveContainer>
           </div>
@@ -290,12 +469,12 @@ const ExpenseCharts = ({ expenses }: ExpenseChartsProps) => {
                   <div className="flex items-center gap-3">
                     <div 
                       className="w-4 h-4 rounded-full"
-                      style={{ backgroundColor: CHART_COLORS[index % CHART_COLORS.length] }}
+                      style={{ backgroundColor: colorFor(category.category) }}
                     />
                     <span className="font-medium">{category.category}</span>
                   </div>
                   <div className="text-right">
-                    <div className="font-semibold text-lg">₹{category.amount.toFixed(2)}</div>
+                    <div className="font-semibold text-lg">{formatMoney(category.amount, currency)}</div>
                     <div className="text-xs text-muted-foreground">
                       {category.percentage.toFixed(1)}% of total
                     </div>
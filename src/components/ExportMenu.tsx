@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { toDateKey } from '@/lib/dates';
+import { EXPORT_FORMATS, ExportFormat, ExportableExpense, exportExpenses } from '@/lib/export';
+
+interface ExportMenuProps {
+  // Only the visible page of the history is loaded, so exports fetch their
+  // rows on demand
+  filteredCount: number;
+  loadFilteredExpenses: () => Promise<ExportableExpense[]>;
+  loadAllExpenses: () => Promise<ExportableExpense[]>;
+  baseCurrency: string;
+}
+
+const ExportMenu = ({ filteredCount, loadFilteredExpenses, loadAllExpenses, baseCurrency }: ExportMenuProps) => {
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const handleExport = async (
+    getExpenses: () => Promise<ExportableExpense[]>,
+    format: ExportFormat,
+    scope: 'filtered' | 'all'
+  ) => {
+    setExporting(true);
+    try {
+      const expenses = await getExpenses();
+      if (expenses.length === 0) {
+        toast({
+          title: "Nothing to export",
+          description: "There are no expenses in this selection.",
+        });
+        return;
+      }
+
+      await exportExpenses(expenses, format, baseCurrency, `expenses-${scope}-${toDateKey(new Date())}`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export Failed",
+        description: "An unexpected error occurred while generating the export",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="bg-background/50" disabled={exporting}>
+          <Download className="h-4 w-4" />
+          <span className="sr-only">Export</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Current view ({filteredCount})</DropdownMenuLabel>
+        {EXPORT_FORMATS.map(format => (
+          <DropdownMenuItem key={`filtered-${format.value}`} onSelect={() => handleExport(loadFilteredExpenses, format.value, 'filtered')}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>All expenses</DropdownMenuLabel>
+        {EXPORT_FORMATS.map(format => (
+          <DropdownMenuItem key={`all-${format.value}`} onSelect={() => handleExport(loadAllExpenses, format.value, 'all')}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,33 @@
+interface HighlightedTextProps {
+  text: string;
+  terms: string[];
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Render `text` with every case-insensitive occurrence of `terms` marked
+const HighlightedText = ({ text, terms }: HighlightedTextProps) => {
+  if (terms.length === 0) return <>{text}</>;
+
+  // Longer terms first so a phrase wins over a word it contains
+  const pattern = new RegExp(
+    `(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`,
+    'gi'
+  );
+
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-warning/30 text-foreground rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,49 @@
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { BookOpen, Check, ChevronDown, Users } from 'lucide-react';
+import { useLedgers } from '@/hooks/use-ledgers';
+import { roleLabel } from '@/lib/ledgers';
+import { cn } from '@/lib/utils';
+
+// Picks the ledger every page shows, with a way to the ledger settings
+const LedgerSwitcher = () => {
+  const { ledgers, current, switchLedger } = useLedgers();
+  const navigate = useNavigate();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2" disabled={!current}>
+          <BookOpen className="h-4 w-4" />
+          <span className="max-w-[10rem] truncate">{current?.name ?? 'Ledger'}</span>
+          <ChevronDown className="h-3 w-3 opacity-50" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Ledgers</DropdownMenuLabel>
+        {ledgers.map(ledger => (
+          <DropdownMenuItem key={ledger.id} onSelect={() => switchLedger(ledger.id)} className="flex items-center gap-2">
+            <Check className={cn('h-4 w-4', ledger.id !== current?.id && 'invisible')} />
+            <span className="flex-1 truncate">{ledger.name}</span>
+            <span className="text-xs text-muted-foreground">{roleLabel(ledger.role)}</span>
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => navigate('/ledgers')} className="flex items-center gap-2">
+          <Users className="h-4 w-4" />
+          Manage ledgers
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default LedgerSwitcher;
@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, TooltipProps, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import DateRangePicker from './DateRangePicker';
+import { GitCompare } from 'lucide-react';
+import { useCurrencySettings } from '@/hooks/use-currency-settings';
+import { useExpenseTotals } from '@/hooks/use-expenses';
+import {
+  COMPARISON_MODES,
+  ComparisonMode,
+  ComparisonPeriod,
+  biggestMovers,
+  compareCategories,
+  formatChange,
+  getComparisonPeriods
+} from '@/lib/comparison';
+import { convertToBase, formatMoney } from '@/lib/currency';
+import { DateRangePreset, describeDateRange, getPresetRange } from '@/lib/dateRange';
+import { NO_EXPENSE_FILTERS } from '@/lib/expenseHistory';
+import { cn } from '@/lib/utils';
+
+interface PeriodComparisonProps {
+  ledgerId: string;
+  colorFor: (category: string) => string;
+  // Category names from the top level down; categories are compared at the top level
+  pathOf: (category: string) => string[];
+}
+
+// A period picked for a custom comparison
+interface PeriodChoice {
+  preset: DateRangePreset;
+  range: ComparisonPeriod['range'];
+}
+
+const MAX_MOVERS = 5;
+
+const PERIOD_A_COLOR = 'hsl(214, 84%, 56%)';
+const PERIOD_B_COLOR = 'hsl(var(--muted-foreground))';
+
+const choose = (preset: DateRangePreset): PeriodChoice => ({ preset, range: getPresetRange(preset) });
+
+// Spending of two periods side by side per category, with what changed most.
+// Unlike the charts above it ignores the date range and search.
+const PeriodComparison = ({ ledgerId, colorFor, pathOf }: PeriodComparisonProps) => {
+  const { baseCurrency, convert } = useCurrencySettings();
+  const [mode, setMode] = useState<ComparisonMode>('month');
+  const [customA, setCustomA] = useState<PeriodChoice>(() => choose('this-month'));
+  const [customB, setCustomB] = useState<PeriodChoice>(() => choose('last-month'));
+
+  const [periodA, periodB]: ComparisonPeriod[] = mode === 'custom'
+    ? [customA, customB].map(({ preset, range }) => ({ range, label: describeDateRange(preset, range) }))
+    : getComparisonPeriods(mode);
+
+  const filtersFor = ({ range }: ComparisonPeriod) => ({
+    ...NO_EXPENSE_FILTERS,
+    ledger: ledgerId,
+    from: range.from,
+    to: range.to,
+    type: 'expense'
+  });
+  const totalsA = useExpenseTotals(filtersFor(periodA), { enabled: !!ledgerId });
+  const totalsB = useExpenseTotals(filtersFor(periodB), { enabled: !!ledgerId });
+
+  const rows = compareCategories(
+    convertToBase(totalsA.data ?? [], convert),
+    convertToBase(totalsB.data ?? [], convert),
+    pathOf
+  );
+  const movers = biggestMovers(rows, MAX_MOVERS);
+  const totalA = rows.reduce((sum, row) => sum + row.a, 0);
+  const totalB = rows.reduce((sum, row) => sum + row.b, 0);
+  const totalChange = totalB > 0 ? (totalA - totalB) / totalB : null;
+  const loading = totalsA.isPending || totalsB.isPending;
+
+  const changeClass = (delta: number) =>
+    delta > 0 ? 'text-destructive' : delta < 0 ? 'text-success' : 'text-muted-foreground';
+
+  const ComparisonTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+    if (!active || !payload || payload.length === 0) return null;
+    const row = payload[0].payload;
+    return (
+      <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+        <p className="text-sm font-medium">{label}</p>
+        <p className="text-sm text-primary">A: {formatMoney(row.a, baseCurrency)}</p>
+        <p className="text-sm text-muted-foreground">B: {formatMoney(row.b, baseCurrency)}</p>
+        <p className={cn('text-xs', changeClass(row.delta))}>{formatChange(row.change)}</p>
+      </div>
+    );
+  };
+
+  const renderCustomPicker = (choice: PeriodChoice, setChoice: (choice: PeriodChoice) => void, name: string) => (
+    <div className="flex items-center gap-2">
+      <span className="text-sm font-medium text-muted-foreground w-4">{name}</span>
+      <DateRangePicker
+        preset={choice.preset}
+        range={choice.range}
+        label={describeDateRange(choice.preset, choice.range)}
+        onPresetChange={(preset) => setChoice(preset === 'custom' ? { ...choice, preset } : choose(preset))}
+        onCustomRangeChange={(range) => setChoice({ preset: 'custom', range })}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="bg-gradient-card shadow-card border-0 animate-fade-in">
+      <CardHeader className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-primary" />
+            Period Comparison
+          </CardTitle>
+          <Select value={mode} onValueChange={(value) => setMode(value as ComparisonMode)}>
+            <SelectTrigger className="w-56 bg-background/50" aria-label="Comparison">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COMPARISON_MODES.map(item => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {mode === 'custom' && (
+          <div className="flex flex-wrap gap-4">
+            {renderCustomPicker(customA, setCustomA, 'A')}
+            {renderCustomPicker(customB, setCustomB, 'B')}
+          </div>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">A · {periodA.label}</p>
+            <p className="text-2xl font-bold">{formatMoney(totalA, baseCurrency)}</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">B · {periodB.label}</p>
+            <p className="text-2xl font-bold">{formatMoney(totalB, baseCurrency)}</p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Change</p>
+            <p className={cn('text-2xl font-bold', changeClass(totalA - totalB))}>{formatChange(totalChange)}</p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No spending in either period</div>
+        ) : (
+          <>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={rows}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="category" tick={{ fontSize: 12 }} stroke="hsl(var(--muted-foreground))" />
+                  <YAxis tick={{ fontSize: 12 }} stroke="hsl(var(--muted-foreground))" />
+                  <Tooltip content={<ComparisonTooltip />} />
+                  <Legend wrapperStyle={{ fontSize: '12px' }} />
+                  <Bar dataKey="a" name={`A · ${periodA.label}`} fill={PERIOD_A_COLOR} radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="b" name={`B · ${periodB.label}`} fill={PERIOD_B_COLOR} fillOpacity={0.5} radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            {movers.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Biggest movers</h3>
+                <div className="space-y-2">
+                  {movers.map(row => (
+                    <div
+                      key={row.category}
+                      className="grid grid-cols-[1fr_auto_auto_auto] items-center gap-4 p-3 bg-background/50 rounded-lg border border-border/50 text-sm"
+                    >
+                      <span className="flex items-center gap-2 font-medium">
+                        <span className="h-3 w-3 rounded-full" style={{ backgroundColor: colorFor(row.category) }} />
+                        {row.category}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {formatMoney(row.b, baseCurrency)} → {formatMoney(row.a, baseCurrency)}
+                      </span>
+                      <span className={cn('font-semibold', changeClass(row.delta))}>
+                        {row.delta > 0 ? '+' : '-'}{formatMoney(Math.abs(row.delta), baseCurrency)}
+                      </span>
+                      <span className={cn('w-16 text-right', changeClass(row.delta))}>{formatChange(row.change)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PeriodComparison;
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChevronLeft, ChevronRight, Download } from 'lucide-react';
+import { ExpenseAttachment, isImageAttachment } from '@/lib/attachments';
+
+interface ReceiptLightboxProps {
+  attachments: ExpenseAttachment[];
+  urls: Record<string, string>;
+  // Index of the receipt to show, or null when the lightbox is closed
+  openIndex: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ReceiptLightbox = ({ attachments, urls, openIndex, onOpenChange }: ReceiptLightboxProps) => {
+  const [index, setIndex] = useState(openIndex ?? 0);
+
+  useEffect(() => {
+    if (openIndex !== null) setIndex(openIndex);
+  }, [openIndex]);
+
+  const attachment = attachments[index];
+  const url = attachment ? urls[attachment.storage_path] : undefined;
+  const hasMany = attachments.length > 1;
+
+  const step = (delta: number) =>
+    setIndex(prev => (prev + delta + attachments.length) % attachments.length);
+
+  return (
+    <Dialog open={openIndex !== null} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-4xl"
+        onKeyDown={(e) => {
+          if (!hasMany) return;
+          if (e.key === 'ArrowLeft') step(-1);
+          if (e.key === 'ArrowRight') step(1);
+        }}
+      >
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{attachment?.file_name}</DialogTitle>
+          <DialogDescription>
+            {hasMany ? `Receipt ${index + 1} of ${attachments.length}` : 'Receipt'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-center bg-muted/50 rounded-lg min-h-[50vh]">
+          {!attachment || !url ? (
+            <p className="text-muted-foreground">Loading...</p>
+          ) : isImageAttachment(attachment) ? (
+            <img
+              src={url}
+              alt={attachment.file_name}
+              className="max-h-[70vh] max-w-full object-contain rounded-lg"
+            />
+          ) : (
+            <iframe
+              src={url}
+              title={attachment.file_name}
+              className="w-full h-[70vh] rounded-lg bg-background"
+            />
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex gap-2">
+            {hasMany && (
+              <>
+                <Button variant="outline" size="sm" onClick={() => step(-1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => step(1)}>
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+          {url && (
+            <Button variant="outline" size="sm" asChild>
+              <a href={url} target="_blank" rel="noreferrer" download={attachment.file_name}>
+                <Download className="h-4 w-4" />
+                Download
+              </a>
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiptLightbox;
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import ReceiptLightbox from './ReceiptLightbox';
+import { ExpenseAttachment, createReceiptUrls, isImageAttachment } from '@/lib/attachments';
+
+interface ReceiptThumbnailsProps {
+  attachments: ExpenseAttachment[];
+  // When set, each thumbnail gets a remove button (used by the edit form)
+  onRemove?: (attachment: ExpenseAttachment) => void;
+}
+
+const ReceiptThumbnails = ({ attachments, onRemove }: ReceiptThumbnailsProps) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const pathsKey = attachments.map(attachment => attachment.storage_path).join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+    const paths = pathsKey ? pathsKey.split('|') : [];
+    createReceiptUrls(paths)
+      .then(result => {
+        if (!cancelled) setUrls(result);
+      })
+      .catch(() => {
+        // Thumbnails fall back to file icons when URLs cannot be signed
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pathsKey]);
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2">
+        {attachments.map((attachment, index) => {
+          const url = urls[attachment.storage_path];
+          return (
+            <div key={attachment.id} className="relative">
+              <button
+                type="button"
+                onClick={() => setOpenIndex(index)}
+                title={attachment.file_name}
+                className="h-12 w-12 rounded-md border border-border/50 bg-muted overflow-hidden flex items-center justify-center hover:ring-2 hover:ring-primary/50 transition-all"
+              >
+                {isImageAttachment(attachment) && url ? (
+                  <img src={url} alt={attachment.file_name} className="h-full w-full object-cover" />
+                ) : (
+                  <FileText className="h-5 w-5 text-muted-foreground" />
+                )}
+              </button>
+              {onRemove && (
+                <button
+                  type="button"
+                  onClick={() => onRemove(attachment)}
+                  title="Remove receipt"
+                  className="absolute -top-1.5 -right-1.5 h-5 w-5 rounded-full bg-destructive text-destructive-foreground flex items-center justify-center"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <ReceiptLightbox
+        attachments={attachments}
+        urls={urls}
+        openIndex={openIndex}
+        onOpenChange={(open) => !open && setOpenIndex(null)}
+      />
+    </>
+  );
+};
+
+export default ReceiptThumbnails;
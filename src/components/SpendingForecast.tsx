@@ -0,0 +1,94 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertTriangle, TrendingUp } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
+import { ForecastWarning, MonthForecast } from '@/lib/forecast';
+import { cn } from '@/lib/utils';
+
+interface SpendingForecastProps {
+  forecast: MonthForecast;
+  warnings: ForecastWarning[];
+  // Currency the forecast was computed in
+  currency: string;
+}
+
+// Categories listed under the totals, largest projection first
+const MAX_CATEGORIES = 5;
+
+const describeWarning = (warning: ForecastWarning, currency: string) => {
+  switch (warning.kind) {
+    case 'lastMonth':
+      return `On pace for ${formatMoney(warning.projected, currency)}, ${formatMoney(warning.projected - warning.lastMonth, currency)} more than last month.`;
+    case 'budget':
+      return `${warning.budget.category} is on pace for ${formatMoney(warning.projected, currency)}, over its monthly budget of ${formatMoney(warning.budget.amount, currency)}.`;
+  }
+};
+
+// Where this month's spending is heading, and what it is on pace to break
+const SpendingForecast = ({ forecast, warnings, currency }: SpendingForecastProps) => {
+  const month = new Date(`${forecast.monthKey}-01T00:00`).toLocaleDateString('en-US', { month: 'long' });
+  const progress = forecast.projected > 0 ? (forecast.spent / forecast.projected) * 100 : 0;
+
+  return (
+    <Card className="bg-gradient-card shadow-card border-0 animate-fade-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-primary" />
+          {month} Forecast
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Spent so far</p>
+            <p className="text-2xl font-bold">{formatMoney(forecast.spent, currency)}</p>
+            <p className="text-xs text-muted-foreground">
+              Day {forecast.daysElapsed} of {forecast.daysInMonth}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Projected month-end</p>
+            <p className={cn('text-2xl font-bold', warnings.length > 0 && 'text-warning')}>
+              {formatMoney(forecast.projected, currency)}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {formatMoney(forecast.dailyRate, currency)} a day from here
+            </p>
+          </div>
+          <div>
+            <p className="text-sm font-medium text-muted-foreground">Last month</p>
+            <p className="text-2xl font-bold">{formatMoney(forecast.lastMonth, currency)}</p>
+          </div>
+        </div>
+
+        <div className="h-2 bg-muted rounded-full overflow-hidden">
+          <div className="h-full bg-primary transition-all" style={{ width: `${Math.min(progress, 100)}%` }} />
+        </div>
+
+        {warnings.map(warning => (
+          <div
+            key={warning.kind === 'budget' ? warning.budget.id : warning.kind}
+            className="flex items-start gap-2 rounded-md bg-warning/10 p-2 text-sm text-warning"
+          >
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span>{describeWarning(warning, currency)}</span>
+          </div>
+        ))}
+
+        {forecast.categories.length > 0 && (
+          <div className="divide-y divide-border/50 text-sm">
+            {forecast.categories.slice(0, MAX_CATEGORIES).map(item => (
+              <div key={item.category} className="flex items-center justify-between py-1.5">
+                <span>{item.category}</span>
+                <span className="text-muted-foreground">
+                  {formatMoney(item.spent, currency)} → <span className="font-medium text-foreground">{formatMoney(item.projected, currency)}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SpendingForecast;
@@ -0,0 +1,113 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatMoney } from '@/lib/currency';
+import { LedgerMember } from '@/lib/ledgers';
+import { computeFormSplit, SPLIT_METHODS, SplitForm, SplitMethod } from '@/lib/splits';
+
+interface SplitEditorProps {
+  members: LedgerMember[];
+  // Amount and currency of the expense being split
+  amount: number;
+  currency: string;
+  value: SplitForm;
+  onChange: (value: SplitForm) => void;
+}
+
+const SHARE_SUFFIX: Record<SplitMethod, string> = {
+  equal: '',
+  exact: '',
+  percent: '%',
+  shares: 'shares'
+};
+
+// Who paid and how the expense is shared among the ledger members, with
+// each member's resulting part previewed as it is typed
+const SplitEditor = ({ members, amount, currency, value, onChange }: SplitEditorProps) => {
+  const result = amount > 0 ? computeFormSplit(value, amount) : null;
+  const parts = result && 'splits' in result
+    ? Object.fromEntries(result.splits.map(split => [split.user_id, split.amount]))
+    : {};
+
+  const toggle = (userId: string, included: boolean) => {
+    const shares = { ...value.shares };
+    if (included) shares[userId] = '';
+    else delete shares[userId];
+    onChange({ ...value, shares });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 bg-background/50 p-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="split-paid-by" className="text-xs">Paid by</Label>
+          <Select value={value.paidBy} onValueChange={paidBy => onChange({ ...value, paidBy })}>
+            <SelectTrigger id="split-paid-by" className="bg-background/50">
+              <SelectValue placeholder="Member" />
+            </SelectTrigger>
+            <SelectContent>
+              {members.map(member => (
+                <SelectItem key={member.user_id} value={member.user_id}>{member.email}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="split-method" className="text-xs">Split</Label>
+          <Select value={value.method} onValueChange={method => onChange({ ...value, method: method as SplitMethod })}>
+            <SelectTrigger id="split-method" className="bg-background/50">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SPLIT_METHODS.map(method => (
+                <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {members.map(member => {
+          const included = member.user_id in value.shares;
+          return (
+            <div key={member.user_id} className="flex items-center gap-2">
+              <Checkbox
+                id={`split-${member.user_id}`}
+                checked={included}
+                onCheckedChange={checked => toggle(member.user_id, checked === true)}
+              />
+              <Label htmlFor={`split-${member.user_id}`} className="flex-1 truncate text-sm font-normal">
+                {member.email}
+              </Label>
+              {included && value.method !== 'equal' && (
+                <div className="flex items-center gap-1">
+                  <Input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={value.shares[member.user_id]}
+                    onChange={e => onChange({ ...value, shares: { ...value.shares, [member.user_id]: e.target.value } })}
+                    className="h-8 w-24 bg-background/50"
+                    aria-label={`Split value for ${member.email}`}
+                  />
+                  {SHARE_SUFFIX[value.method] && (
+                    <span className="text-xs text-muted-foreground">{SHARE_SUFFIX[value.method]}</span>
+                  )}
+                </div>
+              )}
+              <span className="w-24 text-right text-sm text-muted-foreground">
+                {included && member.user_id in parts ? formatMoney(parts[member.user_id], currency) : ''}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {result && 'error' in result && <p className="text-xs text-destructive">{result.error}</p>}
+    </div>
+  );
+};
+
+export default SplitEditor;
@@ -0,0 +1,92 @@
+import { KeyboardEvent, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { X } from 'lucide-react';
+import { formatTag, isValidTagName, normalizeTagName } from '@/lib/tags';
+
+interface TagInputProps {
+  id?: string;
+  // Tag names without the '#'
+  value: string[];
+  onChange: (value: string[]) => void;
+  // Existing tag names offered while typing
+  suggestions: string[];
+}
+
+// Suggestions shown below the input at most
+const MAX_SUGGESTIONS = 6;
+
+// Free-form tags as removable chips; Enter, comma or space adds the typed
+// tag and existing ones are suggested by prefix
+const TagInput = ({ id, value, onChange, suggestions }: TagInputProps) => {
+  const [text, setText] = useState('');
+
+  const typed = normalizeTagName(text);
+  const matches = typed
+    ? suggestions.filter(name => name.startsWith(typed) && !value.includes(name)).slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const add = (name: string) => {
+    if (isValidTagName(name) && !value.includes(name)) onChange([...value, name]);
+    setText('');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === ' ') {
+      // Keep Enter from submitting the form while a tag is being typed
+      if (typed || e.key !== 'Enter') e.preventDefault();
+      if (typed) add(typed);
+    } else if (e.key === 'Backspace' && !text && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex min-h-10 flex-wrap items-center gap-1 rounded-md border border-input bg-background/50 px-2 py-1">
+        {value.map(name => (
+          <Badge key={name} variant="secondary" className="gap-1 font-normal">
+            {formatTag(name)}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter(item => item !== name))}
+              className="rounded-full hover:text-destructive"
+              aria-label={`Remove ${formatTag(name)}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <Input
+          id={id}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => typed && add(typed)}
+          placeholder={value.length === 0 ? '#client-acme, #reimbursable' : ''}
+          className="h-8 min-w-[8rem] flex-1 border-0 bg-transparent px-1 shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matches.map(name => (
+            <button
+              key={name}
+              type="button"
+              // Fires before the input's blur, which would add the typed text
+              onMouseDown={(e) => {
+                e.preventDefault();
+                add(name);
+              }}
+              className="rounded-full border border-border px-2 py-0.5 text-xs text-muted-foreground hover:bg-primary/10 hover:text-foreground"
+            >
+              {formatTag(name)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,66 @@
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, TooltipProps, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Hash } from 'lucide-react';
+import { formatMoney } from '@/lib/currency';
+import { formatTag } from '@/lib/tags';
+
+interface TagSpendingChartProps {
+  // Spending per tag name, already in `currency`
+  totals: { tag: string; amount: number }[];
+  currency: string;
+  rangeLabel: string;
+}
+
+// Most tagged spending first; the rest is left off to keep bars readable
+const MAX_TAGS = 12;
+
+// Spending per tag. An expense with several tags counts towards each, so
+// the bars can add up to more than the total spending.
+const TagSpendingChart = ({ totals, currency, rangeLabel }: TagSpendingChartProps) => {
+  const data = [...totals]
+    .sort((a, b) => b.amount - a.amount)
+    .slice(0, MAX_TAGS)
+    .map(total => ({ ...total, label: formatTag(total.tag) }));
+
+  const TagTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+    if (!active || !payload || payload.length === 0) return null;
+    return (
+      <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+        <p className="text-sm font-medium">{label}</p>
+        <p className="text-sm text-primary">{formatMoney(payload[0].value ?? 0, currency)}</p>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="bg-gradient-card shadow-card border-0 animate-fade-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5 text-primary" />
+          Spending by Tag ({rangeLabel})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div style={{ height: Math.max(160, data.length * 40) }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+              <XAxis type="number" tick={{ fontSize: 12 }} stroke="hsl(var(--muted-foreground))" />
+              <YAxis
+                type="category"
+                dataKey="label"
+                width={120}
+                tick={{ fontSize: 12 }}
+                stroke="hsl(var(--muted-foreground))"
+              />
+              <Tooltip content={<TagTooltip />} />
+              <Bar dataKey="amount" fill="hsl(214, 84%, 56%)" radius={[0, 4, 4, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TagSpendingChart;
@@ -0,0 +1,72 @@
+import { ReactNode, useEffect, useRef } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { cn } from '@/lib/utils';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => ReactNode;
+  // Approximate row height in pixels; rows are measured once rendered
+  estimateSize: number;
+  // Whether more rows can be fetched when the end of the list is reached
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
+  className?: string;
+}
+
+// Rows from the end at which the next page is requested
+const LOAD_MORE_THRESHOLD = 5;
+
+// Scrollable list that only mounts the rows in view
+const VirtualList = <T,>({
+  items,
+  getKey,
+  renderItem,
+  estimateSize,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore,
+  className
+}: VirtualListProps<T>) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const virtualizer = useVirtualizer({
+    count: items.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => estimateSize,
+    getItemKey: index => getKey(items[index]),
+    overscan: 5
+  });
+
+  const virtualItems = virtualizer.getVirtualItems();
+  const lastVisibleIndex = virtualItems[virtualItems.length - 1]?.index ?? -1;
+
+  useEffect(() => {
+    if (hasMore && !loadingMore && lastVisibleIndex >= items.length - LOAD_MORE_THRESHOLD) {
+      onLoadMore?.();
+    }
+  }, [hasMore, loadingMore, lastVisibleIndex, items.length, onLoadMore]);
+
+  return (
+    <div ref={scrollRef} className={cn('overflow-y-auto', className)}>
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualItems.map(virtualItem => (
+          <div
+            key={virtualItem.key}
+            data-index={virtualItem.index}
+            ref={virtualizer.measureElement}
+            className="absolute left-0 top-0 w-full pb-3"
+            style={{ transform: `translateY(${virtualItem.start}px)` }}
+          >
+            {renderItem(items[virtualItem.index])}
+          </div>
+        ))}
+      </div>
+      {loadingMore && (
+        <p className="py-2 text-center text-xs text-muted-foreground">Loading more…</p>
+      )}
+    </div>
+  );
+};
+
+export default VirtualList;
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Category,
+  CategoryMatcher,
+  buildCategoryTree,
+  categoryIcon,
+  createCategoryPathLookup,
+  fallbackCategoryColor,
+  sortCategories
+} from '@/lib/categories';
+
+// Categories of a ledger in display order, with lookups that resolve a
+// category name (as stored on expenses) to its color, icon and position in
+// the category tree. Nothing is loaded while `ledgerId` is empty.
+export function useCategories(ledgerId: string) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    if (!ledgerId) return;
+    const { data, error } = await supabase.from('categories').select('*').eq('ledger_id', ledgerId);
+
+    setError(error ? error.message : null);
+    setCategories(sortCategories(data || []));
+    setLoading(false);
+  }, [ledgerId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const activeCategories = useMemo(
+    () => categories.filter(category => !category.archived),
+    [categories]
+  );
+
+  const byName = useMemo(
+    () => new Map(categories.map(category => [category.name, category])),
+    [categories]
+  );
+
+  const colorFor = useCallback(
+    (name: string) => byName.get(name)?.color ?? fallbackCategoryColor(name),
+    [byName]
+  );
+
+  const iconFor = useCallback(
+    (name: string) => categoryIcon(byName.get(name)?.icon),
+    [byName]
+  );
+
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+
+  const pathOf = useMemo(() => createCategoryPathLookup(categories), [categories]);
+
+  const belongsTo = useCallback<CategoryMatcher>(
+    (name, ancestor) => pathOf(name).includes(ancestor),
+    [pathOf]
+  );
+
+  return {
+    categories,
+    activeCategories,
+    tree,
+    colorFor,
+    iconFor,
+    pathOf,
+    belongsTo,
+    loading,
+    error,
+    reload
+  };
+}
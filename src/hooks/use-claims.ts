@@ -0,0 +1,96 @@
+import { QueryClient, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { expenseKeys } from '@/hooks/use-expenses';
+import { Claim, ClaimStatus } from '@/lib/claims';
+
+export const claimKeys = {
+  all: ['claims'] as const,
+  ledger: (ledgerId: string) => [...claimKeys.all, ledgerId] as const
+};
+
+// Every claim of a ledger with its expenses, newest first; trashed expenses
+// are left out
+export function useClaims(ledgerId: string, { enabled = true } = {}) {
+  return useQuery({
+    queryKey: claimKeys.ledger(ledgerId),
+    queryFn: async (): Promise<Claim[]> => {
+      const { data, error } = await supabase
+        .from('claims')
+        .select('*, expenses(id, amount, currency, category, description, date)')
+        .eq('ledger_id', ledgerId)
+        .is('expenses.deleted_at', null)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled
+  });
+}
+
+// Claims and the history rows showing their status change together
+const invalidateClaims = (queryClient: QueryClient, ledgerId: string) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: claimKeys.ledger(ledgerId) }),
+    queryClient.invalidateQueries({ queryKey: expenseKeys.histories() })
+  ]);
+
+export function useCreateClaim() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ ledgerId, title }: { ledgerId: string; title: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('You are signed out');
+
+      const { data, error } = await supabase
+        .from('claims')
+        .insert({ ledger_id: ledgerId, title, user_id: user.id })
+        .select('id')
+        .single();
+      if (error) throw error;
+      return data.id;
+    },
+    onSettled: (_data, _error, { ledgerId }) =>
+      queryClient.invalidateQueries({ queryKey: claimKeys.ledger(ledgerId) })
+  });
+}
+
+// Draft claims are deleted outright; their expenses stay, unclaimed
+export function useDeleteClaim() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (claim: Claim) => {
+      const { error } = await supabase.from('claims').delete().eq('id', claim.id);
+      if (error) throw error;
+    },
+    onSettled: (_data, _error, claim) => invalidateClaims(queryClient, claim.ledger_id)
+  });
+}
+
+// Takes an expense out of a draft claim
+export function useRemoveClaimExpense() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ expenseId }: { claim: Claim; expenseId: string }) => {
+      const { error } = await supabase.from('expenses').update({ claim_id: null }).eq('id', expenseId);
+      if (error) throw error;
+    },
+    onSettled: (_data, _error, { claim }) => invalidateClaims(queryClient, claim.ledger_id)
+  });
+}
+
+// Moves a claim along its lifecycle; the database checks who may make
+// which move
+export function useSetClaimStatus() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ claim, status, comment }: { claim: Claim; status: ClaimStatus; comment?: string }) => {
+      const { error } = await supabase.rpc('set_claim_status', {
+        _claim_id: claim.id,
+        _status: status,
+        _comment: comment
+      });
+      if (error) throw error;
+    },
+    onSettled: (_data, _error, { claim }) => invalidateClaims(queryClient, claim.ledger_id)
+  });
+}
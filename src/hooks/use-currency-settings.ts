@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_CURRENCY, ExchangeRate, createConverter } from '@/lib/currency';
+
+// Base currency and stored exchange rates of the signed-in user, plus a
+// converter into the base currency built from them
+export function useCurrencySettings() {
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    const [settingsResult, ratesResult] = await Promise.all([
+      supabase.from('user_settings').select('base_currency').maybeSingle(),
+      supabase.from('exchange_rates').select('*').order('date', { ascending: false })
+    ]);
+
+    const failure = settingsResult.error ?? ratesResult.error;
+    setError(failure ? failure.message : null);
+    setBaseCurrency(settingsResult.data?.base_currency ?? DEFAULT_CURRENCY);
+    setRates(ratesResult.data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const convert = useMemo(() => createConverter(rates, baseCurrency), [rates, baseCurrency]);
+
+  return { baseCurrency, rates, convert, loading, error, reload };
+}
@@ -0,0 +1,35 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { DateRange, DateRangePreset, describeDateRange, parseDateRangeParams } from '@/lib/dateRange';
+
+// Date-range filter kept in the URL query string, so a filtered view can be
+// reloaded, bookmarked or shared
+export function useDateRangeFilter() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const { preset, range } = useMemo(() => parseDateRangeParams(searchParams), [searchParams]);
+
+  const update = useCallback((next: DateRangePreset, custom?: DateRange) => {
+    setSearchParams(prev => {
+      const params = new URLSearchParams(prev);
+      params.delete('from');
+      params.delete('to');
+      if (next === 'all') {
+        params.delete('range');
+      } else {
+        params.set('range', next);
+      }
+      if (next === 'custom' && custom) {
+        if (custom.from) params.set('from', custom.from);
+        if (custom.to) params.set('to', custom.to);
+      }
+      return params;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const setPreset = useCallback((next: DateRangePreset) => update(next, range), [update, range]);
+
+  const setCustomRange = useCallback((custom: DateRange) => update('custom', custom), [update]);
+
+  return { preset, range, label: describeDateRange(preset, range), setPreset, setCustomRange };
+}
@@ -0,0 +1,75 @@
+import { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+import { applyRemoteExpenseChange, isLocalWrite } from '@/hooks/use-expenses';
+
+type ExpenseRow = Database['public']['Tables']['expenses']['Row'];
+
+export type RemoteExpenseChange =
+  | { kind: 'saved'; expense: ExpenseRow }
+  | { kind: 'deleted'; id: string };
+
+// How long the "updated from another device" notice stays up
+const NOTICE_MS = 5000;
+
+// Merge expense changes made to a ledger in other tabs, on other devices
+// and by other members into the cached history and totals as they happen.
+// `onRemoteChange` is told about each one, e.g. to warn about a row that is
+// open in the form.
+export function useExpenseRealtime(
+  ledgerId: string | undefined,
+  onRemoteChange?: (change: RemoteExpenseChange) => void
+) {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+  const [remoteUpdate, setRemoteUpdate] = useState(false);
+  const onRemoteChangeRef = useRef(onRemoteChange);
+  onRemoteChangeRef.current = onRemoteChange;
+
+  useEffect(() => {
+    if (!ledgerId) return;
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let noticeTimer: ReturnType<typeof setTimeout> | undefined;
+    let cancelled = false;
+
+    const handleChange = (payload: RealtimePostgresChangesPayload<ExpenseRow>) => {
+      // Moving a row to the trash reads as deleting it, restoring it as saving it
+      const change: RemoteExpenseChange = payload.eventType === 'DELETE'
+        ? { kind: 'deleted', id: payload.old.id as string }
+        : payload.new.deleted_at
+          ? { kind: 'deleted', id: payload.new.id }
+          : { kind: 'saved', expense: payload.new };
+      const id = change.kind === 'deleted' ? change.id : change.expense.id;
+      if (isLocalWrite(id)) return;
+
+      applyRemoteExpenseChange(queryClient, id, change.kind === 'deleted' ? null : change.expense);
+      onRemoteChangeRef.current?.(change);
+
+      setRemoteUpdate(true);
+      clearTimeout(noticeTimer);
+      noticeTimer = setTimeout(() => setRemoteUpdate(false), NOTICE_MS);
+    };
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      if (!user || cancelled) return;
+      channel = supabase
+        .channel(`expenses:${ledgerId}:${user.id}`)
+        .on(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'expenses', filter: `ledger_id=eq.${ledgerId}` },
+          handleChange
+        )
+        .subscribe(status => setConnected(status === 'SUBSCRIBED'));
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(noticeTimer);
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, [queryClient, ledgerId]);
+
+  return { connected, remoteUpdate };
+}
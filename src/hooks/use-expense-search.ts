@@ -0,0 +1,32 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { parseExpenseQuery } from '@/lib/expenseQuery';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Text of the history search bar, mirrored into `?q=` once typing pauses so
+// results are only fetched for settled input and survive a reload
+export function useExpenseSearch() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const text = searchParams.get('q') ?? '';
+  const [input, setInput] = useState(text);
+
+  useEffect(() => {
+    if (input.trim() === text) return;
+
+    const timer = setTimeout(() => {
+      setSearchParams(prev => {
+        const params = new URLSearchParams(prev);
+        if (input.trim()) params.set('q', input.trim());
+        else params.delete('q');
+        return params;
+      }, { replace: true });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [input, text, setSearchParams]);
+
+  const query = useMemo(() => parseExpenseQuery(text), [text]);
+
+  return { input, setInput, text, query };
+}
@@ -0,0 +1,719 @@
+import { InfiniteData, QueryClient, useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { Database } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+import { AnomalyFlag } from '@/lib/anomalies';
+import { ExpenseAttachment, deleteAttachment, removeQueuedReceipts, uploadReceipts } from '@/lib/attachments';
+import { addDays } from '@/lib/dates';
+import { AMOUNT_FILTER_OPERATORS } from '@/lib/expenseQuery';
+import {
+  OutboxChange,
+  OutboxExpense,
+  attemptFollowUpWrite,
+  enqueueChange,
+  hasQueuedChange,
+  isNetworkError,
+  writeExpenseUpdate
+} from '@/lib/outbox';
+import { ExpenseSplit, SplitDetails, setExpenseSplits } from '@/lib/splits';
+import { addExpenseTags, setExpenseTags } from '@/lib/tags';
+import {
+  EXPENSE_PAGE_SIZE,
+  EXPORT_PAGE_SIZE,
+  ExpenseFilters,
+  HistoryCursor,
+  HistoryPage,
+  afterCursor,
+  dailyTotalsArgs,
+  matchesFilters,
+  placeInPages
+} from '@/lib/expenseHistory';
+
+type ExpenseRow = Database['public']['Tables']['expenses']['Row'];
+
+// Columns the history needs; the generated search vector is left out
+const EXPENSE_COLUMNS = 'id, ledger_id, user_id, amount, currency, category, description, date, type, paid_by, split_method, claim_id, anomaly_flags, expense_attachments(*), expense_tags(tag_id), expense_splits(user_id, share, amount)';
+
+// The tags once more under another name, for filtering by tag without
+// narrowing the tags each row lists
+const HISTORY_COLUMNS = `${EXPENSE_COLUMNS}, tag_filter:expense_tags(tag_id)` as const;
+
+export type Expense = Pick<
+  ExpenseRow,
+  'id' | 'ledger_id' | 'user_id' | 'amount' | 'currency' | 'category' | 'description' | 'date' | 'type' | 'paid_by' | 'split_method' | 'claim_id' | 'anomaly_flags'
+> & {
+  expense_attachments: ExpenseAttachment[];
+  expense_tags: { tag_id: string }[];
+  expense_splits: ExpenseSplit[];
+};
+
+// Fields the expense form edits; `id` is generated client-side so the
+// optimistic row and the stored one share it
+export type ExpenseInput = Pick<ExpenseRow, 'amount' | 'currency' | 'category' | 'description' | 'date' | 'type'>;
+
+export type ExpensePage = HistoryPage<Expense>;
+
+export type TrashedExpense = Expense & { deleted_at: string };
+
+export const expenseKeys = {
+  all: ['expenses'] as const,
+  histories: () => [...expenseKeys.all, 'history'] as const,
+  history: (filters: ExpenseFilters) => [...expenseKeys.histories(), filters] as const,
+  allTotals: () => [...expenseKeys.all, 'totals'] as const,
+  totals: (filters: ExpenseFilters) => [...expenseKeys.allTotals(), filters] as const,
+  tagTotals: (filters: ExpenseFilters) => [...expenseKeys.allTotals(), 'tags', filters] as const,
+  trashes: () => [...expenseKeys.all, 'trash'] as const,
+  trash: (ledgerId: string) => [...expenseKeys.trashes(), ledgerId] as const,
+  report: (filters: ExpenseFilters) => [...expenseKeys.all, 'report', filters] as const,
+  // Flagged expenses come and go with every expense write, like the totals
+  flagged: (ledgerId: string) => [...expenseKeys.allTotals(), 'flagged', ledgerId] as const,
+  // Balances follow every expense write, like the totals
+  balances: (ledgerId: string) => [...expenseKeys.allTotals(), 'balances', ledgerId] as const
+};
+
+// Expenses matching `filters`, newest first; trashed ones are left out
+const historyQuery = (filters: ExpenseFilters) => {
+  let query = supabase
+    .from('expenses')
+    .select(HISTORY_COLUMNS)
+    .eq('ledger_id', filters.ledger)
+    .is('deleted_at', null)
+    .order('date', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (filters.from) query = query.gte('date', filters.from);
+  if (filters.to) query = query.lte('date', filters.to);
+  if (filters.search) query = query.textSearch('description_search', filters.search, { config: 'simple' });
+  filters.amounts.forEach(({ operator, value }) => {
+    query = query.filter('amount', AMOUNT_FILTER_OPERATORS[operator], value);
+  });
+  if (filters.categories) query = query.in('category', filters.categories);
+  if (filters.currency) query = query.eq('currency', filters.currency);
+  if (filters.type) query = query.eq('type', filters.type);
+  if (filters.tags) query = query.in('tag_filter.tag_id', filters.tags).not('tag_filter', 'is', null);
+  return query;
+};
+
+const fetchExpensePage = async (
+  filters: ExpenseFilters,
+  cursor: HistoryCursor | null,
+  size: number
+): Promise<ExpensePage> => {
+  let query = historyQuery(filters).limit(size);
+  if (cursor) query = query.or(afterCursor(cursor));
+
+  const { data, error } = await query;
+  if (error) throw error;
+  const expenses = (data || []).map(({ tag_filter: _tagFilter, ...expense }) => expense);
+  const last = expenses[expenses.length - 1];
+  return {
+    expenses,
+    nextCursor: expenses.length === size ? { id: last.id, date: last.date } : null
+  };
+};
+
+// Every expense matching `filters`, fetched page by page for export
+export const fetchAllExpenses = async (filters: ExpenseFilters): Promise<Expense[]> => {
+  const expenses: Expense[] = [];
+  let cursor: HistoryCursor | null = null;
+  do {
+    const page = await fetchExpensePage(filters, cursor, EXPORT_PAGE_SIZE);
+    expenses.push(...page.expenses);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return expenses;
+};
+
+const fetchExpense = async (id: string): Promise<Expense> => {
+  const { data, error } = await supabase.from('expenses').select(EXPENSE_COLUMNS).eq('id', id).single();
+  if (error) throw error;
+  return data;
+};
+
+// Read from the stored session, so it also works offline
+const getUserId = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('You are signed out');
+  return session.user.id;
+};
+
+// Changes are queued instead of sent while offline, and behind any change
+// to the same expense that is still queued, so they replay in order
+const shouldQueue = async (id: string) => !navigator.onLine || (await hasQueuedChange(id));
+
+// Pages of the history matching `filters`, loaded as the list scrolls
+export function useExpenses(filters: ExpenseFilters, { enabled = true } = {}) {
+  return useInfiniteQuery({
+    queryKey: expenseKeys.history(filters),
+    queryFn: ({ pageParam }) => fetchExpensePage(filters, pageParam, EXPENSE_PAGE_SIZE),
+    initialPageParam: null as HistoryCursor | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    enabled
+  });
+}
+
+// Every expense matching `filters` in one list, for reports
+export function useAllExpenses(filters: ExpenseFilters, { enabled = true } = {}) {
+  return useQuery({
+    queryKey: expenseKeys.report(filters),
+    queryFn: () => fetchAllExpenses(filters),
+    enabled
+  });
+}
+
+// Per-day sums of the expenses matching `filters`, shared by every total and chart
+export function useExpenseTotals(filters: ExpenseFilters, { enabled = true } = {}) {
+  return useQuery({
+    queryKey: expenseKeys.totals(filters),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('expense_daily_totals', dailyTotalsArgs(filters));
+      if (error) throw error;
+      return data || [];
+    },
+    enabled
+  });
+}
+
+// Per-day sums of the expenses matching `filters` for each tag
+export function useExpenseTagTotals(filters: ExpenseFilters, { enabled = true } = {}) {
+  return useQuery({
+    queryKey: expenseKeys.tagTotals(filters),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('expense_tag_totals', dailyTotalsArgs(filters));
+      if (error) throw error;
+      return data || [];
+    },
+    enabled
+  });
+}
+
+// Expenses of a ledger saved despite looking unusual, waiting for review
+export function useFlaggedExpenses(ledgerId: string, { enabled = true } = {}) {
+  return useQuery({
+    queryKey: expenseKeys.flagged(ledgerId),
+    queryFn: async (): Promise<Expense[]> => {
+      const { data, error } = await supabase
+        .from('expenses')
+        .select(EXPENSE_COLUMNS)
+        .eq('ledger_id', ledgerId)
+        .not('anomaly_flags', 'is', null)
+        .is('deleted_at', null)
+        .order('date', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled
+  });
+}
+
+// Expenses in a ledger's trash, most recently deleted first
+export function useTrashedExpenses(ledgerId: string, { enabled = true } = {}) {
+  return useQuery({
+    queryKey: expenseKeys.trash(ledgerId),
+    queryFn: async (): Promise<TrashedExpense[]> => {
+      const { data, error } = await supabase
+        .from('expenses')
+        .select(`${EXPENSE_COLUMNS}, deleted_at`)
+        .eq('ledger_id', ledgerId)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+      if (error) throw error;
+      return (data || []) as TrashedExpense[];
+    },
+    enabled
+  });
+}
+
+type HistoryData = InfiniteData<ExpensePage, HistoryCursor | null>;
+
+type HistorySnapshot = [readonly unknown[], HistoryData | undefined][];
+
+const snapshotHistories = async (queryClient: QueryClient): Promise<HistorySnapshot> => {
+  await queryClient.cancelQueries({ queryKey: expenseKeys.histories() });
+  return queryClient.getQueriesData<HistoryData>({ queryKey: expenseKeys.histories() });
+};
+
+const restoreHistories = (queryClient: QueryClient, snapshot: HistorySnapshot | undefined) => {
+  snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData<HistoryData>(queryKey, data));
+};
+
+const findCachedExpense = (queryClient: QueryClient, id: string): Expense | undefined =>
+  queryClient
+    .getQueriesData<HistoryData>({ queryKey: expenseKeys.histories() })
+    .flatMap(([, data]) => data?.pages.flatMap(page => page.expenses) ?? [])
+    .find(expense => expense.id === id);
+
+// Show `expense` (or drop it, when null) in every cached history. Rows are
+// placed where each set of filters would list them; under a description
+// search an edited row stays put and a new one waits for the next refetch.
+const setCachedExpense = (queryClient: QueryClient, id: string, expense: Expense | null) => {
+  queryClient
+    .getQueriesData<HistoryData>({ queryKey: expenseKeys.histories() })
+    .forEach(([queryKey, data]) => {
+      if (!data) return;
+      const filters = queryKey[2] as ExpenseFilters;
+      const listed = data.pages.some(page => page.expenses.some(item => item.id === id));
+      const match = expense ? matchesFilters(expense, filters) : false;
+      const row = match || (match === null && listed) ? expense : null;
+      queryClient.setQueryData<HistoryData>(queryKey, { ...data, pages: placeInPages(data.pages, id, row) });
+    });
+};
+
+// Ids this tab is writing or has just written, so the Realtime echo of its
+// own changes is not mistaken for one from another device
+const localWrites = new Map<string, ReturnType<typeof setTimeout> | null>();
+
+// How long after a write settles its echo is still expected
+const LOCAL_WRITE_GRACE_MS = 10000;
+
+export const startLocalWrite = (id: string) => {
+  const timer = localWrites.get(id);
+  if (timer) clearTimeout(timer);
+  localWrites.set(id, null);
+};
+
+export const endLocalWrite = (id: string) => {
+  localWrites.set(id, setTimeout(() => localWrites.delete(id), LOCAL_WRITE_GRACE_MS));
+};
+
+export const isLocalWrite = (id: string) => localWrites.has(id);
+
+// Merge a change made elsewhere into every cached history and refresh the
+// totals and trash. Realtime rows carry no attachments, so cached ones are
+// kept. A trashed row leaves the history like a deleted one.
+export const applyRemoteExpenseChange = (
+  queryClient: QueryClient,
+  id: string,
+  row: Pick<ExpenseRow, keyof ExpenseInput | 'id' | 'ledger_id' | 'user_id' | 'paid_by' | 'split_method' | 'claim_id' | 'anomaly_flags' | 'deleted_at'> | null
+) => {
+  const cached = findCachedExpense(queryClient, id);
+  setCachedExpense(queryClient, id, row && !row.deleted_at ? {
+    id: row.id,
+    ledger_id: row.ledger_id,
+    user_id: row.user_id,
+    amount: row.amount,
+    currency: row.currency,
+    category: row.category,
+    description: row.description,
+    date: row.date,
+    type: row.type,
+    paid_by: row.paid_by,
+    split_method: row.split_method,
+    claim_id: row.claim_id,
+    anomaly_flags: row.anomaly_flags,
+    expense_attachments: cached?.expense_attachments ?? [],
+    expense_tags: cached?.expense_tags ?? [],
+    expense_splits: cached?.expense_splits ?? []
+  } : null);
+  return Promise.all([
+    queryClient.invalidateQueries({ queryKey: expenseKeys.allTotals() }),
+    queryClient.invalidateQueries({ queryKey: expenseKeys.trashes() })
+  ]);
+};
+
+// Totals and the trash are cheap and refetched after every write; histories
+// are only marked stale, as the cache already reflects the write
+const invalidateAfterWrite = (queryClient: QueryClient) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: expenseKeys.allTotals() }),
+    queryClient.invalidateQueries({ queryKey: expenseKeys.trashes() }),
+    queryClient.invalidateQueries({ queryKey: expenseKeys.histories(), refetchType: 'none' })
+  ]);
+
+// Park a change in the outbox; the optimistic cache update stands in for
+// the server's answer until it is replayed
+const queueChange = async (change: OutboxChange) => {
+  await enqueueChange(change);
+  return { expense: null, receiptError: null, tagError: null, splitError: null, queued: true };
+};
+
+// Write `fields` to an expense, or queue them when that cannot be done now.
+// Receipts only go along when queued; otherwise the caller uploads them.
+// Tags and splits that fail once the row is written are returned, not thrown.
+const updateOrQueue = async (id: string, fields: Partial<OutboxExpense>, receipts: File[] = []) => {
+  const userId = await getUserId();
+  const change: OutboxChange = { id, userId, operation: 'update', expense: fields, receipts };
+  const queue = async () => {
+    const { tagError, splitError, queued } = await queueChange(change);
+    return { userId, tagError, splitError, queued };
+  };
+  if (await shouldQueue(id)) return queue();
+
+  try {
+    return { userId, ...(await writeExpenseUpdate(userId, id, fields)), queued: false };
+  } catch (error) {
+    if (isNetworkError(error as Error)) return queue();
+    throw error;
+  }
+};
+
+// Receipts are uploaded after the row is saved; a failed upload is reported
+// without failing the save
+const attachReceipts = async (userId: string, expenseId: string, receipts: File[]): Promise<Error | null> => {
+  if (receipts.length === 0) return null;
+  try {
+    await uploadReceipts(userId, expenseId, receipts);
+    return null;
+  } catch (error) {
+    return error as Error;
+  }
+};
+
+const toExpenseTags = (tagIds: string[]) => tagIds.map(tag_id => ({ tag_id }));
+
+// Columns and splits for how an expense is shared; null un-splits it
+const splitFields = (split: SplitDetails | null) => ({
+  paid_by: split?.paidBy ?? null,
+  split_method: split?.method ?? null,
+  splits: split?.splits ?? []
+});
+
+interface NewExpense {
+  id: string;
+  ledgerId: string;
+  expense: ExpenseInput;
+  tagIds: string[];
+  split: SplitDetails | null;
+  receipts: File[];
+  // What the anomaly detector found and the user saved anyway
+  anomalyFlags?: AnomalyFlag[] | null;
+}
+
+interface ExpenseUpdate {
+  id: string;
+  changes: ExpenseInput;
+  tagIds: string[];
+  split: SplitDetails | null;
+  receipts: File[];
+  // Left as they are when not given, e.g. when the detector could not run
+  anomalyFlags?: AnomalyFlag[] | null;
+}
+
+// Flags to store for what the detector found; none is stored as null
+const anomalyFields = (flags: AnomalyFlag[] | null | undefined) =>
+  flags === undefined ? {} : { anomaly_flags: flags && flags.length > 0 ? flags : null };
+
+export function useCreateExpense() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    // Runs offline too, queueing the change; `expense` is null when queued
+    networkMode: 'always',
+    mutationFn: async ({ id, ledgerId, expense, tagIds, split, receipts, anomalyFlags = null }: NewExpense) => {
+      const userId = await getUserId();
+      const { splits, ...splitColumns } = splitFields(split);
+      const flags = { anomaly_flags: null, ...anomalyFields(anomalyFlags) };
+      const change: OutboxChange = {
+        id,
+        userId,
+        operation: 'create',
+        expense: { ...expense, ledger_id: ledgerId, ...splitColumns, ...flags, tag_ids: tagIds, splits },
+        receipts
+      };
+      if (await shouldQueue(id)) return queueChange(change);
+
+      const { error } = await supabase
+        .from('expenses')
+        .insert({ ...expense, ...splitColumns, ...flags, id, ledger_id: ledgerId, user_id: userId });
+      if (error) {
+        if (isNetworkError(error)) return queueChange(change);
+        throw error;
+      }
+      // The row is stored from here on, so a retry would add it twice
+      const tagError = await attemptFollowUpWrite(() => setExpenseTags(userId, id, tagIds));
+      const splitError = await attemptFollowUpWrite(() => setExpenseSplits(id, splits));
+      const receiptError = await attachReceipts(userId, id, receipts);
+      // Without the stored version the optimistic row stays until the next refetch
+      const stored = await fetchExpense(id).catch(() => null);
+      return { expense: stored, receiptError, tagError, splitError, queued: false };
+    },
+    onMutate: async ({ id, ledgerId, expense, tagIds, split, anomalyFlags = null }) => {
+      startLocalWrite(id);
+      const snapshot = await snapshotHistories(queryClient);
+      const { splits, ...splitColumns } = splitFields(split);
+      setCachedExpense(queryClient, id, {
+        ...expense,
+        ...splitColumns,
+        anomaly_flags: null,
+        ...anomalyFields(anomalyFlags),
+        id,
+        ledger_id: ledgerId,
+        user_id: await getUserId(),
+        claim_id: null,
+        expense_attachments: [],
+        expense_tags: toExpenseTags(tagIds),
+        expense_splits: splits
+      });
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreHistories(queryClient, context?.snapshot),
+    onSuccess: ({ expense }) => {
+      if (expense) setCachedExpense(queryClient, expense.id, expense);
+    },
+    onSettled: (_data, _error, { id }) => {
+      endLocalWrite(id);
+      return invalidateAfterWrite(queryClient);
+    }
+  });
+}
+
+export function useUpdateExpense() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    networkMode: 'always',
+    mutationFn: async ({ id, changes, tagIds, split, receipts, anomalyFlags }: ExpenseUpdate) => {
+      const { userId, tagError, splitError, queued } = await updateOrQueue(
+        id,
+        { ...changes, ...splitFields(split), ...anomalyFields(anomalyFlags), tag_ids: tagIds },
+        receipts
+      );
+      if (queued) return { expense: null, receiptError: null, tagError, splitError, queued };
+
+      // The row is saved from here on, so nothing below rolls the cache back
+      const receiptError = await attachReceipts(userId, id, receipts);
+      const stored = await fetchExpense(id).catch(() => null);
+      return { expense: stored, receiptError, tagError, splitError, queued: false };
+    },
+    onMutate: async ({ id, changes, tagIds, split, anomalyFlags }) => {
+      startLocalWrite(id);
+      const snapshot = await snapshotHistories(queryClient);
+      const current = findCachedExpense(queryClient, id);
+      const { splits, ...splitColumns } = splitFields(split);
+      if (current) {
+        setCachedExpense(queryClient, id, {
+          ...current,
+          ...changes,
+          ...splitColumns,
+          ...anomalyFields(anomalyFlags),
+          expense_tags: toExpenseTags(tagIds),
+          expense_splits: splits
+        });
+      }
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreHistories(queryClient, context?.snapshot),
+    onSuccess: ({ expense }) => {
+      if (expense) setCachedExpense(queryClient, expense.id, expense);
+    },
+    onSettled: (_data, _error, { id }) => {
+      endLocalWrite(id);
+      return invalidateAfterWrite(queryClient);
+    }
+  });
+}
+
+type TrashSnapshot = [readonly unknown[], TrashedExpense[] | undefined][];
+
+const removeFromTrash = async (queryClient: QueryClient, id: string): Promise<TrashSnapshot> => {
+  await queryClient.cancelQueries({ queryKey: expenseKeys.trashes() });
+  const snapshot = queryClient.getQueriesData<TrashedExpense[]>({ queryKey: expenseKeys.trashes() });
+  queryClient.setQueriesData<TrashedExpense[]>(
+    { queryKey: expenseKeys.trashes() },
+    trash => trash?.filter(item => item.id !== id)
+  );
+  return snapshot;
+};
+
+const restoreTrash = (queryClient: QueryClient, snapshot: TrashSnapshot | undefined) => {
+  snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData<TrashedExpense[]>(queryKey, data));
+};
+
+// Moves an expense to the trash, from where it can be restored until it is
+// purged
+export function useDeleteExpense() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    networkMode: 'always',
+    mutationFn: async (expense: Expense) => {
+      const { queued } = await updateOrQueue(expense.id, { deleted_at: new Date().toISOString() });
+      return { queued };
+    },
+    onMutate: async (expense) => {
+      startLocalWrite(expense.id);
+      const snapshot = await snapshotHistories(queryClient);
+      setCachedExpense(queryClient, expense.id, null);
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreHistories(queryClient, context?.snapshot),
+    onSettled: (_data, _error, expense) => {
+      endLocalWrite(expense.id);
+      return invalidateAfterWrite(queryClient);
+    }
+  });
+}
+
+export function useRestoreExpense() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    networkMode: 'always',
+    mutationFn: async (expense: Expense) => {
+      const { queued } = await updateOrQueue(expense.id, { deleted_at: null });
+      return { queued };
+    },
+    onMutate: async (expense) => {
+      startLocalWrite(expense.id);
+      const snapshot = await snapshotHistories(queryClient);
+      const trash = await removeFromTrash(queryClient, expense.id);
+      setCachedExpense(queryClient, expense.id, expense);
+      return { snapshot, trash };
+    },
+    onError: (_error, _variables, context) => {
+      restoreHistories(queryClient, context?.snapshot);
+      restoreTrash(queryClient, context?.trash);
+    },
+    onSettled: (_data, _error, expense) => {
+      endLocalWrite(expense.id);
+      return invalidateAfterWrite(queryClient);
+    }
+  });
+}
+
+// Deletes a trashed expense for good. Attachment rows are removed by the
+// cascade, which queues their files for removal; the user's own are removed
+// right away, other members' on their next load. A failure to remove them
+// is reported without failing the purge.
+export function usePurgeExpense() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (expense: TrashedExpense) => {
+      const { error } = await supabase.from('expenses').delete().eq('id', expense.id);
+      if (error) throw error;
+
+      try {
+        await removeQueuedReceipts();
+        return { receiptError: null };
+      } catch (error) {
+        return { receiptError: error as Error };
+      }
+    },
+    onMutate: async (expense) => {
+      startLocalWrite(expense.id);
+      return { trash: await removeFromTrash(queryClient, expense.id) };
+    },
+    onError: (_error, _variables, context) => restoreTrash(queryClient, context?.trash),
+    onSettled: (_data, _error, expense) => {
+      endLocalWrite(expense.id);
+      return queryClient.invalidateQueries({ queryKey: expenseKeys.trashes() });
+    }
+  });
+}
+
+// One change applied to several expenses at once from the history
+export type BatchAction =
+  | { kind: 'category'; category: string }
+  | { kind: 'shiftDate'; days: number }
+  | { kind: 'tag'; tagId: string }
+  | { kind: 'claim'; claimId: string }
+  | { kind: 'reviewAnomalies' }
+  | { kind: 'delete' }
+  | { kind: 'restore' };
+
+const withTag = (expense: Expense, tagId: string) =>
+  expense.expense_tags.some(({ tag_id }) => tag_id === tagId)
+    ? expense.expense_tags
+    : [...expense.expense_tags, { tag_id: tagId }];
+
+// Fields a batch action writes to one expense; tags are given in full, as
+// queued changes replace them
+const batchFields = (expense: Expense, action: BatchAction, now: string): Partial<OutboxExpense> => {
+  switch (action.kind) {
+    case 'category': return { category: action.category };
+    case 'shiftDate': return { date: addDays(expense.date, action.days) };
+    case 'tag': return { tag_ids: withTag(expense, action.tagId).map(({ tag_id }) => tag_id) };
+    case 'claim': return { claim_id: action.claimId };
+    case 'reviewAnomalies': return { anomaly_flags: null };
+    case 'delete': return { deleted_at: now };
+    case 'restore': return { deleted_at: null };
+  }
+};
+
+// How an expense looks once a batch action has been applied; null when it
+// leaves the history
+const batchedExpense = (expense: Expense, action: BatchAction, now: string): Expense | null => {
+  if (action.kind === 'delete') return null;
+  if (action.kind === 'tag') return { ...expense, expense_tags: withTag(expense, action.tagId) };
+  const { deleted_at: _deletedAt, ...fields } = batchFields(expense, action, now);
+  return { ...expense, ...fields };
+};
+
+// Sends the whole batch as one request. Offline, or behind changes still
+// queued for any of the expenses, each one is queued on its own instead.
+export function useBatchExpenseAction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    networkMode: 'always',
+    mutationFn: async ({ expenses, action }: { expenses: Expense[]; action: BatchAction }) => {
+      const userId = await getUserId();
+      const now = new Date().toISOString();
+      const ids = expenses.map(expense => expense.id);
+      const queue = async () => {
+        for (const expense of expenses) {
+          await enqueueChange({
+            id: expense.id,
+            userId,
+            operation: 'update',
+            expense: batchFields(expense, action, now),
+            receipts: []
+          });
+        }
+        return { count: expenses.length, queued: true };
+      };
+
+      const queuedIds = await Promise.all(ids.map(hasQueuedChange));
+      if (!navigator.onLine || queuedIds.some(Boolean)) return queue();
+
+      try {
+        if (action.kind === 'tag') {
+          await addExpenseTags(userId, ids, [action.tagId]);
+        } else {
+          const { error } = action.kind === 'shiftDate'
+            ? await supabase.rpc('shift_expense_dates', { _ids: ids, _days: action.days })
+            : await supabase.from('expenses').update(batchFields(expenses[0], action, now)).in('id', ids);
+          if (error) throw error;
+        }
+      } catch (error) {
+        if (isNetworkError(error as Error)) return queue();
+        throw error;
+      }
+      return { count: expenses.length, queued: false };
+    },
+    onMutate: async ({ expenses, action }) => {
+      expenses.forEach(expense => startLocalWrite(expense.id));
+      const snapshot = await snapshotHistories(queryClient);
+      const trash = action.kind === 'restore'
+        ? queryClient.getQueriesData<TrashedExpense[]>({ queryKey: expenseKeys.trashes() })
+        : undefined;
+      const now = new Date().toISOString();
+      for (const expense of expenses) {
+        if (action.kind === 'restore') await removeFromTrash(queryClient, expense.id);
+        setCachedExpense(queryClient, expense.id, batchedExpense(expense, action, now));
+      }
+      return { snapshot, trash };
+    },
+    onError: (_error, _variables, context) => {
+      restoreHistories(queryClient, context?.snapshot);
+      restoreTrash(queryClient, context?.trash);
+    },
+    onSettled: (_data, _error, { expenses }) => {
+      expenses.forEach(expense => endLocalWrite(expense.id));
+      return invalidateAfterWrite(queryClient);
+    }
+  });
+}
+
+export function useDeleteAttachment() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (attachment: ExpenseAttachment) => deleteAttachment(attachment),
+    onMutate: async (attachment) => {
+      const snapshot = await snapshotHistories(queryClient);
+      const current = findCachedExpense(queryClient, attachment.expense_id);
+      if (current) {
+        setCachedExpense(queryClient, current.id, {
+          ...current,
+          expense_attachments: current.expense_attachments.filter(item => item.id !== attachment.id)
+        });
+      }
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreHistories(queryClient, context?.snapshot)
+  });
+}
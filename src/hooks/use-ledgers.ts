@@ -0,0 +1,227 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  Ledger,
+  LedgerInvitation,
+  LedgerMember,
+  LedgerRole,
+  canApproveClaims,
+  canEditLedger,
+  getStoredLedgerId,
+  storeLedgerId,
+  subscribeCurrentLedger
+} from '@/lib/ledgers';
+
+export const ledgerKeys = {
+  all: ['ledgers'] as const,
+  members: (ledgerId: string) => [...ledgerKeys.all, ledgerId, 'members'] as const,
+  invitations: (ledgerId: string) => [...ledgerKeys.all, ledgerId, 'invitations'] as const,
+  invitation: (token: string) => [...ledgerKeys.all, 'invitation', token] as const
+};
+
+const fetchLedgers = async (): Promise<Ledger[]> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('You are signed out');
+
+  const { data, error } = await supabase
+    .from('ledgers')
+    .select('id, name, created_at, ledger_members!inner(role, can_approve)')
+    .eq('ledger_members.user_id', session.user.id)
+    .order('created_at');
+  if (error) throw error;
+  return (data || []).map(({ ledger_members, ...ledger }) => ({
+    ...ledger,
+    role: ledger_members[0].role as LedgerRole,
+    can_approve: ledger_members[0].can_approve
+  }));
+};
+
+// Ledgers of the signed-in user and the one picked in the switcher. Until
+// one is picked, or when the picked one was left, the oldest is current:
+// the personal ledger every account starts with.
+export function useLedgers() {
+  const query = useQuery({ queryKey: ledgerKeys.all, queryFn: fetchLedgers });
+  const storedId = useSyncExternalStore(subscribeCurrentLedger, getStoredLedgerId);
+
+  const ledgers = useMemo(() => query.data ?? [], [query.data]);
+  const current: Ledger | undefined = ledgers.find(ledger => ledger.id === storedId) ?? ledgers[0];
+
+  return {
+    ledgers,
+    current,
+    canEdit: canEditLedger(current?.role),
+    isOwner: current?.role === 'owner',
+    canApprove: canApproveClaims(current),
+    switchLedger: storeLedgerId,
+    loading: query.isPending,
+    error: query.error
+  };
+}
+
+export function useLedgerMembers(ledgerId: string) {
+  return useQuery({
+    queryKey: ledgerKeys.members(ledgerId),
+    queryFn: async (): Promise<LedgerMember[]> => {
+      const { data, error } = await supabase
+        .from('ledger_members')
+        .select('*')
+        .eq('ledger_id', ledgerId)
+        .order('created_at');
+      if (error) throw error;
+      return data || [];
+    }
+  });
+}
+
+// Invitations not accepted yet; only owners can see them
+export function useLedgerInvitations(ledgerId: string, { enabled = true } = {}) {
+  return useQuery({
+    queryKey: ledgerKeys.invitations(ledgerId),
+    queryFn: async (): Promise<LedgerInvitation[]> => {
+      const { data, error } = await supabase
+        .from('ledger_invitations')
+        .select('*')
+        .eq('ledger_id', ledgerId)
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled
+  });
+}
+
+// Creates a ledger owned by the signed-in user and switches to it
+export function useCreateLedger() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const { data, error } = await supabase.rpc('create_ledger', { _name: name });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: async (id) => {
+      await queryClient.invalidateQueries({ queryKey: ledgerKeys.all });
+      storeLedgerId(id);
+    }
+  });
+}
+
+export function useRenameLedger() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ ledgerId, name }: { ledgerId: string; name: string }) => {
+      const { error } = await supabase.from('ledgers').update({ name }).eq('id', ledgerId);
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ledgerKeys.all })
+  });
+}
+
+export function useInviteToLedger() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ ledgerId, email, role }: { ledgerId: string; email: string; role: LedgerRole }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('You are signed out');
+
+      const { data, error } = await supabase
+        .from('ledger_invitations')
+        .insert({ ledger_id: ledgerId, email, role, invited_by: user.id })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSettled: (_data, _error, { ledgerId }) =>
+      queryClient.invalidateQueries({ queryKey: ledgerKeys.invitations(ledgerId) })
+  });
+}
+
+export function useRevokeInvitation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (invitation: LedgerInvitation) => {
+      const { error } = await supabase.from('ledger_invitations').delete().eq('id', invitation.id);
+      if (error) throw error;
+    },
+    onSettled: (_data, _error, invitation) =>
+      queryClient.invalidateQueries({ queryKey: ledgerKeys.invitations(invitation.ledger_id) })
+  });
+}
+
+export function useChangeMemberRole() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ member, role }: { member: LedgerMember; role: LedgerRole }) => {
+      const { error } = await supabase
+        .from('ledger_members')
+        .update({ role })
+        .eq('ledger_id', member.ledger_id)
+        .eq('user_id', member.user_id);
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ledgerKeys.all })
+  });
+}
+
+// Lets a member review expense claims, or stops them
+export function useSetClaimApprover() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ member, canApprove }: { member: LedgerMember; canApprove: boolean }) => {
+      const { error } = await supabase
+        .from('ledger_members')
+        .update({ can_approve: canApprove })
+        .eq('ledger_id', member.ledger_id)
+        .eq('user_id', member.user_id);
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ledgerKeys.all })
+  });
+}
+
+// Removes someone from a ledger; removing yourself leaves it
+export function useRemoveMember() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (member: LedgerMember) => {
+      const { error } = await supabase
+        .from('ledger_members')
+        .delete()
+        .eq('ledger_id', member.ledger_id)
+        .eq('user_id', member.user_id);
+      if (error) throw error;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ledgerKeys.all })
+  });
+}
+
+// What the invitation behind a link is for, or null when there is none
+export function useInvitation(token: string) {
+  return useQuery({
+    queryKey: ledgerKeys.invitation(token),
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_ledger_invitation', { _token: token });
+      if (error) throw error;
+      return data?.[0] ?? null;
+    }
+  });
+}
+
+// Joins the invitation's ledger and switches to it
+export function useAcceptInvitation() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const { data, error } = await supabase.rpc('accept_ledger_invitation', { _token: token });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: async (ledgerId) => {
+      await queryClient.invalidateQueries({ queryKey: ledgerKeys.all });
+      storeLedgerId(ledgerId);
+    }
+  });
+}
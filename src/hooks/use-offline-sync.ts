@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { endLocalWrite, expenseKeys, startLocalWrite } from '@/hooks/use-expenses';
+import { getOutbox, isNetworkError, removeFromOutbox, replayChange, subscribeOutbox } from '@/lib/outbox';
+
+// Connectivity and the expense changes waiting in the outbox, which are
+// replayed whenever the connection comes back
+export function useOfflineSync() {
+  const queryClient = useQueryClient();
+  const [online, setOnline] = useState(navigator.onLine);
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+
+  const refreshPending = useCallback(async () => {
+    const outbox = await getOutbox();
+    setPendingIds(new Set(outbox.map(entry => entry.id)));
+  }, []);
+
+  const sync = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine) return;
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    const outbox = (await getOutbox()).filter(entry => entry.userId === session.user.id);
+    if (outbox.length === 0) return;
+
+    syncingRef.current = true;
+    setSyncing(true);
+    let synced = 0;
+    let overridden = 0;
+    const failed: string[] = [];
+    // Parts of synced changes that could not be written after their row
+    const incomplete: string[] = [];
+    try {
+      for (const entry of outbox) {
+        startLocalWrite(entry.id);
+        try {
+          const result = await replayChange(entry);
+          if (result.outcome === 'synced') {
+            synced++;
+            incomplete.push(...result.failedParts);
+          } else {
+            overridden++;
+          }
+          await removeFromOutbox(entry.id);
+        } catch (error) {
+          // Lost the connection again: keep this and the rest for next time
+          if (isNetworkError(error as Error)) break;
+          // Rejected by the server: retrying will not help
+          failed.push((error as Error).message);
+          await removeFromOutbox(entry.id);
+        } finally {
+          endLocalWrite(entry.id);
+        }
+      }
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+
+    await queryClient.invalidateQueries({ queryKey: expenseKeys.all });
+
+    if (synced > 0) {
+      toast({
+        title: "Offline changes synced",
+        description: `${synced} ${synced === 1 ? 'change was' : 'changes were'} saved.`,
+      });
+    }
+    if (overridden > 0) {
+      toast({
+        title: "Newer changes kept",
+        description: `${overridden} offline ${overridden === 1 ? 'change was' : 'changes were'} skipped because the expense was changed or deleted elsewhere later.`,
+      });
+    }
+    if (incomplete.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Some offline changes were saved incompletely",
+        description: "The expenses were saved, but not all of their details: " + incomplete.join('. '),
+      });
+    }
+    if (failed.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Some offline changes could not be saved",
+        description: failed.join('. '),
+      });
+    }
+  }, [queryClient]);
+
+  useEffect(() => {
+    refreshPending();
+    return subscribeOutbox(refreshPending);
+  }, [refreshPending]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    sync();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  return { online, pendingIds, syncing, sync };
+}
@@ -0,0 +1,37 @@
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+// Multi-select over a list of ids in display order. A shift-click sets every
+// row between the previously clicked one and this one to this row's new state.
+// Ids that leave the list drop out of the selection.
+export function useSelection(ids: string[]) {
+  const [picked, setPicked] = useState<Set<string>>(new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  const selected = useMemo(() => new Set(ids.filter(id => picked.has(id))), [ids, picked]);
+
+  const toggle = useCallback((id: string, extendRange = false) => {
+    // Read before it moves on; the updater may run after this call returns
+    const anchorId = extendRange ? anchorRef.current : null;
+    setPicked(prev => {
+      const next = new Set(prev);
+      const select = !prev.has(id);
+      const anchor = anchorId ? ids.indexOf(anchorId) : -1;
+      const target = ids.indexOf(id);
+      const range = anchor === -1 || target === -1
+        ? [id]
+        : ids.slice(Math.min(anchor, target), Math.max(anchor, target) + 1);
+      range.forEach(item => (select ? next.add(item) : next.delete(item)));
+      return next;
+    });
+    anchorRef.current = id;
+  }, [ids]);
+
+  const selectAll = useCallback(() => setPicked(new Set(ids)), [ids]);
+
+  const clear = useCallback(() => {
+    setPicked(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  return { selected, toggle, selectAll, clear };
+}
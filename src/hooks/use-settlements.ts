@@ -0,0 +1,75 @@
+import { QueryClient, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { expenseKeys } from '@/hooks/use-expenses';
+import { Balance, Settlement } from '@/lib/splits';
+
+export const settlementKeys = {
+  all: ['settlements'] as const,
+  ledger: (ledgerId: string) => [...settlementKeys.all, ledgerId] as const
+};
+
+// Who is owed and who owes in a ledger, from its split expenses and the
+// settlements recorded so far
+export function useLedgerBalances(ledgerId: string, { enabled = true } = {}) {
+  return useQuery({
+    queryKey: expenseKeys.balances(ledgerId),
+    queryFn: async (): Promise<Balance[]> => {
+      const { data, error } = await supabase.rpc('ledger_balances', { _ledger_id: ledgerId });
+      if (error) throw error;
+      return (data || []).map(row => ({ userId: row.user_id, currency: row.currency, amount: row.balance }));
+    },
+    enabled
+  });
+}
+
+// Settlements of a ledger, most recent first
+export function useSettlements(ledgerId: string, { enabled = true } = {}) {
+  return useQuery({
+    queryKey: settlementKeys.ledger(ledgerId),
+    queryFn: async (): Promise<Settlement[]> => {
+      const { data, error } = await supabase
+        .from('settlements')
+        .select('*')
+        .eq('ledger_id', ledgerId)
+        .order('date', { ascending: false })
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled
+  });
+}
+
+type NewSettlement = Pick<Settlement, 'ledger_id' | 'from_user' | 'to_user' | 'amount' | 'currency' | 'date' | 'note'>;
+
+const invalidateSettlements = (queryClient: QueryClient, ledgerId: string) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: settlementKeys.ledger(ledgerId) }),
+    queryClient.invalidateQueries({ queryKey: expenseKeys.balances(ledgerId) })
+  ]);
+
+// Records a payment between two members, which moves both balances
+export function useRecordSettlement() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (settlement: NewSettlement) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('You are signed out');
+
+      const { error } = await supabase.from('settlements').insert({ ...settlement, user_id: user.id });
+      if (error) throw error;
+    },
+    onSettled: (_data, _error, settlement) => invalidateSettlements(queryClient, settlement.ledger_id)
+  });
+}
+
+export function useDeleteSettlement() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (settlement: Settlement) => {
+      const { error } = await supabase.from('settlements').delete().eq('id', settlement.id);
+      if (error) throw error;
+    },
+    onSettled: (_data, _error, settlement) => invalidateSettlements(queryClient, settlement.ledger_id)
+  });
+}
@@ -0,0 +1,69 @@
+import { useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Tag } from '@/lib/tags';
+
+export const tagKeys = {
+  all: ['tags'] as const,
+  ledger: (ledgerId: string) => [...tagKeys.all, ledgerId] as const
+};
+
+// Tags of a ledger by name, with a lookup from id to name
+export function useTags(ledgerId: string, { enabled = true } = {}) {
+  const query = useQuery({
+    queryKey: tagKeys.ledger(ledgerId),
+    queryFn: async (): Promise<Tag[]> => {
+      const { data, error } = await supabase.from('tags').select('*').eq('ledger_id', ledgerId).order('name');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled
+  });
+
+  const tags = useMemo(() => query.data ?? [], [query.data]);
+
+  const byId = useMemo(() => new Map(tags.map(tag => [tag.id, tag])), [tags]);
+
+  const nameOf = useCallback((id: string) => byId.get(id)?.name, [byId]);
+
+  return { tags, nameOf, loading: query.isPending, error: query.error };
+}
+
+// Ids for tag names in a ledger, creating the tags that do not exist yet.
+// Existing tags resolve from the cache, so only new ones need a connection.
+export function useResolveTags(ledgerId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    networkMode: 'always',
+    mutationFn: async (names: string[]): Promise<string[]> => {
+      const cached = queryClient.getQueryData<Tag[]>(tagKeys.ledger(ledgerId)) ?? [];
+      const known = new Map(cached.map(tag => [tag.name, tag.id]));
+      const missing = names.filter(name => !known.has(name));
+      if (missing.length > 0) {
+        if (!navigator.onLine) throw new Error('New tags can only be created while online');
+
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session) throw new Error('You are signed out');
+
+        // A tag created meanwhile on another device is reused
+        const { error: insertError } = await supabase
+          .from('tags')
+          .upsert(
+            missing.map(name => ({ name, ledger_id: ledgerId, user_id: session.user.id })),
+            { onConflict: 'ledger_id,name', ignoreDuplicates: true }
+          );
+        if (insertError) throw insertError;
+
+        const { data, error } = await supabase
+          .from('tags')
+          .select('id, name')
+          .eq('ledger_id', ledgerId)
+          .in('name', missing);
+        if (error) throw error;
+        (data || []).forEach(tag => known.set(tag.name, tag.id));
+        await queryClient.invalidateQueries({ queryKey: tagKeys.ledger(ledgerId) });
+      }
+      return names.map(name => known.get(name)).filter((id): id is string => id !== undefined);
+    }
+  });
+}
@@ -14,34 +14,686 @@ export type Database = {
   }
   public: {
     Tables: {
+      budgets: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          id: string
+          ledger_id: string
+          period: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category: string
+          created_at?: string
+          id?: string
+          ledger_id: string
+          period?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          id?: string
+          ledger_id?: string
+          period?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "budgets_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          archived: boolean
+          color: string
+          created_at: string
+          icon: string
+          id: string
+          kind: string
+          ledger_id: string
+          name: string
+          parent_id: string | null
+          sort_order: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          archived?: boolean
+          color?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          kind?: string
+          ledger_id: string
+          name: string
+          parent_id?: string | null
+          sort_order?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          archived?: boolean
+          color?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          kind?: string
+          ledger_id?: string
+          name?: string
+          parent_id?: string | null
+          sort_order?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      claims: {
+        Row: {
+          created_at: string
+          id: string
+          ledger_id: string
+          reimbursed_at: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          submitted_at: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ledger_id: string
+          reimbursed_at?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ledger_id?: string
+          reimbursed_at?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          submitted_at?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "claims_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          currency: string
+          date: string
+          id: string
+          quote_currency: string
+          rate: number
+          source: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          date?: string
+          id?: string
+          quote_currency: string
+          rate: number
+          source?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          date?: string
+          id?: string
+          quote_currency?: string
+          rate?: number
+          source?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      expense_attachments: {
+        Row: {
+          created_at: string
+          expense_id: string
+          file_name: string
+          id: string
+          mime_type: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expense_id: string
+          file_name: string
+          id?: string
+          mime_type: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expense_id?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          size_bytes?: number
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_attachments_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_splits: {
+        Row: {
+          amount: number
+          created_at: string
+          expense_id: string
+          share: number
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          expense_id: string
+          share: number
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          expense_id?: string
+          share?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_splits_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_tags: {
+        Row: {
+          created_at: string
+          expense_id: string
+          tag_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expense_id: string
+          tag_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expense_id?: string
+          tag_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_tags_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expense_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       expenses: {
         Row: {
           amount: number
+          anomaly_flags: string[] | null
           category: string | null
+          claim_id: string | null
           created_at: string
+          currency: string
           date: string
+          deleted_at: string | null
           description: string | null
+          description_search: unknown
           id: string
+          ledger_id: string
+          occurrence_date: string | null
+          paid_by: string | null
+          recurring_expense_id: string | null
+          split_method: string | null
+          type: string
           updated_at: string
           user_id: string
         }
         Insert: {
           amount: number
+          anomaly_flags?: string[] | null
           category?: string | null
+          claim_id?: string | null
           created_at?: string
+          currency?: string
           date?: string
+          deleted_at?: string | null
           description?: string | null
+          description_search?: never
           id?: string
+          ledger_id: string
+          occurrence_date?: string | null
+          paid_by?: string | null
+          recurring_expense_id?: string | null
+          split_method?: string | null
+          type?: string
           updated_at?: string
           user_id: string
         }
         Update: {
           amount?: number
+          anomaly_flags?: string[] | null
           category?: string | null
+          claim_id?: string | null
           created_at?: string
+          currency?: string
           date?: string
+          deleted_at?: string | null
           description?: string | null
+          description_search?: never
           id?: string
+          ledger_id?: string
+          occurrence_date?: string | null
+          paid_by?: string | null
+          recurring_expense_id?: string | null
+          split_method?: string | null
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_recurring_expense_id_fkey"
+            columns: ["recurring_expense_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_expenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string
+          ledger_id: string
+          role: string
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by: string
+          ledger_id: string
+          role: string
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string
+          ledger_id?: string
+          role?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_invitations_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_members: {
+        Row: {
+          can_approve: boolean
+          created_at: string
+          email: string
+          ledger_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          can_approve?: boolean
+          created_at?: string
+          email: string
+          ledger_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          can_approve?: boolean
+          created_at?: string
+          email?: string
+          ledger_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_members_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledgers: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      receipt_cleanup: {
+        Row: {
+          created_at: string
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      recurring_expenses: {
+        Row: {
+          amount: number
+          category: string | null
+          created_at: string
+          currency: string
+          day_of_month: number | null
+          description: string | null
+          end_date: string | null
+          frequency: string
+          id: string
+          interval: number
+          last_generated_date: string | null
+          ledger_id: string
+          paused: boolean
+          skipped_dates: string[]
+          start_date: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category?: string | null
+          created_at?: string
+          currency?: string
+          day_of_month?: number | null
+          description?: string | null
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          interval?: number
+          last_generated_date?: string | null
+          ledger_id: string
+          paused?: boolean
+          skipped_dates?: string[]
+          start_date?: string
+          type?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string | null
+          created_at?: string
+          currency?: string
+          day_of_month?: number | null
+          description?: string | null
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          interval?: number
+          last_generated_date?: string | null
+          ledger_id?: string
+          paused?: boolean
+          skipped_dates?: string[]
+          start_date?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_expenses_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      settlements: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          date: string
+          from_user: string
+          id: string
+          ledger_id: string
+          note: string | null
+          to_user: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency: string
+          date?: string
+          from_user: string
+          id?: string
+          ledger_id: string
+          note?: string | null
+          to_user: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          date?: string
+          from_user?: string
+          id?: string
+          ledger_id?: string
+          note?: string | null
+          to_user?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "settlements_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          id: string
+          ledger_id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ledger_id: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ledger_id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tags_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_settings: {
+        Row: {
+          base_currency: string
+          created_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          base_currency?: string
+          created_at?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
           updated_at?: string
           user_id?: string
         }
@@ -49,10 +701,237 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      active_expenses: {
+        Row: {
+          amount: number | null
+          anomaly_flags: string[] | null
+          category: string | null
+          claim_id: string | null
+          created_at: string | null
+          currency: string | null
+          date: string | null
+          deleted_at: string | null
+          description: string | null
+          description_search: unknown | null
+          id: string | null
+          ledger_id: string | null
+          occurrence_date: string | null
+          paid_by: string | null
+          recurring_expense_id: string | null
+          split_method: string | null
+          type: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_recurring_expense_id_fkey"
+            columns: ["recurring_expense_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_expenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deleted_expenses: {
+        Row: {
+          amount: number | null
+          anomaly_flags: string[] | null
+          category: string | null
+          claim_id: string | null
+          created_at: string | null
+          currency: string | null
+          date: string | null
+          deleted_at: string | null
+          description: string | null
+          description_search: unknown | null
+          id: string | null
+          ledger_id: string | null
+          occurrence_date: string | null
+          paid_by: string | null
+          recurring_expense_id: string | null
+          split_method: string | null
+          type: string | null
+          updated_at: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_claim_id_fkey"
+            columns: ["claim_id"]
+            isOneToOne: false
+            referencedRelation: "claims"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_ledger_id_fkey"
+            columns: ["ledger_id"]
+            isOneToOne: false
+            referencedRelation: "ledgers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_recurring_expense_id_fkey"
+            columns: ["recurring_expense_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_expenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      accept_ledger_invitation: {
+        Args: {
+          _token: string
+        }
+        Returns: string
+      }
+      create_ledger: {
+        Args: {
+          _name: string
+        }
+        Returns: string
+      }
+      expense_daily_totals: {
+        Args: {
+          _amount_filters?: Json
+          _categories?: string[]
+          _currency?: string
+          _from?: string
+          _ledger_id?: string
+          _search?: string
+          _tags?: string[]
+          _to?: string
+          _type?: string
+        }
+        Returns: {
+          amount: number
+          category: string
+          currency: string
+          date: string
+          entry_count: number
+          type: string
+        }[]
+      }
+      expense_tag_totals: {
+        Args: {
+          _amount_filters?: Json
+          _categories?: string[]
+          _currency?: string
+          _from?: string
+          _ledger_id?: string
+          _search?: string
+          _tags?: string[]
+          _to?: string
+          _type?: string
+        }
+        Returns: {
+          amount: number
+          currency: string
+          date: string
+          entry_count: number
+          tag_id: string
+          type: string
+        }[]
+      }
+      filtered_expenses: {
+        Args: {
+          _amount_filters?: Json
+          _categories?: string[]
+          _currency?: string
+          _from?: string
+          _ledger_id?: string
+          _search?: string
+          _tags?: string[]
+          _to?: string
+          _type?: string
+        }
+        Returns: {
+          amount: number | null
+          category: string | null
+          created_at: string | null
+          currency: string | null
+          date: string | null
+          deleted_at: string | null
+          description: string | null
+          description_search: unknown | null
+          id: string | null
+          occurrence_date: string | null
+          recurring_expense_id: string | null
+          type: string | null
+          updated_at: string | null
+          user_id: string | null
+        }[]
+      }
+      get_ledger_invitation: {
+        Args: {
+          _token: string
+        }
+        Returns: {
+          accepted_at: string
+          email: string
+          expires_at: string
+          ledger_id: string
+          ledger_name: string
+          role: string
+        }[]
+      }
+      is_claim_approver: {
+        Args: {
+          _ledger_id: string
+        }
+        Returns: boolean
+      }
+      ledger_balances: {
+        Args: {
+          _ledger_id: string
+        }
+        Returns: {
+          balance: number
+          currency: string
+          user_id: string
+        }[]
+      }
+      ledger_role: {
+        Args: {
+          _ledger_id: string
+        }
+        Returns: string
+      }
+      purge_deleted_expenses: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      set_claim_status: {
+        Args: {
+          _claim_id: string
+          _comment?: string
+          _status: string
+        }
+        Returns: undefined
+      }
+      shift_expense_dates: {
+        Args: {
+          _days: number
+          _ids: string[]
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,168 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Converter, formatMoney } from '@/lib/currency';
+import { addDays, parseDateKey } from '@/lib/dates';
+
+export type AnomalyFlag = 'amount' | 'frequency' | 'duplicate';
+
+export const ANOMALY_FLAGS: Record<AnomalyFlag, string> = {
+  amount: 'Unusual amount',
+  frequency: 'Unusually frequent',
+  duplicate: 'Possible duplicate'
+};
+
+export interface Anomaly {
+  flag: AnomalyFlag;
+  detail: string;
+}
+
+export interface AnomalyHistoryEntry {
+  id: string;
+  amount: number;
+  currency: string;
+  description: string;
+  date: string;
+}
+
+interface AnomalyEntry {
+  amount: number;
+  currency: string;
+  category: string;
+  description: string;
+  date: string;
+}
+
+// How far back an expense is compared
+const HISTORY_DAYS = 365;
+// Fewer earlier expenses than this say too little about what is usual
+const MIN_AMOUNT_HISTORY = 5;
+const Z_SCORE_LIMIT = 3;
+// Multiples of the interquartile range beyond the quartiles that count as far out
+const IQR_FENCE = 3;
+// Share of the median an outlier must at least differ by, so a category
+// that always costs the same is not flagged over a few cents
+const MIN_AMOUNT_DEVIATION = 0.5;
+const FREQUENCY_WINDOW_DAYS = 7;
+const FREQUENCY_MIN_COUNT = 3;
+const FREQUENCY_RATIO = 3;
+// History the usual frequency is measured over before it is trusted
+const MIN_FREQUENCY_HISTORY_DAYS = 28;
+// A same charge within 48 hours is likely entered twice
+const DUPLICATE_DAYS = 2;
+
+export const isAnomalyFlag = (value: string): value is AnomalyFlag => value in ANOMALY_FLAGS;
+
+// Earlier expenses of the ledger in a category, around `date`, to compare a
+// new or edited one with. Every member's expenses count, so a charge two
+// members both entered is caught too.
+export const fetchAnomalyHistory = async (
+  ledgerId: string,
+  category: string,
+  date: string,
+  excludeId?: string
+): Promise<AnomalyHistoryEntry[]> => {
+  let query = supabase
+    .from('expenses')
+    .select('id, amount, currency, description, date')
+    .eq('ledger_id', ledgerId)
+    .eq('category', category)
+    .eq('type', 'expense')
+    .is('deleted_at', null)
+    .gte('date', addDays(date, -HISTORY_DAYS))
+    .lte('date', addDays(date, DUPLICATE_DAYS));
+  if (excludeId) query = query.neq('id', excludeId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+const daysBetween = (a: string, b: string) =>
+  Math.round((parseDateKey(b).getTime() - parseDateKey(a).getTime()) / 86400000);
+
+const quantile = (sorted: number[], q: number) => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const normalizeDescription = (description: string) => description.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// An amount far from what the category usually costs, by z-score or by the
+// interquartile range, e.g. a typo with a zero too many
+const amountAnomaly = (amount: number, amounts: number[], category: string, currency: string): Anomaly | null => {
+  if (amounts.length < MIN_AMOUNT_HISTORY) return null;
+  const sorted = [...amounts].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const deviation = Math.sqrt(sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const median = quantile(sorted, 0.5);
+  const iqr = q3 - q1;
+
+  const zOutlier = deviation > 0 ? Math.abs(amount - mean) / deviation > Z_SCORE_LIMIT : amount !== mean;
+  const iqrOutlier = amount < q1 - IQR_FENCE * iqr || amount > q3 + IQR_FENCE * iqr;
+  if (!(zOutlier || iqrOutlier) || Math.abs(amount - median) <= median * MIN_AMOUNT_DEVIATION) return null;
+
+  const usual = q1 === q3 ? formatMoney(median, currency) : `${formatMoney(q1, currency)}–${formatMoney(q3, currency)}`;
+  return {
+    flag: 'amount',
+    detail: `${formatMoney(amount, currency)} is far from the usual ${usual} for ${category}.`
+  };
+};
+
+// More expenses in the category over the past week than it usually sees
+const frequencyAnomaly = (entry: AnomalyEntry, history: AnomalyHistoryEntry[]): Anomaly | null => {
+  const windowStart = addDays(entry.date, 1 - FREQUENCY_WINDOW_DAYS);
+  const recent = history.filter(item => item.date >= windowStart && item.date <= entry.date).length + 1;
+  const earlier = history.filter(item => item.date < windowStart);
+  if (recent < FREQUENCY_MIN_COUNT || earlier.length === 0) return null;
+
+  const first = earlier.reduce((min, item) => (item.date < min ? item.date : min), earlier[0].date);
+  const span = daysBetween(first, windowStart);
+  if (span < MIN_FREQUENCY_HISTORY_DAYS) return null;
+
+  const weekly = (earlier.length / span) * FREQUENCY_WINDOW_DAYS;
+  if (recent <= weekly * FREQUENCY_RATIO) return null;
+  return {
+    flag: 'frequency',
+    detail: `${recent} ${entry.category} expenses in ${FREQUENCY_WINDOW_DAYS} days; usually about ${weekly.toFixed(1)} a week.`
+  };
+};
+
+// The same amount within 48 hours, with the same description or on the same day
+const duplicateAnomaly = (entry: AnomalyEntry, history: AnomalyHistoryEntry[]): Anomaly | null => {
+  const description = normalizeDescription(entry.description);
+  const match = history.find(item =>
+    item.currency === entry.currency &&
+    Math.abs(item.amount - entry.amount) < 0.005 &&
+    Math.abs(daysBetween(item.date, entry.date)) <= DUPLICATE_DAYS &&
+    (item.date === entry.date || normalizeDescription(item.description) === description)
+  );
+  if (!match) return null;
+  return {
+    flag: 'duplicate',
+    detail: `Looks like "${match.description}" (${formatMoney(match.amount, match.currency)}) on ${match.date}.`
+  };
+};
+
+// What is unusual about an expense compared with `history` of its category.
+// Amounts are compared in `baseCurrency`; ones without a rate are left out.
+export const detectAnomalies = (
+  entry: AnomalyEntry,
+  history: AnomalyHistoryEntry[],
+  convert: Converter,
+  baseCurrency: string
+): Anomaly[] => {
+  const amount = convert(entry.amount, entry.currency, entry.date);
+  const amounts = history
+    .filter(item => item.date <= entry.date)
+    .map(item => convert(item.amount, item.currency, item.date))
+    .filter((value): value is number => value !== null);
+
+  return [
+    amount === null ? null : amountAnomaly(amount, amounts, entry.category, baseCurrency),
+    frequencyAnomaly(entry, history),
+    duplicateAnomaly(entry, history)
+  ].filter((anomaly): anomaly is Anomaly => anomaly !== null);
+};
@@ -0,0 +1,107 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+
+export type ExpenseAttachment = Tables<'expense_attachments'>;
+
+export const RECEIPTS_BUCKET = 'receipts';
+
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+
+export const RECEIPT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+
+// Signed URLs are generated on demand; an hour covers a normal session
+export const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export const isImageAttachment = (attachment: Pick<ExpenseAttachment, 'mime_type'>) =>
+  attachment.mime_type.startsWith('image/');
+
+// Reason a file cannot be attached, or null when it is acceptable
+export const validateReceipt = (file: File): string | null => {
+  if (!RECEIPT_MIME_TYPES.includes(file.type)) return `${file.name} is not an image or PDF`;
+  if (file.size > MAX_RECEIPT_BYTES) return `${file.name} is larger than 10 MB`;
+  return null;
+};
+
+const safeFileName = (name: string) => name.replace(/[^\w.-]+/g, '_').slice(-100);
+
+// Upload receipts into `<user_id>/<expense_id>/` and record them in expense_attachments.
+// Files already uploaded are removed again if recording them fails.
+export const uploadReceipts = async (userId: string, expenseId: string, files: File[]): Promise<void> => {
+  const uploaded: { path: string; file: File }[] = [];
+
+  try {
+    for (const file of files) {
+      const path = `${userId}/${expenseId}/${crypto.randomUUID()}-${safeFileName(file.name)}`;
+      const { error } = await supabase.storage
+        .from(RECEIPTS_BUCKET)
+        .upload(path, file, { contentType: file.type });
+      if (error) throw error;
+      uploaded.push({ path, file });
+    }
+
+    const { error } = await supabase
+      .from('expense_attachments')
+      .insert(uploaded.map(({ path, file }) => ({
+        expense_id: expenseId,
+        user_id: userId,
+        storage_path: path,
+        file_name: file.name,
+        mime_type: file.type,
+        size_bytes: file.size
+      })));
+    if (error) throw error;
+  } catch (error) {
+    if (uploaded.length > 0) {
+      await supabase.storage.from(RECEIPTS_BUCKET).remove(uploaded.map(({ path }) => path));
+    }
+    throw error;
+  }
+};
+
+// Delete stored files; their attachment rows go with the expense via ON DELETE CASCADE
+export const removeReceiptFiles = async (paths: string[]): Promise<void> => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from(RECEIPTS_BUCKET).remove(paths);
+  if (error) throw error;
+};
+
+// Files queued for removal at most per load
+const RECEIPT_CLEANUP_BATCH = 100;
+
+// Remove the signed-in user's receipt files whose expense was purged or
+// whose ledger was deleted since; the database queues them as it drops the
+// attachment rows. Files left over are removed on a later call.
+export const removeQueuedReceipts = async (): Promise<void> => {
+  const { data, error } = await supabase
+    .from('receipt_cleanup')
+    .select('storage_path')
+    .limit(RECEIPT_CLEANUP_BATCH);
+  if (error) throw error;
+
+  const paths = (data || []).map(row => row.storage_path);
+  if (paths.length === 0) return;
+  await removeReceiptFiles(paths);
+  const { error: deleteError } = await supabase.from('receipt_cleanup').delete().in('storage_path', paths);
+  if (deleteError) throw deleteError;
+};
+
+export const deleteAttachment = async (attachment: ExpenseAttachment): Promise<void> => {
+  const { error } = await supabase
+    .from('expense_attachments')
+    .delete()
+    .eq('id', attachment.id);
+  if (error) throw error;
+  await removeReceiptFiles([attachment.storage_path]);
+};
+
+export const createReceiptUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  if (paths.length === 0) return {};
+  const { data, error } = await supabase.storage
+    .from(RECEIPTS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+  if (error) throw error;
+  return (data || []).reduce((acc, item) => {
+    if (item.path && item.signedUrl) acc[item.path] = item.signedUrl;
+    return acc;
+  }, {} as Record<string, string>);
+};
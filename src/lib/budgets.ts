@@ -0,0 +1,79 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { CategoryMatcher, sameCategory } from '@/lib/categories';
+import { toDateKey } from '@/lib/dates';
+
+export type Budget = Tables<'budgets'>;
+
+export type BudgetPeriod = 'weekly' | 'monthly' | 'yearly';
+
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+export const BUDGET_PERIODS: { value: BudgetPeriod; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+  { value: 'yearly', label: 'Yearly' }
+];
+
+// Share of the limit at which a budget is flagged amber
+export const BUDGET_WARNING_RATIO = 0.8;
+
+interface SpendEntry {
+  amount: number;
+  category: string;
+  date: string;
+}
+
+// First day (inclusive) of the period that contains `now`; weeks start on Monday
+export const getPeriodStart = (period: BudgetPeriod, now: Date = new Date()): string => {
+  switch (period) {
+    case 'weekly': {
+      const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+      return toDateKey(start);
+    }
+    case 'yearly':
+      return toDateKey(new Date(now.getFullYear(), 0, 1));
+    case 'monthly':
+    default:
+      return toDateKey(new Date(now.getFullYear(), now.getMonth(), 1));
+  }
+};
+
+// Sum of a category's expenses falling in the current period of a budget.
+// Pass a matcher from the category tree to include sub-categories.
+export const getPeriodSpend = (
+  expenses: SpendEntry[],
+  category: string,
+  period: BudgetPeriod,
+  belongsTo: CategoryMatcher = sameCategory,
+  now: Date = new Date()
+): number => {
+  const start = getPeriodStart(period, now);
+  const end = toDateKey(now);
+  return expenses
+    .filter(exp => belongsTo(exp.category, category) && exp.date >= start && exp.date <= end)
+    .reduce((sum, exp) => sum + exp.amount, 0);
+};
+
+export const getBudgetStatus = (spent: number, limit: number): BudgetStatus => {
+  if (spent > limit) return 'over';
+  if (spent >= limit * BUDGET_WARNING_RATIO) return 'warning';
+  return 'ok';
+};
+
+// Budgets whose limit is crossed by adding `entry` on top of `expenses`
+export const findExceededBudgets = (
+  budgets: Budget[],
+  expenses: SpendEntry[],
+  entry: SpendEntry,
+  belongsTo: CategoryMatcher = sameCategory,
+  now: Date = new Date()
+): Budget[] => {
+  return budgets.filter(budget => {
+    if (!belongsTo(entry.category, budget.category)) return false;
+    const period = budget.period as BudgetPeriod;
+    if (entry.date < getPeriodStart(period, now) || entry.date > toDateKey(now)) return false;
+    const before = getPeriodSpend(expenses, budget.category, period, belongsTo, now);
+    return before <= budget.amount && before + entry.amount > budget.amount;
+  });
+};
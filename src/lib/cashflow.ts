@@ -0,0 +1,50 @@
+import { parseDateKey } from '@/lib/dates';
+
+export type EntryType = 'expense' | 'income';
+
+export const ENTRY_TYPES: { value: EntryType; label: string }[] = [
+  { value: 'expense', label: 'Expense' },
+  { value: 'income', label: 'Income' }
+];
+
+export interface CashFlowMonth {
+  monthKey: string;
+  month: string;
+  income: number;
+  expense: number;
+  net: number;
+}
+
+interface CashFlowEntry {
+  amount: number;
+  date: string;
+  type: string;
+}
+
+export const isIncome = (entry: { type: string }) => entry.type === 'income';
+
+// Income, spending and their difference per calendar month, oldest first
+export const getMonthlyCashFlow = (entries: CashFlowEntry[]): CashFlowMonth[] => {
+  const months = entries.reduce((acc, entry) => {
+    const monthKey = entry.date.slice(0, 7);
+    const month = acc.get(monthKey) ?? {
+      monthKey,
+      month: parseDateKey(`${monthKey}-01`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+      income: 0,
+      expense: 0,
+      net: 0
+    };
+    if (isIncome(entry)) month.income += entry.amount;
+    else month.expense += entry.amount;
+    month.net = month.income - month.expense;
+    acc.set(monthKey, month);
+    return acc;
+  }, new Map<string, CashFlowMonth>());
+
+  return [...months.values()].sort((a, b) => a.monthKey.localeCompare(b.monthKey));
+};
+
+// Share of income left after spending; null when there is no income to
+// measure against
+export const getSavingsRate = (income: number, expense: number): number | null =>
+  income > 0 ? (income - expense) / income : null;
@@ -0,0 +1,193 @@
+import {
+  Baby,
+  Briefcase,
+  Car,
+  Coffee,
+  Dumbbell,
+  Film,
+  Fuel,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  LucideIcon,
+  PawPrint,
+  Plane,
+  Receipt,
+  Shirt,
+  ShoppingBag,
+  ShoppingCart,
+  Smartphone,
+  Tag,
+  Utensils,
+  Wifi,
+  Wrench,
+  Zap
+} from 'lucide-react';
+import { Tables } from '@/integrations/supabase/types';
+
+export type Category = Tables<'categories'>;
+
+// Same hues the charts used before colors were stored per category
+export const CATEGORY_COLORS = [
+  '#3182ed',
+  '#16a249',
+  '#f59f0a',
+  '#ef4343',
+  '#7c3bed',
+  '#2a9d90',
+  '#d9a520',
+  '#6aabf0',
+  '#db2979',
+  '#f97415'
+];
+
+export const DEFAULT_CATEGORY_ICON = 'tag';
+
+// Icons a category can pick from, keyed by the lucide name stored in `categories.icon`
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  tag: Tag,
+  utensils: Utensils,
+  coffee: Coffee,
+  'shopping-cart': ShoppingCart,
+  'shopping-bag': ShoppingBag,
+  shirt: Shirt,
+  car: Car,
+  fuel: Fuel,
+  plane: Plane,
+  home: Home,
+  zap: Zap,
+  wifi: Wifi,
+  smartphone: Smartphone,
+  'heart-pulse': HeartPulse,
+  dumbbell: Dumbbell,
+  film: Film,
+  gift: Gift,
+  'graduation-cap': GraduationCap,
+  baby: Baby,
+  'paw-print': PawPrint,
+  briefcase: Briefcase,
+  receipt: Receipt,
+  wrench: Wrench
+};
+
+export const categoryIcon = (icon: string | null | undefined): LucideIcon =>
+  (icon && CATEGORY_ICONS[icon]) || Tag;
+
+// Color for a name that has no categories row (e.g. an old import), derived
+// from the name so it does not change between renders
+export const fallbackCategoryColor = (name: string): string => {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return CATEGORY_COLORS[Math.abs(hash) % CATEGORY_COLORS.length];
+};
+
+// Palette color not yet taken by any of the given categories, so a newly
+// added category stands apart from the existing ones where possible
+export const nextCategoryColor = (categories: Category[]): string => {
+  const used = new Set(categories.map(category => category.color.toLowerCase()));
+  return CATEGORY_COLORS.find(color => !used.has(color))
+    ?? CATEGORY_COLORS[categories.length % CATEGORY_COLORS.length];
+};
+
+export const sortCategories = (categories: Category[]): Category[] =>
+  [...categories].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+
+export interface CategoryNode {
+  category: Category;
+  depth: number;
+  children: CategoryNode[];
+}
+
+// Nest categories under their parents; a category whose parent is missing
+// from the list (e.g. archived and filtered out) is shown at the top level
+export const buildCategoryTree = (categories: Category[]): CategoryNode[] => {
+  const ids = new Set(categories.map(category => category.id));
+  const childrenOf = new Map<string | null, Category[]>();
+  sortCategories(categories).forEach(category => {
+    const parent = category.parent_id && ids.has(category.parent_id) ? category.parent_id : null;
+    childrenOf.set(parent, [...(childrenOf.get(parent) ?? []), category]);
+  });
+
+  const build = (parent: string | null, depth: number): CategoryNode[] =>
+    (childrenOf.get(parent) ?? []).map(category => ({
+      category,
+      depth,
+      children: build(category.id, depth + 1)
+    }));
+
+  return build(null, 0);
+};
+
+// Depth-first list of a tree, parents before their children
+export const flattenCategoryTree = (nodes: CategoryNode[]): CategoryNode[] =>
+  nodes.flatMap(node => [node, ...flattenCategoryTree(node.children)]);
+
+// Names from the top-level category down to `name` itself. Names without a
+// categories row are their own single-element path.
+export const createCategoryPathLookup = (categories: Category[]) => {
+  const byId = new Map(categories.map(category => [category.id, category]));
+  const byName = new Map(categories.map(category => [category.name, category]));
+
+  return (name: string): string[] => {
+    const path: string[] = [];
+    const seen = new Set<string>();
+    let current = byName.get(name);
+    if (!current) return [name];
+
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      path.unshift(current.name);
+      current = current.parent_id ? byId.get(current.parent_id) : undefined;
+    }
+    return path;
+  };
+};
+
+// Whether an expense filed under `name` counts towards `ancestor`, i.e. it
+// is the category itself or one of its sub-categories
+export type CategoryMatcher = (name: string, ancestor: string) => boolean;
+
+export const sameCategory: CategoryMatcher = (name, ancestor) => name === ancestor;
+
+// Totals per category including everything filed under its sub-categories
+export const rollUpCategoryTotals = (
+  totals: Record<string, number>,
+  pathOf: (name: string) => string[]
+): Record<string, number> => {
+  const rolledUp: Record<string, number> = {};
+  Object.entries(totals).forEach(([name, amount]) => {
+    pathOf(name).forEach(ancestor => {
+      rolledUp[ancestor] = (rolledUp[ancestor] || 0) + amount;
+    });
+  });
+  return rolledUp;
+};
+
+export interface CategoryBreakdownRow {
+  name: string;
+  // Sub-categories with spending, in tree order, with their depth in the tree
+  children: { name: string; depth: number }[];
+}
+
+// Top-level categories with spending, each with its sub-categories that
+// have spending; names without a categories row are listed on their own.
+// `totals` are rolled up, so a row's total includes its children.
+export const buildCategoryBreakdown = (
+  totals: Record<string, number>,
+  tree: CategoryNode[],
+  categories: Category[]
+): CategoryBreakdownRow[] =>
+  [
+    ...tree.map(node => ({
+      name: node.category.name,
+      children: flattenCategoryTree(node.children)
+        .map(child => ({ name: child.category.name, depth: child.depth }))
+        .filter(child => totals[child.name] > 0)
+    })),
+    ...Object.keys(totals)
+      .filter(name => !categories.some(category => category.name === name))
+      .map(name => ({ name, children: [] }))
+  ].filter(row => totals[row.name] > 0);
@@ -0,0 +1,34 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ClaimStatus = 'draft' | 'submitted' | 'approved' | 'rejected' | 'reimbursed';
+
+export const CLAIM_STATUSES: { value: ClaimStatus; label: string; className: string }[] = [
+  { value: 'draft', label: 'Draft', className: 'text-muted-foreground border-border' },
+  { value: 'submitted', label: 'Submitted', className: 'text-primary border-primary/50' },
+  { value: 'approved', label: 'Approved', className: 'text-success border-success/50' },
+  { value: 'rejected', label: 'Rejected', className: 'text-destructive border-destructive/50' },
+  { value: 'reimbursed', label: 'Reimbursed', className: 'text-success border-success/50 bg-success/10' }
+];
+
+export const claimStatus = (status: string) =>
+  CLAIM_STATUSES.find(item => item.value === status) ?? CLAIM_STATUSES[0];
+
+// The expense columns a claim lists
+export type ClaimExpense = Pick<
+  Tables<'expenses'>,
+  'id' | 'amount' | 'currency' | 'category' | 'description' | 'date'
+>;
+
+export type Claim = Tables<'claims'> & { expenses: ClaimExpense[] };
+
+// What a claim adds up to, per currency, largest first
+export const claimTotals = (expenses: Pick<ClaimExpense, 'amount' | 'currency'>[]) => {
+  const totals = new Map<string, number>();
+  expenses.forEach(({ amount, currency }) => totals.set(currency, (totals.get(currency) ?? 0) + amount));
+  return [...totals.entries()]
+    .map(([currency, amount]) => ({ currency, amount }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+// Only expenses in a draft can be added, removed or changed
+export const isClaimOpen = (claim: Pick<Claim, 'status'>) => claim.status === 'draft';
@@ -0,0 +1,103 @@
+import { DateRange, describeDateRange } from '@/lib/dateRange';
+import { toDateKey } from '@/lib/dates';
+
+export type ComparisonMode = 'month' | 'year' | 'custom';
+
+export const COMPARISON_MODES: { value: ComparisonMode; label: string }[] = [
+  { value: 'month', label: 'Month vs previous month' },
+  { value: 'year', label: 'Year vs previous year' },
+  { value: 'custom', label: 'Custom A vs B' }
+];
+
+export interface ComparisonPeriod {
+  range: DateRange;
+  label: string;
+}
+
+export interface ComparisonRow {
+  category: string;
+  // Spending in period A and period B
+  a: number;
+  b: number;
+  delta: number;
+  // Change from B to A as a fraction of B; null when B had no spending
+  change: number | null;
+}
+
+interface SpendEntry {
+  amount: number;
+  category: string;
+}
+
+// The same day in another month, or its last day when that month is shorter
+const sameDayIn = (year: number, month: number, day: number) =>
+  new Date(year, month, Math.min(day, new Date(year, month + 1, 0).getDate()));
+
+const period = (from: Date, to: Date): ComparisonPeriod => {
+  const range = { from: toDateKey(from), to: toDateKey(to) };
+  return { range, label: describeDateRange('custom', range) };
+};
+
+// The current month or year to date (A) against the same stretch of the
+// previous one (B), so a period still under way is compared like for like
+export const getComparisonPeriods = (
+  mode: Exclude<ComparisonMode, 'custom'>,
+  now: Date = new Date()
+): [ComparisonPeriod, ComparisonPeriod] => {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  const day = now.getDate();
+
+  if (mode === 'year') {
+    return [
+      period(new Date(year, 0, 1), now),
+      period(new Date(year - 1, 0, 1), sameDayIn(year - 1, month, day))
+    ];
+  }
+  return [
+    period(new Date(year, month, 1), now),
+    period(new Date(year, month - 1, 1), sameDayIn(year, month - 1, day))
+  ];
+};
+
+// Spending per top-level category in both periods, largest first.
+// `pathOf` gives a category's names from the top level down.
+export const compareCategories = (
+  a: SpendEntry[],
+  b: SpendEntry[],
+  pathOf: (category: string) => string[]
+): ComparisonRow[] => {
+  const totals = new Map<string, { a: number; b: number }>();
+  const add = (entries: SpendEntry[], key: 'a' | 'b') => entries.forEach(entry => {
+    const category = pathOf(entry.category)[0] ?? entry.category;
+    const total = totals.get(category) ?? { a: 0, b: 0 };
+    total[key] += entry.amount;
+    totals.set(category, total);
+  });
+  add(a, 'a');
+  add(b, 'b');
+
+  return [...totals.entries()]
+    .map(([category, total]) => ({
+      category,
+      ...total,
+      delta: total.a - total.b,
+      change: total.b > 0 ? (total.a - total.b) / total.b : null
+    }))
+    .sort((x, y) => (y.a + y.b) - (x.a + x.b));
+};
+
+// Categories whose spending moved the most between the periods, either way
+export const biggestMovers = (rows: ComparisonRow[], count: number): ComparisonRow[] =>
+  [...rows]
+    .filter(row => row.delta !== 0)
+    .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta))
+    .slice(0, count);
+
+// A change as a signed percentage, e.g. "+12.5%"; "new" when there was
+// nothing to compare with
+export const formatChange = (change: number | null): string => {
+  if (change === null) return 'new';
+  const percent = (change * 100).toFixed(1);
+  return change > 0 ? `+${percent}%` : `${percent}%`;
+};
@@ -0,0 +1,133 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { parseCsv } from '@/lib/csv';
+import { toDateKey } from '@/lib/dates';
+import { parseImportAmount, parseImportDate } from '@/lib/expenseImport';
+
+export type ExchangeRate = Tables<'exchange_rates'>;
+
+export const DEFAULT_CURRENCY = 'INR';
+
+export const CURRENCIES: { code: string; symbol: string; name: string }[] = [
+  { code: 'INR', symbol: '₹', name: 'Indian Rupee' },
+  { code: 'USD', symbol: '$', name: 'US Dollar' },
+  { code: 'EUR', symbol: '€', name: 'Euro' },
+  { code: 'GBP', symbol: '£', name: 'British Pound' },
+  { code: 'AED', symbol: 'AED ', name: 'UAE Dirham' },
+  { code: 'SGD', symbol: 'S$', name: 'Singapore Dollar' },
+  { code: 'AUD', symbol: 'A$', name: 'Australian Dollar' },
+  { code: 'CAD', symbol: 'C$', name: 'Canadian Dollar' },
+  { code: 'JPY', symbol: '¥', name: 'Japanese Yen' },
+  { code: 'THB', symbol: '฿', name: 'Thai Baht' }
+];
+
+export const currencySymbol = (code: string): string =>
+  CURRENCIES.find(currency => currency.code === code)?.symbol ?? `${code} `;
+
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY): string =>
+  `${currencySymbol(currency)}${amount.toFixed(2)}`;
+
+export interface Convertible {
+  amount: number;
+  currency: string;
+  date: string;
+}
+
+export type Converted<T extends Convertible> = T & {
+  // Amount in the currency the expense was paid in; `amount` holds the base value
+  originalAmount: number;
+  // False when no exchange rate was available and `amount` fell back to 0
+  converted: boolean;
+};
+
+export type Converter = (amount: number, currency: string, date: string) => number | null;
+
+// Build a lookup that converts into `base` using the rate in effect on a given
+// date: the latest rate on or before it, or the earliest one if the date
+// predates every stored rate. Rates are usable in either direction.
+export const createConverter = (rates: ExchangeRate[], base: string): Converter => {
+  const index = new Map<string, { date: string; rate: number; direct: boolean }[]>();
+  const add = (from: string, date: string, rate: number, direct: boolean) => {
+    const list = index.get(from) ?? [];
+    list.push({ date, rate, direct });
+    index.set(from, list);
+  };
+
+  rates.forEach(rate => {
+    if (rate.quote_currency === base) add(rate.currency, rate.date, rate.rate, true);
+    else if (rate.currency === base) add(rate.quote_currency, rate.date, 1 / rate.rate, false);
+  });
+  // Direct quotes win over inverted ones entered for the same day
+  index.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date) || Number(a.direct) - Number(b.direct)));
+
+  return (amount, currency, date) => {
+    if (currency === base) return amount;
+    const list = index.get(currency);
+    if (!list) return null;
+
+    let chosen = list[0];
+    for (const entry of list) {
+      if (entry.date > date) break;
+      chosen = entry;
+    }
+    return amount * chosen.rate;
+  };
+};
+
+export const convertToBase = <T extends Convertible>(items: T[], convert: Converter): Converted<T>[] =>
+  items.map(item => {
+    const value = convert(item.amount, item.currency, item.date);
+    return { ...item, originalAmount: item.amount, amount: value ?? 0, converted: value !== null };
+  });
+
+export interface ParsedRate {
+  line: number;
+  currency: string;
+  quote_currency: string;
+  rate: number;
+  date: string;
+}
+
+// Parse a rates file with `date`, `currency` (or `from`), `quote_currency`
+// (or `to`) and `rate` columns. Rows missing a quote currency use `base`.
+export const parseRatesFile = (
+  text: string,
+  base: string
+): { rates: ParsedRate[]; errors: { line: number; message: string }[] } => {
+  const [header = [], ...rows] = parseCsv(text);
+  const find = (pattern: RegExp) => header.findIndex(name => pattern.test(name.trim()));
+  const columns = {
+    date: find(/^date$/i),
+    currency: find(/^(currency|from|base)$/i),
+    quote: find(/^(quote_currency|quote|to)$/i),
+    rate: find(/^rate$/i)
+  };
+
+  if (columns.currency === -1 || columns.rate === -1) {
+    return { rates: [], errors: [{ line: 1, message: 'The header must include "currency" and "rate" columns' }] };
+  }
+
+  const rates: ParsedRate[] = [];
+  const errors: { line: number; message: string }[] = [];
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const currency = (row[columns.currency] ?? '').trim().toUpperCase();
+    const quote = columns.quote === -1 ? base : ((row[columns.quote] ?? '').trim().toUpperCase() || base);
+    const rate = parseImportAmount(row[columns.rate] ?? '', '.');
+    const rawDate = columns.date === -1 ? '' : (row[columns.date] ?? '').trim();
+    const date = rawDate ? parseImportDate(rawDate, 'dmy') : null;
+
+    if (!/^[A-Z]{3}$/.test(currency) || !/^[A-Z]{3}$/.test(quote)) {
+      errors.push({ line, message: 'Currencies must be three-letter ISO codes' });
+    } else if (currency === quote) {
+      errors.push({ line, message: 'Currency and quote currency must differ' });
+    } else if (rate === null || rate <= 0) {
+      errors.push({ line, message: 'Rate must be a positive number' });
+    } else if (rawDate && !date) {
+      errors.push({ line, message: `Unrecognised date "${rawDate}"` });
+    } else {
+      rates.push({ line, currency, quote_currency: quote, rate, date: date ?? toDateKey(new Date()) });
+    }
+  });
+
+  return { rates, errors };
+};
@@ -0,0 +1,103 @@
+import { parseDateKey, toDateKey } from '@/lib/dates';
+
+export type DateRangePreset =
+  | 'all'
+  | 'this-month'
+  | 'last-month'
+  | 'quarter-to-date'
+  | 'year-to-date'
+  | 'last-12-months'
+  | 'custom';
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: 'all', label: 'All time' },
+  { value: 'this-month', label: 'This month' },
+  { value: 'last-month', label: 'Last month' },
+  { value: 'quarter-to-date', label: 'Quarter to date' },
+  { value: 'year-to-date', label: 'Year to date' },
+  { value: 'last-12-months', label: 'Last 12 months' },
+  { value: 'custom', label: 'Custom range' }
+];
+
+// Inclusive YYYY-MM-DD bounds; null leaves that side open
+export interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+export const isDateRangePreset = (value: string | null): value is DateRangePreset =>
+  DATE_RANGE_PRESETS.some(preset => preset.value === value);
+
+// Bounds of a preset relative to `now`; presets ending "to date" stop at today
+export const getPresetRange = (preset: DateRangePreset, now: Date = new Date()): DateRange => {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  const today = toDateKey(now);
+
+  switch (preset) {
+    case 'this-month':
+      return { from: toDateKey(new Date(year, month, 1)), to: toDateKey(new Date(year, month + 1, 0)) };
+    case 'last-month':
+      return { from: toDateKey(new Date(year, month - 1, 1)), to: toDateKey(new Date(year, month, 0)) };
+    case 'quarter-to-date':
+      return { from: toDateKey(new Date(year, month - (month % 3), 1)), to: today };
+    case 'year-to-date':
+      return { from: toDateKey(new Date(year, 0, 1)), to: today };
+    case 'last-12-months':
+      return { from: toDateKey(new Date(year, month - 11, 1)), to: today };
+    case 'all':
+    case 'custom':
+    default:
+      return { from: null, to: null };
+  }
+};
+
+export const isInRange = (date: string, range: DateRange): boolean =>
+  (range.from === null || date >= range.from) && (range.to === null || date <= range.to);
+
+const isDateKey = (value: string | null): value is string =>
+  value !== null && /^\d{4}-\d{2}-\d{2}$/.test(value) && toDateKey(parseDateKey(value)) === value;
+
+// Read the filter from `?range=<preset>` (plus `from`/`to` for a custom
+// range); anything unrecognised falls back to all time
+export const parseDateRangeParams = (params: URLSearchParams, now: Date = new Date()) => {
+  const value = params.get('range');
+  const preset: DateRangePreset = isDateRangePreset(value) ? value : 'all';
+
+  if (preset !== 'custom') {
+    return { preset, range: getPresetRange(preset, now) };
+  }
+
+  const from = params.get('from');
+  const to = params.get('to');
+  return {
+    preset,
+    range: {
+      from: isDateKey(from) ? from : null,
+      to: isDateKey(to) ? to : null
+    }
+  };
+};
+
+// Human-readable description of the active range, e.g. for chart titles
+export const describeDateRange = (preset: DateRangePreset, range: DateRange): string => {
+  if (preset !== 'custom') {
+    return DATE_RANGE_PRESETS.find(item => item.value === preset)?.label ?? '';
+  }
+  const format = (key: string) =>
+    parseDateKey(key).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  if (range.from && range.to) return `${format(range.from)} – ${format(range.to)}`;
+  if (range.from) return `From ${format(range.from)}`;
+  if (range.to) return `Until ${format(range.to)}`;
+  return 'All time';
+};
+
+// Calendar days the range covers up to today; an open start begins at the
+// earliest of `dates`. Used for per-day averages.
+export const countRangeDays = (range: DateRange, dates: string[], now: Date = new Date()): number => {
+  const today = toDateKey(now);
+  const to = range.to !== null && range.to < today ? range.to : today;
+  const from = range.from ?? [...dates].sort()[0] ?? to;
+  if (from > to) return 0;
+  return Math.round((parseDateKey(to).getTime() - parseDateKey(from).getTime()) / 86400000) + 1;
+};
@@ -0,0 +1,151 @@
+import type { Database } from '@/integrations/supabase/types';
+import { AMOUNT_FILTER_OPERATORS, AmountFilter } from '@/lib/expenseQuery';
+
+// Per-day sum returned by the `expense_daily_totals` function
+export type ExpenseDailyTotal = Database['public']['Functions']['expense_daily_totals']['Returns'][number];
+
+// Rows fetched per scroll of the history list
+export const EXPENSE_PAGE_SIZE = 50;
+
+// Rows fetched per request when exporting; Supabase caps responses at 1000
+// rows by default
+export const EXPORT_PAGE_SIZE = 1000;
+
+// Server-side filters shared by the history pages and the daily totals
+export interface ExpenseFilters {
+  // Every query is scoped to one ledger
+  ledger: string;
+  // Inclusive YYYY-MM-DD bounds
+  from: string | null;
+  to: string | null;
+  // `to_tsquery` expression matched against the description
+  search: string | null;
+  amounts: AmountFilter[];
+  // Exact category names, sub-categories already expanded
+  categories: string[] | null;
+  currency: string | null;
+  type: string | null;
+  // Tag ids; an expense needs any one of them
+  tags: string[] | null;
+}
+
+export const NO_EXPENSE_FILTERS: Omit<ExpenseFilters, 'ledger'> = {
+  from: null,
+  to: null,
+  search: null,
+  amounts: [],
+  categories: null,
+  currency: null,
+  type: null,
+  tags: null
+};
+
+const compareAmount = (amount: number, { operator, value }: AmountFilter) => {
+  switch (operator) {
+    case '>': return amount > value;
+    case '>=': return amount >= value;
+    case '<': return amount < value;
+    case '<=': return amount <= value;
+    case '=': return amount === value;
+  }
+};
+
+// Whether an expense belongs under `filters`, checked client-side for
+// optimistic updates. Null when only the description search can tell.
+export const matchesFilters = (
+  expense: {
+    ledger_id: string;
+    amount: number;
+    category: string;
+    currency: string;
+    date: string;
+    type: string;
+    expense_tags: { tag_id: string }[];
+  },
+  filters: ExpenseFilters
+): boolean | null => {
+  const { tags } = filters;
+  const matches =
+    expense.ledger_id === filters.ledger &&
+    (filters.from === null || expense.date >= filters.from) &&
+    (filters.to === null || expense.date <= filters.to) &&
+    filters.amounts.every(filter => compareAmount(expense.amount, filter)) &&
+    (filters.categories === null || filters.categories.includes(expense.category)) &&
+    (filters.currency === null || expense.currency === filters.currency) &&
+    (filters.type === null || expense.type === filters.type) &&
+    (tags === null || expense.expense_tags.some(({ tag_id }) => tags.includes(tag_id)));
+  if (!matches) return false;
+  return filters.search === null ? true : null;
+};
+
+// Arguments for `expense_daily_totals` and `expense_tag_totals`; omitted
+// ones default to no filter
+export const dailyTotalsArgs = (filters: ExpenseFilters) => ({
+  _ledger_id: filters.ledger,
+  _from: filters.from ?? undefined,
+  _to: filters.to ?? undefined,
+  _search: filters.search ?? undefined,
+  _categories: filters.categories ?? undefined,
+  _currency: filters.currency ?? undefined,
+  _type: filters.type ?? undefined,
+  _tags: filters.tags ?? undefined,
+  _amount_filters: filters.amounts.map(({ operator, value }) => ({ op: AMOUNT_FILTER_OPERATORS[operator], value }))
+});
+
+// The history is ordered by date, then id, newest first
+export interface HistoryCursor {
+  id: string;
+  date: string;
+}
+
+// One page of the history and where the next one starts, or null on the last page
+export interface HistoryPage<T extends HistoryCursor> {
+  expenses: T[];
+  nextCursor: HistoryCursor | null;
+}
+
+// Negative when `a` comes before `b` in the history
+export const compareHistoryOrder = (a: HistoryCursor, b: HistoryCursor): number => {
+  if (a.date !== b.date) return a.date > b.date ? -1 : 1;
+  if (a.id === b.id) return 0;
+  return a.id > b.id ? -1 : 1;
+};
+
+// PostgREST `or` filter for the rows that come after `cursor`
+export const afterCursor = (cursor: HistoryCursor): string =>
+  `date.lt.${cursor.date},and(date.eq.${cursor.date},id.lt.${cursor.id})`;
+
+// Replace the row with `id` in loaded pages, or drop it when `row` is null.
+// The row goes into the page whose range covers its position; one sorting
+// after every loaded page is left for the page that will contain it.
+export const placeInPages = <T extends HistoryCursor>(
+  pages: HistoryPage<T>[],
+  id: string,
+  row: T | null
+): HistoryPage<T>[] => {
+  const stripped = pages.map(page => ({ ...page, expenses: page.expenses.filter(item => item.id !== id) }));
+  if (!row) return stripped;
+
+  const target = stripped.findIndex(page =>
+    page.nextCursor === null || compareHistoryOrder(row, page.nextCursor) <= 0
+  );
+  if (target === -1) return stripped;
+
+  const expenses = stripped[target].expenses;
+  const index = expenses.findIndex(item => compareHistoryOrder(row, item) < 0);
+  stripped[target] = {
+    ...stripped[target],
+    expenses: index === -1 ? [...expenses, row] : [...expenses.slice(0, index), row, ...expenses.slice(index)]
+  };
+  return stripped;
+};
+
+// Days a deleted expense stays in the trash; `purge_deleted_expenses` runs
+// nightly and removes older ones
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days left before a trashed expense is purged, never below 0
+export const daysUntilPurge = (deletedAt: string, now = Date.now()): number =>
+  Math.max(0, TRASH_RETENTION_DAYS - Math.floor((now - Date.parse(deletedAt)) / DAY_MS));
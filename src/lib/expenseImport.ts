@@ -0,0 +1,203 @@
+import { toDateKey } from '@/lib/dates';
+
+export type ImportField = 'amount' | 'currency' | 'category' | 'description' | 'date';
+
+export type DateOrder = 'dmy' | 'mdy';
+
+export type DecimalSeparator = '.' | ',';
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportOptions {
+  dateOrder: DateOrder;
+  decimalSeparator: DecimalSeparator;
+  defaultCategory: string;
+  defaultCurrency: string;
+  // Names of the user's categories; an imported value matching one of them
+  // case-insensitively takes its exact spelling
+  knownCategories: string[];
+}
+
+export interface ParsedImportRow {
+  line: number;
+  amount: number | null;
+  currency: string;
+  category: string;
+  description: string;
+  date: string | null;
+  errors: string[];
+  duplicate: boolean;
+}
+
+export const IMPORT_FIELDS: { value: ImportField; label: string; required: boolean }[] = [
+  { value: 'date', label: 'Date', required: true },
+  { value: 'amount', label: 'Amount', required: true },
+  { value: 'description', label: 'Description', required: true },
+  { value: 'category', label: 'Category', required: false },
+  { value: 'currency', label: 'Currency', required: false }
+];
+
+const HEADER_HINTS: Record<ImportField, RegExp> = {
+  amount: /amount|amt|debit|value|price|cost|total|inr|₹/i,
+  currency: /currency|ccy/i,
+  category: /categor|type|head/i,
+  description: /desc|narration|particular|details|memo|note|payee|merchant/i,
+  date: /date|day|when|posted/i
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Guess a column for each field from the header names
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = { amount: null, currency: null, category: null, description: null, date: null };
+  const taken = new Set<number>();
+  for (const field of ['date', 'currency', 'amount', 'category', 'description'] as ImportField[]) {
+    const index = headers.findIndex((header, i) => !taken.has(i) && HEADER_HINTS[field].test(header));
+    if (index !== -1) {
+      mapping[field] = index;
+      taken.add(index);
+    }
+  }
+  return mapping;
+};
+
+const expandYear = (year: number) => (year < 100 ? (year < 70 ? 2000 + year : 1900 + year) : year);
+
+const buildDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(expandYear(year), month - 1, day);
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return toDateKey(date);
+};
+
+const monthFromName = (name: string): number | null => {
+  const index = MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+  return index === -1 ? null : index + 1;
+};
+
+// Parse the date formats banks and spreadsheets commonly export:
+// 2025-07-31, 31/07/2025, 07/31/2025 (by `order`), 31-Jul-25, 31 July 2025, Jul 31, 2025
+export const parseImportDate = (value: string, order: DateOrder): string | null => {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  if (match) return buildDate(+match[1], +match[2], +match[3]);
+
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?:\s.*)?$/);
+  if (match) {
+    const [first, second] = [+match[1], +match[2]];
+    return order === 'dmy'
+      ? buildDate(+match[3], second, first)
+      : buildDate(+match[3], first, second);
+  }
+
+  match = text.match(/^(\d{1,2})[\s-]([A-Za-z]{3,})[\s,-]+(\d{2}|\d{4})$/);
+  if (match) {
+    const month = monthFromName(match[2]);
+    return month ? buildDate(+match[3], month, +match[1]) : null;
+  }
+
+  match = text.match(/^([A-Za-z]{3,})\s+(\d{1,2}),?\s+(\d{4})$/);
+  if (match) {
+    const month = monthFromName(match[1]);
+    return month ? buildDate(+match[3], month, +match[2]) : null;
+  }
+
+  return null;
+};
+
+// Parse an amount, tolerating currency markers and thousands grouping in
+// both western (1,234,567.89) and Indian lakh (12,34,567.89) styles.
+// Parentheses or a leading minus mark a negative amount.
+export const parseImportAmount = (value: string, decimalSeparator: DecimalSeparator): number | null => {
+  let text = value
+    .trim()
+    .replace(/₹|rs\.?|inr|\$|€|£|usd|eur/gi, '')
+    .replace(/\s/g, '');
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  text = decimalSeparator === '.'
+    ? text.replace(/,/g, '')
+    : text.replace(/\./g, '').replace(',', '.');
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  const amount = parseFloat(text);
+  return negative ? -amount : amount;
+};
+
+const normalizeCategory = (value: string, fallback: string, known: string[]): string => {
+  const text = value.trim();
+  if (!text) return fallback;
+  return known.find(category => category.toLowerCase() === text.toLowerCase()) ?? text;
+};
+
+export const parseImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  options: ImportOptions,
+  firstLine = 2
+): ParsedImportRow[] => {
+  const cell = (row: string[], field: ImportField) =>
+    mapping[field] === null ? '' : (row[mapping[field] as number] ?? '').trim();
+
+  return rows.map((row, index) => {
+    const errors: string[] = [];
+    const rawAmount = cell(row, 'amount');
+    const rawDate = cell(row, 'date');
+    const description = cell(row, 'description');
+
+    const amount = rawAmount ? parseImportAmount(rawAmount, options.decimalSeparator) : null;
+    if (!rawAmount) errors.push('Missing amount');
+    else if (amount === null) errors.push(`Unrecognised amount "${rawAmount}"`);
+    else if (amount <= 0) errors.push('Amount must be positive');
+
+    const date = rawDate ? parseImportDate(rawDate, options.dateOrder) : null;
+    if (!rawDate) errors.push('Missing date');
+    else if (date === null) errors.push(`Unrecognised date "${rawDate}"`);
+
+    if (!description) errors.push('Missing description');
+
+    const currency = cell(row, 'currency').toUpperCase() || options.defaultCurrency;
+    if (!/^[A-Z]{3}$/.test(currency)) errors.push(`Unrecognised currency "${currency}"`);
+
+    return {
+      line: firstLine + index,
+      amount,
+      currency,
+      category: normalizeCategory(cell(row, 'category'), options.defaultCategory, options.knownCategories),
+      description,
+      date,
+      errors,
+      duplicate: false
+    };
+  });
+};
+
+interface DuplicateCandidate {
+  amount: number;
+  date: string;
+  description: string | null;
+}
+
+export const duplicateKey = (entry: DuplicateCandidate) =>
+  `${entry.date}|${entry.amount.toFixed(2)}|${(entry.description ?? '').trim().toLowerCase()}`;
+
+// Flag rows matching an existing expense, or an earlier row of the same file,
+// on date + amount + description
+export const markDuplicates = (rows: ParsedImportRow[], existing: DuplicateCandidate[]): ParsedImportRow[] => {
+  const seen = new Set(existing.map(duplicateKey));
+  return rows.map(row => {
+    if (row.errors.length > 0) return row;
+    const key = duplicateKey({ amount: row.amount as number, date: row.date as string, description: row.description });
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...row, duplicate };
+  });
+};
@@ -0,0 +1,178 @@
+import { EntryType } from '@/lib/cashflow';
+import { DateRange } from '@/lib/dateRange';
+import { addDays, parseDateKey, toDateKey } from '@/lib/dates';
+import type { ExpenseFilters } from '@/lib/expenseHistory';
+
+export type AmountOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export interface AmountFilter {
+  operator: AmountOperator;
+  value: number;
+}
+
+// Parsed form of the history search bar, e.g.
+// `amount>500 category:Travel before:2025-06-01 "uber eats" taxi`
+export interface ExpenseQuery {
+  // Bare words, matched as prefixes of description words
+  terms: string[];
+  // Quoted text, matched as consecutive description words
+  phrases: string[];
+  amounts: AmountFilter[];
+  categories: string[];
+  currency: string | null;
+  type: EntryType | null;
+  // Exclusive date bounds and an exact day (YYYY-MM-DD)
+  before: string | null;
+  after: string | null;
+  on: string | null;
+  errors: string[];
+}
+
+export const QUERY_SYNTAX_HELP = [
+  { example: 'uber', description: 'description contains a word starting with "uber"' },
+  { example: '"uber eats"', description: 'description contains the exact phrase' },
+  { example: 'amount>500', description: 'also >=, <, <= and =; compares the amount as entered' },
+  { example: 'category:"Food & Dining"', description: 'category or any of its sub-categories' },
+  { example: 'before:2025-06-01', description: 'also after: and on:' },
+  { example: 'currency:USD type:income', description: 'currency or entry type' }
+];
+
+const TOKEN_PATTERN = /([a-z]+)(>=|<=|:|>|<|=)("[^"]*"?|\S+)|"([^"]*)"?|(\S+)/gi;
+
+const unquote = (value: string) => value.replace(/^"/, '').replace(/"$/, '');
+
+const isDateKey = (value: string) =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && toDateKey(parseDateKey(value)) === value;
+
+export const emptyExpenseQuery = (): ExpenseQuery => ({
+  terms: [],
+  phrases: [],
+  amounts: [],
+  categories: [],
+  currency: null,
+  type: null,
+  before: null,
+  after: null,
+  on: null,
+  errors: []
+});
+
+export const parseExpenseQuery = (input: string): ExpenseQuery => {
+  const query = emptyExpenseQuery();
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [token, rawKey, operator, rawValue, phrase, word] = match;
+
+    if (phrase !== undefined) {
+      if (phrase.trim()) query.phrases.push(phrase.trim());
+      continue;
+    }
+    if (word !== undefined) {
+      query.terms.push(word);
+      continue;
+    }
+
+    const key = rawKey.toLowerCase();
+    const value = unquote(rawValue).trim();
+
+    if (key === 'amount') {
+      const amount = parseFloat(value);
+      if (operator === ':' || isNaN(amount)) {
+        query.errors.push(`Use amount>, amount<, amount>=, amount<= or amount= with a number (got "${token}")`);
+      } else {
+        query.amounts.push({ operator: operator as AmountOperator, value: amount });
+      }
+    } else if (operator !== ':') {
+      // Only amounts can be compared; anything else is treated as text
+      query.terms.push(token);
+    } else if (key === 'category' || key === 'cat') {
+      if (value) query.categories.push(value);
+    } else if (key === 'currency') {
+      if (/^[a-z]{3}$/i.test(value)) query.currency = value.toUpperCase();
+      else query.errors.push(`Unrecognised currency "${value}"`);
+    } else if (key === 'type') {
+      if (value === 'expense' || value === 'income') query.type = value;
+      else query.errors.push('Type must be expense or income');
+    } else if (key === 'before' || key === 'after' || key === 'on') {
+      if (isDateKey(value)) query[key] = value;
+      else query.errors.push(`Use YYYY-MM-DD for ${key}: (got "${value}")`);
+    } else {
+      query.terms.push(token);
+    }
+  }
+
+  return query;
+};
+
+export const isEmptyExpenseQuery = (query: ExpenseQuery) =>
+  query.terms.length === 0 &&
+  query.phrases.length === 0 &&
+  query.amounts.length === 0 &&
+  query.categories.length === 0 &&
+  query.currency === null &&
+  query.type === null &&
+  query.before === null &&
+  query.after === null &&
+  query.on === null;
+
+// Split text into the words Postgres indexes, dropping tsquery operators
+const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// `to_tsquery` expression for the text part of a query, matching
+// `expenses.description_search`; null when there is no text to match
+export const toTsQuery = (query: ExpenseQuery): string | null => {
+  const parts = [
+    ...query.terms.flatMap(words).map(word => `${word}:*`),
+    ...query.phrases.map(phrase => words(phrase).join(' <-> ')).filter(Boolean)
+  ];
+  return parts.length > 0 ? parts.join(' & ') : null;
+};
+
+// Words and phrases to highlight in a matching description
+export const highlightTerms = (query: ExpenseQuery): string[] =>
+  [...query.phrases, ...query.terms.flatMap(words)].filter(Boolean);
+
+// PostgREST filter operator for each amount comparison
+export const AMOUNT_FILTER_OPERATORS: Record<AmountOperator, string> = {
+  '>': 'gt',
+  '>=': 'gte',
+  '<': 'lt',
+  '<=': 'lte',
+  '=': 'eq'
+};
+
+const later = (a: string | null, b: string) => (a === null || b > a ? b : a);
+const earlier = (a: string | null, b: string) => (a === null || b < a ? b : a);
+
+// Inclusive date bounds once `before:`, `after:` and `on:` are applied to
+// the date-range filter
+export const narrowDateRange = (range: DateRange, query: ExpenseQuery): DateRange => {
+  let { from, to } = range;
+  if (query.after) from = later(from, addDays(query.after, 1));
+  if (query.before) to = earlier(to, addDays(query.before, -1));
+  if (query.on) {
+    from = later(from, query.on);
+    to = earlier(to, query.on);
+  }
+  return { from, to };
+};
+
+// Server-side filters for a search within the date-range filter of a
+// ledger; `categories` are the names `category:` terms (and any other category
+// filter) resolve to and `tags` the tag ids to filter by, or null for none
+export const toExpenseFilters = (
+  ledger: string,
+  range: DateRange,
+  query: ExpenseQuery,
+  categories: string[] | null,
+  tags: string[] | null = null
+): ExpenseFilters => ({
+  ledger,
+  ...narrowDateRange(range, query),
+  search: toTsQuery(query),
+  amounts: query.amounts,
+  categories,
+  currency: query.currency,
+  type: query.type,
+  tags
+});
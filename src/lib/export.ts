@@ -0,0 +1,156 @@
+import { stringifyCsv } from '@/lib/csv';
+import { parseDateKey } from '@/lib/dates';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'xlsx', label: 'Excel (XLSX)' }
+];
+
+// `amount` is in the base currency, `originalAmount` in `currency`
+export interface ExportableExpense {
+  amount: number;
+  originalAmount: number;
+  currency: string;
+  category: string;
+  description: string;
+  date: string;
+  // 'expense' or 'income'
+  type: string;
+}
+
+const byDate = (a: ExportableExpense, b: ExportableExpense) => a.date.localeCompare(b.date);
+
+const monthLabel = (monthKey: string) =>
+  parseDateKey(`${monthKey}-01`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const buildCsv = (expenses: ExportableExpense[], baseCurrency: string) =>
+  stringifyCsv([
+    ['Date', 'Type', 'Category', 'Description', 'Amount', 'Currency', `Amount (${baseCurrency})`],
+    ...expenses.map(exp => [
+      exp.date,
+      exp.type,
+      exp.category,
+      exp.description,
+      exp.originalAmount,
+      exp.currency,
+      Number(exp.amount.toFixed(2))
+    ])
+  ]);
+
+const buildJson = (expenses: ExportableExpense[], baseCurrency: string) =>
+  JSON.stringify(
+    {
+      baseCurrency,
+      expenses: expenses.map(exp => ({
+        date: exp.date,
+        type: exp.type,
+        category: exp.category,
+        description: exp.description,
+        amount: exp.originalAmount,
+        currency: exp.currency,
+        baseAmount: Number(exp.amount.toFixed(2))
+      }))
+    },
+    null,
+    2
+  );
+
+// Workbook with a category summary of spending followed by one sheet per month
+const buildWorkbook = async (expenses: ExportableExpense[], baseCurrency: string): Promise<Blob> => {
+  // exceljs is large, so only load it when a workbook is actually requested
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const spending = expenses.filter(exp => exp.type !== 'income');
+  const total = spending.reduce((sum, exp) => sum + exp.amount, 0);
+
+  const summary = workbook.addWorksheet('Category Summary');
+  summary.columns = [
+    { header: 'Category', key: 'category', width: 24 },
+    { header: 'Entries', key: 'count', width: 10 },
+    { header: `Amount (${baseCurrency})`, key: 'amount', width: 16, style: { numFmt: '#,##0.00' } },
+    { header: 'Share', key: 'share', width: 10, style: { numFmt: '0.0%' } }
+  ];
+  const categories = spending.reduce((acc, exp) => {
+    const entry = acc.get(exp.category) ?? { count: 0, amount: 0 };
+    entry.count += 1;
+    entry.amount += exp.amount;
+    acc.set(exp.category, entry);
+    return acc;
+  }, new Map<string, { count: number; amount: number }>());
+  [...categories.entries()]
+    .sort((a, b) => b[1].amount - a[1].amount)
+    .forEach(([category, { count, amount }]) => {
+      summary.addRow({ category, count, amount, share: total > 0 ? amount / total : 0 });
+    });
+  summary.addRow({ category: 'Total', count: spending.length, amount: total, share: total > 0 ? 1 : 0 }).font = { bold: true };
+  summary.getRow(1).font = { bold: true };
+
+  const months = expenses.reduce((acc, exp) => {
+    const monthKey = exp.date.slice(0, 7);
+    acc.set(monthKey, [...(acc.get(monthKey) ?? []), exp]);
+    return acc;
+  }, new Map<string, ExportableExpense[]>());
+  [...months.keys()].sort().forEach(monthKey => {
+    const rows = months.get(monthKey)!.sort(byDate);
+    const sheet = workbook.addWorksheet(monthLabel(monthKey));
+    sheet.columns = [
+      { header: 'Date', key: 'date', width: 12 },
+      { header: 'Type', key: 'type', width: 10 },
+      { header: 'Category', key: 'category', width: 24 },
+      { header: 'Description', key: 'description', width: 40 },
+      { header: 'Amount', key: 'originalAmount', width: 14, style: { numFmt: '#,##0.00' } },
+      { header: 'Currency', key: 'currency', width: 10 },
+      { header: `Amount (${baseCurrency})`, key: 'amount', width: 16, style: { numFmt: '#,##0.00' } }
+    ];
+    rows.forEach(exp => sheet.addRow(exp));
+    const incomeTotal = rows.filter(exp => exp.type === 'income').reduce((sum, exp) => sum + exp.amount, 0);
+    sheet.addRow({
+      description: incomeTotal > 0 ? 'Total expenses' : 'Total',
+      amount: rows.filter(exp => exp.type !== 'income').reduce((sum, exp) => sum + exp.amount, 0)
+    }).font = { bold: true };
+    if (incomeTotal > 0) {
+      sheet.addRow({ description: 'Total income', amount: incomeTotal }).font = { bold: true };
+    }
+    sheet.getRow(1).font = { bold: true };
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+// Generate the export entirely in the browser and hand it to the user as a download
+export const exportExpenses = async (
+  expenses: ExportableExpense[],
+  format: ExportFormat,
+  baseCurrency: string,
+  fileNameBase: string
+): Promise<void> => {
+  const sorted = [...expenses].sort(byDate);
+
+  switch (format) {
+    case 'csv':
+      // The byte order mark makes Excel read the file as UTF-8
+      downloadBlob(new Blob(['\uFEFF', buildCsv(sorted, baseCurrency)], { type: 'text/csv;charset=utf-8' }), `${fileNameBase}.csv`);
+      break;
+    case 'json':
+      downloadBlob(new Blob([buildJson(sorted, baseCurrency)], { type: 'application/json' }), `${fileNameBase}.json`);
+      break;
+    case 'xlsx':
+      downloadBlob(await buildWorkbook(sorted, baseCurrency), `${fileNameBase}.xlsx`);
+      break;
+  }
+};
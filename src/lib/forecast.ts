@@ -0,0 +1,159 @@
+import type { Budget } from '@/lib/budgets';
+import { CategoryMatcher, sameCategory } from '@/lib/categories';
+import { DateRange, isInRange } from '@/lib/dateRange';
+import { parseDateKey, toDateKey } from '@/lib/dates';
+
+interface SpendEntry {
+  amount: number;
+  category: string;
+  date: string;
+}
+
+// How far a month may stray from the category's average because of the
+// season; keeps a one-off purchase last year from dominating the forecast
+const SEASONAL_FACTOR_MIN = 0.5;
+const SEASONAL_FACTOR_MAX = 2;
+
+export interface CategoryForecast {
+  category: string;
+  spent: number;
+  projected: number;
+  // Spending per day expected for the rest of the month
+  dailyRate: number;
+}
+
+export interface MonthForecast {
+  monthKey: string;
+  spent: number;
+  projected: number;
+  // Total of the previous calendar month
+  lastMonth: number;
+  daysElapsed: number;
+  daysInMonth: number;
+  dailyRate: number;
+  categories: CategoryForecast[];
+}
+
+export type ForecastWarning =
+  | { kind: 'lastMonth'; projected: number; lastMonth: number }
+  | { kind: 'budget'; budget: Budget; projected: number };
+
+const monthKeyOf = (date: Date) => toDateKey(date).slice(0, 7);
+
+// First day of the history a forecast looks at: the same month last year,
+// which is the furthest back seasonality reaches
+export const getForecastStart = (now: Date = new Date()): string =>
+  toDateKey(new Date(now.getFullYear(), now.getMonth() - 12, 1));
+
+// Month-end spending projected from this month's daily run rate and each
+// category's history. A category's average month over the past year,
+// scaled by how the same month last year compared to that average, says
+// what the rest of the month usually brings; early in the month that carries
+// most of the weight and the run rate takes over as the month goes by.
+// Categories without a year of history follow the run rate alone.
+export const forecastMonthEnd = (entries: SpendEntry[], now: Date = new Date()): MonthForecast => {
+  const year = now.getFullYear();
+  const month = now.getMonth();
+  const monthKey = monthKeyOf(now);
+  const lastMonthKey = monthKeyOf(new Date(year, month - 1, 1));
+  const lastYearKey = monthKeyOf(new Date(year, month - 12, 1));
+  const daysInMonth = new Date(year, month + 1, 0).getDate();
+  const daysElapsed = now.getDate();
+  const daysLeft = daysInMonth - daysElapsed;
+  const today = toDateKey(now);
+  const start = getForecastStart(now);
+
+  // Spending per category per month, this month only up to today
+  const months = new Map<string, Map<string, number>>();
+  for (const entry of entries) {
+    if (entry.date < start || entry.date > today) continue;
+    const key = entry.date.slice(0, 7);
+    const byMonth = months.get(entry.category) ?? new Map<string, number>();
+    byMonth.set(key, (byMonth.get(key) ?? 0) + entry.amount);
+    months.set(entry.category, byMonth);
+  }
+
+  const categories = [...months.entries()].map(([category, byMonth]): CategoryForecast => {
+    const spent = byMonth.get(monthKey) ?? 0;
+    const runRate = spent / daysElapsed;
+    const lastYear = byMonth.get(lastYearKey);
+    let dailyRate = runRate;
+
+    if (lastYear !== undefined) {
+      // The twelve months before this one
+      const pastYear = [...byMonth.entries()].filter(([key]) => key !== monthKey);
+      const average = pastYear.reduce((sum, [, amount]) => sum + amount, 0) / 12;
+      const factor = average > 0
+        ? Math.min(Math.max(lastYear / average, SEASONAL_FACTOR_MIN), SEASONAL_FACTOR_MAX)
+        : 1;
+      const seasonalRate = (average * factor) / daysInMonth;
+      const weight = daysElapsed / daysInMonth;
+      dailyRate = weight * runRate + (1 - weight) * seasonalRate;
+    }
+
+    return { category, spent, projected: spent + dailyRate * daysLeft, dailyRate };
+  }).filter(forecast => forecast.projected > 0);
+
+  categories.sort((a, b) => b.projected - a.projected);
+
+  const sum = (key: keyof Omit<CategoryForecast, 'category'>) =>
+    categories.reduce((total, forecast) => total + forecast[key], 0);
+
+  return {
+    monthKey,
+    spent: sum('spent'),
+    projected: sum('projected'),
+    lastMonth: [...months.values()].reduce((total, byMonth) => total + (byMonth.get(lastMonthKey) ?? 0), 0),
+    daysElapsed,
+    daysInMonth,
+    dailyRate: sum('dailyRate'),
+    categories
+  };
+};
+
+// Projected month-end spending of a category, sub-categories included
+export const getProjectedSpend = (
+  forecast: MonthForecast,
+  category: string,
+  belongsTo: CategoryMatcher = sameCategory
+): number =>
+  forecast.categories
+    .filter(item => belongsTo(item.category, category))
+    .reduce((sum, item) => sum + item.projected, 0);
+
+// Projections worth warning about: a month on pace to cost more than the
+// last one, and monthly budgets it is on pace to break
+export const getForecastWarnings = (
+  forecast: MonthForecast,
+  budgets: Budget[],
+  belongsTo: CategoryMatcher = sameCategory
+): ForecastWarning[] => {
+  const warnings: ForecastWarning[] = [];
+  if (forecast.lastMonth > 0 && forecast.projected > forecast.lastMonth) {
+    warnings.push({ kind: 'lastMonth', projected: forecast.projected, lastMonth: forecast.lastMonth });
+  }
+  budgets
+    .filter(budget => budget.period === 'monthly')
+    .forEach(budget => {
+      const projected = getProjectedSpend(forecast, budget.category, belongsTo);
+      if (projected > budget.amount) warnings.push({ kind: 'budget', budget, projected });
+    });
+  return warnings;
+};
+
+// Dates of the rest of the month, after today
+export const remainingMonthDays = (forecast: MonthForecast): string[] => {
+  const first = parseDateKey(`${forecast.monthKey}-01`);
+  return Array.from(
+    { length: forecast.daysInMonth - forecast.daysElapsed },
+    (_, index) => toDateKey(new Date(first.getFullYear(), first.getMonth(), forecast.daysElapsed + index + 1))
+  );
+};
+
+// Whether a date range holds all of the month's spending so far, which the
+// forecast's spent amount is measured over
+export const coversMonthToDate = (range: DateRange, forecast: MonthForecast): boolean => {
+  const first = parseDateKey(`${forecast.monthKey}-01`);
+  const today = toDateKey(new Date(first.getFullYear(), first.getMonth(), forecast.daysElapsed));
+  return isInRange(`${forecast.monthKey}-01`, range) && isInRange(today, range);
+};
@@ -0,0 +1,63 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type LedgerRole = 'owner' | 'editor' | 'viewer';
+
+// A ledger the signed-in user belongs to, with their role in it and
+// whether they review expense claims
+export type Ledger = Pick<Tables<'ledgers'>, 'id' | 'name' | 'created_at'> & { role: LedgerRole; can_approve: boolean };
+
+export type LedgerMember = Tables<'ledger_members'>;
+
+export type LedgerInvitation = Tables<'ledger_invitations'>;
+
+export const LEDGER_ROLES: { value: LedgerRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Manages members and invitations' },
+  { value: 'editor', label: 'Editor', description: 'Adds, changes and deletes expenses' },
+  { value: 'viewer', label: 'Viewer', description: 'Only sees expenses and totals' }
+];
+
+export const roleLabel = (role: string) => LEDGER_ROLES.find(item => item.value === role)?.label ?? role;
+
+// How a member is shown; someone who left the ledger no longer has a row
+export const memberLabel = (members: LedgerMember[], userId: string | null) =>
+  members.find(member => member.user_id === userId)?.email || 'Former member';
+
+export const canEditLedger = (role: LedgerRole | undefined) => role === 'owner' || role === 'editor';
+
+// Owners always review claims; other members when an owner lets them
+export const canApproveClaims = (member: { role: string; can_approve: boolean } | undefined) =>
+  member?.role === 'owner' || !!member?.can_approve;
+
+// Same rule as the check on `ledger_invitations.email`
+export const isValidEmail = (email: string) => /^[^@\s]+@[^@\s]+$/.test(email);
+
+// Link that accepts an invitation, opened by the invited person
+export const invitationLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+// Invitations are delivered from the inviter's own mail client
+export const invitationMailto = (invitation: Pick<LedgerInvitation, 'email' | 'token' | 'role'>, ledgerName: string) => {
+  const subject = `Join the "${ledgerName}" expense ledger`;
+  const body = `You have been invited to the "${ledgerName}" ledger as ${roleLabel(invitation.role).toLowerCase()}.\n\n`
+    + `Accept the invitation here: ${invitationLink(invitation.token)}`;
+  return `mailto:${encodeURIComponent(invitation.email)}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+};
+
+// The ledger picked in the switcher, remembered per browser and shared by
+// every component that shows ledger data
+const CURRENT_LEDGER_KEY = 'expense-tracker-ledger';
+
+const listeners = new Set<() => void>();
+
+export const subscribeCurrentLedger = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getStoredLedgerId = () => localStorage.getItem(CURRENT_LEDGER_KEY);
+
+export const storeLedgerId = (id: string) => {
+  localStorage.setItem(CURRENT_LEDGER_KEY, id);
+  listeners.forEach(listener => listener());
+};
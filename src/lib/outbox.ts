@@ -0,0 +1,172 @@
+import { createStore, del, entries, get, set } from 'idb-keyval';
+import type { Tables } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+import { uploadReceipts } from '@/lib/attachments';
+import { ExpenseSplit, setExpenseSplits } from '@/lib/splits';
+import { setExpenseTags } from '@/lib/tags';
+
+export type OutboxOperation = 'create' | 'update';
+
+// Moving to and from the trash is an update of `deleted_at`. `tag_ids` and
+// `splits`, when given, replace the expense's tags and splits once the row
+// is written.
+export type OutboxExpense = Pick<
+  Tables<'expenses'>,
+  'ledger_id' | 'amount' | 'currency' | 'category' | 'description' | 'date' | 'type' | 'paid_by' | 'split_method' | 'anomaly_flags'
+> & { deleted_at?: string | null; claim_id?: string | null; tag_ids?: string[]; splits?: ExpenseSplit[] };
+
+interface OutboxFields {
+  id: string;
+  // Owner at the time of the change; entries of other users are not replayed
+  userId: string;
+  // Receipts picked while offline, kept as blobs until they can be uploaded
+  receipts: File[];
+  // When the latest change was made, compared with the server's `updated_at`
+  changedAt: string;
+  // When the first change was queued, which keeps replay in order
+  queuedAt: number;
+}
+
+// Creates carry every field; updates only the ones that changed
+type OutboxWrite =
+  | { operation: 'create'; expense: OutboxExpense }
+  | { operation: 'update'; expense: Partial<OutboxExpense> };
+
+// An expense change made without a connection, waiting to be written.
+// Changes to the same expense are merged, so there is one entry per expense.
+export type OutboxEntry = OutboxFields & OutboxWrite;
+
+export type OutboxChange = Omit<OutboxFields, 'changedAt' | 'queuedAt'> & OutboxWrite;
+
+const store = createStore('expense-tracker-outbox', 'outbox');
+
+const listeners = new Set<() => void>();
+
+export const subscribeOutbox = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const getOutbox = async (): Promise<OutboxEntry[]> =>
+  (await entries<string, OutboxEntry>(store))
+    .map(([, entry]) => entry)
+    .sort((a, b) => a.queuedAt - b.queuedAt);
+
+export const hasQueuedChange = async (id: string) => (await get<OutboxEntry>(id, store)) !== undefined;
+
+// Fold a new change into the one already queued for the same expense. An
+// expense created offline still only needs creating, with the later fields.
+export const mergeChange = (queued: OutboxEntry | undefined, change: OutboxChange, changedAt: string): OutboxEntry => {
+  if (!queued) return { ...change, changedAt, queuedAt: Date.now() };
+
+  // Keeps the queued operation, so a create stays complete
+  return {
+    ...queued,
+    expense: { ...queued.expense, ...change.expense },
+    receipts: [...queued.receipts, ...change.receipts],
+    changedAt
+  } as OutboxEntry;
+};
+
+export const enqueueChange = async (change: OutboxChange) => {
+  await set(change.id, mergeChange(await get<OutboxEntry>(change.id, store), change, new Date().toISOString()), store);
+  notify();
+};
+
+export const removeFromOutbox = async (id: string) => {
+  await del(id, store);
+  notify();
+};
+
+// Whether a request failed because the server could not be reached, as
+// opposed to being rejected by it
+export const isNetworkError = (error: { message?: string } | null | undefined) =>
+  !navigator.onLine || /failed to fetch|networkerror|load failed|network request failed/i.test(error?.message ?? '');
+
+// A write that follows the one storing an expense; failing, it is reported
+// rather than thrown, as the stored row must not be rolled back
+export const attemptFollowUpWrite = async (write: () => Promise<void>): Promise<Error | null> => {
+  try {
+    await write();
+    return null;
+  } catch (error) {
+    return error as Error;
+  }
+};
+
+// Parts of a change that could not be written after its row was stored
+export interface FollowUpErrors {
+  tagError: Error | null;
+  splitError: Error | null;
+}
+
+// Write changed fields, tags and splits of an existing expense. Only the
+// row write throws; tags and splits that fail after it are returned.
+export const writeExpenseUpdate = async (
+  userId: string,
+  id: string,
+  expense: Partial<OutboxExpense>
+): Promise<FollowUpErrors> => {
+  const { tag_ids: tagIds, splits, ...fields } = expense;
+  if (Object.keys(fields).length > 0) {
+    const { error } = await supabase.from('expenses').update(fields).eq('id', id);
+    if (error) throw error;
+  }
+  return {
+    tagError: tagIds ? await attemptFollowUpWrite(() => setExpenseTags(userId, id, tagIds)) : null,
+    splitError: splits ? await attemptFollowUpWrite(() => setExpenseSplits(id, splits)) : null
+  };
+};
+
+// 'overridden' when a newer change on the server won over the queued one.
+// A synced change lists the parts that failed after its row was stored.
+export type ReplayResult =
+  | { outcome: 'synced'; failedParts: string[] }
+  | { outcome: 'overridden' };
+
+const describeFailedParts = ({ tagError, splitError }: FollowUpErrors, receiptError: Error | null) =>
+  [
+    tagError && `tags: ${tagError.message}`,
+    splitError && `split: ${splitError.message}`,
+    receiptError && `receipts: ${receiptError.message}`
+  ].filter((part): part is string => !!part);
+
+// Write one queued change. Conflicts are settled last-write-wins: a server
+// row updated after the change was made (or purged since) is left as is.
+// Compares the device clock with the server's, so skew shifts the outcome.
+// Throws only when the row itself could not be written.
+export const replayChange = async (entry: OutboxEntry): Promise<ReplayResult> => {
+  const { tag_ids: tagIds, splits, ...fields } = entry.expense;
+  const uploadQueuedReceipts = () =>
+    entry.receipts.length > 0
+      ? attemptFollowUpWrite(() => uploadReceipts(entry.userId, entry.id, entry.receipts))
+      : Promise.resolve(null);
+
+  if (entry.operation === 'create') {
+    const { error } = await supabase
+      .from('expenses')
+      .insert({ ...(fields as OutboxExpense), id: entry.id, user_id: entry.userId });
+    // A create whose response was lost on the way back is already stored
+    if (error && error.code !== '23505') throw error;
+    const followUp = {
+      tagError: tagIds ? await attemptFollowUpWrite(() => setExpenseTags(entry.userId, entry.id, tagIds)) : null,
+      splitError: splits ? await attemptFollowUpWrite(() => setExpenseSplits(entry.id, splits)) : null
+    };
+    return { outcome: 'synced', failedParts: describeFailedParts(followUp, await uploadQueuedReceipts()) };
+  }
+
+  const { data: current, error } = await supabase
+    .from('expenses')
+    .select('updated_at')
+    .eq('id', entry.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!current || Date.parse(current.updated_at) > Date.parse(entry.changedAt)) return { outcome: 'overridden' };
+
+  const followUp = await writeExpenseUpdate(entry.userId, entry.id, entry.expense);
+  return { outcome: 'synced', failedParts: describeFailedParts(followUp, await uploadQueuedReceipts()) };
+};
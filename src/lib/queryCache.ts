@@ -0,0 +1,17 @@
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import { createStore, del, get, set } from 'idb-keyval';
+
+// How long cached expense data is kept, in memory and in IndexedDB
+export const QUERY_CACHE_MAX_AGE = 1000 * 60 * 60 * 24 * 7;
+
+const store = createStore('expense-tracker-cache', 'queries');
+
+// Keeps the query cache in IndexedDB, so the history and totals last loaded
+// are still shown after a reload without a connection
+export const queryPersister = createAsyncStoragePersister({
+  storage: {
+    getItem: key => get<string>(key, store),
+    setItem: (key, value) => set(key, value, store),
+    removeItem: key => del(key, store)
+  }
+});
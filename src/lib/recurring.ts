@@ -0,0 +1,128 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+import { addDays, parseDateKey, toDateKey } from '@/lib/dates';
+
+export type RecurringExpense = Tables<'recurring_expenses'>;
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const RECURRENCE_FREQUENCIES: { value: RecurrenceFrequency; label: string; unit: string }[] = [
+  { value: 'daily', label: 'Daily', unit: 'day' },
+  { value: 'weekly', label: 'Weekly', unit: 'week' },
+  { value: 'monthly', label: 'Monthly', unit: 'month' },
+  { value: 'yearly', label: 'Yearly', unit: 'year' }
+];
+
+type Schedule = Pick<
+  RecurringExpense,
+  'frequency' | 'interval' | 'day_of_month' | 'start_date' | 'end_date' | 'skipped_dates'
+>;
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// Date of the n-th occurrence (0-based) counted from the series start.
+// Monthly and yearly series pin to `day_of_month`, clamped to short months.
+const nthOccurrence = (schedule: Schedule, n: number): string => {
+  const start = parseDateKey(schedule.start_date);
+  const step = n * schedule.interval;
+
+  switch (schedule.frequency as RecurrenceFrequency) {
+    case 'daily':
+      return addDays(schedule.start_date, step);
+    case 'weekly':
+      return addDays(schedule.start_date, step * 7);
+    case 'yearly':
+    case 'monthly': {
+      const months = schedule.frequency === 'yearly' ? step * 12 : step;
+      const year = start.getFullYear() + Math.floor((start.getMonth() + months) / 12);
+      const month = (start.getMonth() + months) % 12;
+      const day = Math.min(schedule.day_of_month ?? start.getDate(), daysInMonth(year, month));
+      return toDateKey(new Date(year, month, day));
+    }
+    default:
+      throw new Error(`Unknown recurrence frequency: ${schedule.frequency}`);
+  }
+};
+
+// All scheduled dates in [from, to], honouring the end date and skipped occurrences
+export const getOccurrences = (schedule: Schedule, from: string, to: string): string[] => {
+  const until = schedule.end_date && schedule.end_date < to ? schedule.end_date : to;
+  const dates: string[] = [];
+
+  for (let n = 0; ; n++) {
+    const date = nthOccurrence(schedule, n);
+    if (date > until) break;
+    if (date < schedule.start_date || date < from) continue;
+    if (!schedule.skipped_dates.includes(date)) dates.push(date);
+  }
+
+  return dates;
+};
+
+// First occurrence that has not been materialized yet, or null once the series is over
+export const getNextOccurrence = (series: RecurringExpense): string | null => {
+  const from = series.last_generated_date ? addDays(series.last_generated_date, 1) : series.start_date;
+
+  for (let n = 0; ; n++) {
+    const date = nthOccurrence(series, n);
+    if (series.end_date && date > series.end_date) return null;
+    if (date >= from && !series.skipped_dates.includes(date)) return date;
+  }
+};
+
+// Insert every due occurrence of the user's active series into `expenses`,
+// each into the ledger its series belongs to.
+// Safe to run on every load: already generated ranges are tracked through
+// `last_generated_date` and the (recurring_expense_id, occurrence_date)
+// unique key makes concurrent runs insert each occurrence once.
+export const generateDueRecurringExpenses = async (userId: string, now: Date = new Date()): Promise<number> => {
+  const todayKey = toDateKey(now);
+
+  const { data: series, error } = await supabase
+    .from('recurring_expenses')
+    .select('*')
+    .eq('paused', false)
+    .lte('start_date', todayKey)
+    .or(`last_generated_date.is.null,last_generated_date.lt.${todayKey}`);
+
+  if (error) throw error;
+
+  let created = 0;
+  for (const item of series || []) {
+    const from = item.last_generated_date ? addDays(item.last_generated_date, 1) : item.start_date;
+    const dates = getOccurrences(item, from, todayKey);
+
+    if (dates.length > 0) {
+      const { data, error: insertError } = await supabase
+        .from('expenses')
+        .upsert(
+          dates.map(date => ({
+            amount: item.amount,
+            currency: item.currency,
+            type: item.type,
+            category: item.category,
+            description: item.description,
+            date,
+            occurrence_date: date,
+            recurring_expense_id: item.id,
+            ledger_id: item.ledger_id,
+            user_id: userId
+          })),
+          { onConflict: 'recurring_expense_id,occurrence_date', ignoreDuplicates: true }
+        )
+        .select('id');
+
+      if (insertError) throw insertError;
+      created += data?.length ?? 0;
+    }
+
+    const { error: updateError } = await supabase
+      .from('recurring_expenses')
+      .update({ last_generated_date: todayKey })
+      .eq('id', item.id);
+
+    if (updateError) throw updateError;
+  }
+
+  return created;
+};
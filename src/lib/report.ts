@@ -0,0 +1,352 @@
+import type { jsPDF } from 'jspdf';
+import { ExpenseAttachment, createReceiptUrls, isImageAttachment } from '@/lib/attachments';
+import { toDateKey } from '@/lib/dates';
+
+// One row of the itemized table; `amount` is in the base currency and
+// `originalAmount` in `currency`, as in exports
+export interface ReportEntry {
+  amount: number;
+  originalAmount: number;
+  currency: string;
+  category: string;
+  description: string;
+  date: string;
+  // 'expense' or 'income'
+  type: string;
+  tags: string[];
+  receiptCount: number;
+}
+
+export interface ReportBreakdownRow {
+  name: string;
+  amount: number;
+  color: string;
+  children: { name: string; amount: number; depth: number; color: string }[];
+}
+
+// A picture placed in the PDF; sizes are in CSS pixels
+export interface ReportImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface ReportChart extends ReportImage {
+  title: string;
+}
+
+export interface ReportReceipt extends ReportImage {
+  caption: string;
+}
+
+export interface ExpenseReport {
+  title: string;
+  // Lines under the title: period, ledger, filters
+  details: string[];
+  baseCurrency: string;
+  // Days the averages are taken over
+  days: number;
+  entries: ReportEntry[];
+  breakdown: ReportBreakdownRow[];
+  charts: ReportChart[];
+  receipts: ReportReceipt[];
+}
+
+// The standard PDF fonts only cover Latin-1, so amounts carry the currency
+// code instead of a symbol like ₹
+const money = (amount: number, currency: string) =>
+  `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const reportSummary = (report: Pick<ExpenseReport, 'entries' | 'baseCurrency' | 'days'>) => {
+  const spending = report.entries.filter(entry => entry.type !== 'income');
+  const totalSpending = spending.reduce((sum, entry) => sum + entry.amount, 0);
+  const totalIncome = report.entries
+    .filter(entry => entry.type === 'income')
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  return [
+    { label: 'Total spending', value: money(totalSpending, report.baseCurrency) },
+    { label: 'Total income', value: money(totalIncome, report.baseCurrency) },
+    { label: 'Net', value: money(totalIncome - totalSpending, report.baseCurrency) },
+    { label: 'Daily average spending', value: money(report.days > 0 ? totalSpending / report.days : 0, report.baseCurrency) },
+    { label: 'Entries', value: report.entries.length.toString() }
+  ];
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = src;
+  });
+
+const drawToCanvas = (image: CanvasImageSource, width: number, height: number, scale: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+// Presentation the charts get from CSS variables and classes, which a
+// serialized SVG would lose
+const SVG_STYLE_PROPERTIES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-opacity', 'stroke-width', 'stroke-dasharray',
+  'stop-color', 'stop-opacity', 'opacity', 'font-family', 'font-size', 'font-weight', 'text-anchor'
+];
+
+// A rendered chart as a PNG, drawn at twice its size to stay sharp in print
+export const svgToImage = async (svg: SVGSVGElement): Promise<ReportImage> => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const originals = [svg, ...svg.querySelectorAll('*')];
+  const copies = [clone, ...clone.querySelectorAll('*')];
+  originals.forEach((element, index) => {
+    const computed = getComputedStyle(element);
+    copies[index].setAttribute(
+      'style',
+      SVG_STYLE_PROPERTIES.map(property => `${property}:${computed.getPropertyValue(property)}`).join(';')
+    );
+  });
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', width.toString());
+  clone.setAttribute('height', height.toString());
+
+  const source = new XMLSerializer().serializeToString(clone);
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(source)}`);
+  return { dataUrl: drawToCanvas(image, width, height, 2).toDataURL('image/png'), width, height };
+};
+
+// Longest side of a receipt thumbnail
+const THUMBNAIL_SIZE = 320;
+
+// Small JPEG copies of the image receipts; PDFs and images the browser
+// cannot decode (like HEIC) are left out
+export const loadReceiptThumbnails = async (
+  receipts: { attachment: ExpenseAttachment; caption: string }[]
+): Promise<ReportReceipt[]> => {
+  const images = receipts.filter(({ attachment }) => isImageAttachment(attachment));
+  const urls = await createReceiptUrls(images.map(({ attachment }) => attachment.storage_path));
+  const thumbnails: ReportReceipt[] = [];
+  for (const { attachment, caption } of images) {
+    const url = urls[attachment.storage_path];
+    if (!url) continue;
+    try {
+      const response = await fetch(url);
+      if (!response.ok) continue;
+      const objectUrl = URL.createObjectURL(await response.blob());
+      try {
+        const image = await loadImage(objectUrl);
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+        const width = image.width * scale;
+        const height = image.height * scale;
+        thumbnails.push({
+          dataUrl: drawToCanvas(image, width, height, 1).toDataURL('image/jpeg', 0.8),
+          width,
+          height,
+          caption
+        });
+      } finally {
+        URL.revokeObjectURL(objectUrl);
+      }
+    } catch {
+      // A receipt that cannot be shown is left out of the report
+    }
+  }
+  return thumbnails;
+};
+
+// Page layout in millimetres
+const MARGIN = 15;
+const FOOTER = 10;
+const MUTED: [number, number, number] = [110, 110, 120];
+
+const hexToRgb = (color: string): [number, number, number] => {
+  const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  return match ? [parseInt(match[1], 16), parseInt(match[2], 16), parseInt(match[3], 16)] : [150, 150, 160];
+};
+
+// Builds the report in the browser and downloads it
+export const downloadExpenseReport = async (report: ExpenseReport): Promise<void> => {
+  // Like exceljs for exports, the PDF libraries are only loaded when needed
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  const bottom = pageHeight - MARGIN - FOOTER;
+  // autoTable records where the last table ended
+  const tableEnd = () => (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+  const tableMargin = { left: MARGIN, right: MARGIN, bottom: MARGIN + FOOTER };
+
+  let y = MARGIN;
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+  const heading = (text: string) => {
+    ensureSpace(14);
+    y += 4;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.setTextColor(0);
+    doc.text(text, MARGIN, y);
+    y += 5;
+  };
+
+  // Header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(20);
+  doc.text(doc.splitTextToSize(report.title, contentWidth), MARGIN, y + 6);
+  y += 6 + doc.splitTextToSize(report.title, contentWidth).length * 8;
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.setTextColor(...MUTED);
+  [...report.details, `Generated ${toDateKey(new Date())} · amounts in ${report.baseCurrency}`].forEach(line => {
+    doc.text(line, MARGIN, y);
+    y += 5;
+  });
+  doc.setDrawColor(220);
+  doc.line(MARGIN, y, pageWidth - MARGIN, y);
+  y += 4;
+
+  heading('Summary');
+  autoTable(doc, {
+    startY: y,
+    margin: tableMargin,
+    theme: 'plain',
+    styles: { fontSize: 10, cellPadding: 1.5 },
+    columnStyles: { 0: { textColor: MUTED }, 1: { halign: 'right', fontStyle: 'bold' } },
+    tableWidth: contentWidth / 2,
+    body: reportSummary(report).map(({ label, value }) => [label, value])
+  });
+  y = tableEnd() + 4;
+
+  // Shares are of all spending in the report, like the Category Breakdown card
+  const totalSpending = report.entries
+    .filter(entry => entry.type !== 'income')
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  if (report.breakdown.length > 0) {
+    heading('Category Breakdown');
+    const rows = report.breakdown.flatMap(row => [
+      { name: row.name, depth: 0, color: row.color, amount: row.amount, share: row.amount / totalSpending },
+      ...row.children.map(child => ({ ...child, share: null as number | null }))
+    ]);
+    autoTable(doc, {
+      startY: y,
+      margin: tableMargin,
+      theme: 'striped',
+      headStyles: { fillColor: [59, 130, 246] },
+      styles: { fontSize: 9 },
+      columnStyles: { 1: { halign: 'right' }, 2: { halign: 'right' } },
+      head: [['Category', 'Amount', 'Share']],
+      body: rows.map(row => [
+        row.name,
+        money(row.amount, report.baseCurrency),
+        row.share === null ? '' : `${(row.share * 100).toFixed(1)}%`
+      ]),
+      didParseCell: data => {
+        if (data.section !== 'body') return;
+        const row = rows[data.row.index];
+        if (data.column.index === 0) data.cell.styles.cellPadding = { top: 1.5, bottom: 1.5, right: 2, left: 7 + row.depth * 4 };
+        if (row.depth > 0) data.cell.styles.textColor = MUTED;
+        else data.cell.styles.fontStyle = 'bold';
+      },
+      didDrawCell: data => {
+        if (data.section !== 'body' || data.column.index !== 0) return;
+        const row = rows[data.row.index];
+        doc.setFillColor(...hexToRgb(row.color));
+        doc.circle(data.cell.x + 3.5 + row.depth * 4, data.cell.y + data.cell.height / 2, 1.3, 'F');
+      }
+    });
+    y = tableEnd() + 4;
+  }
+
+  if (report.charts.length > 0) {
+    heading('Charts');
+    report.charts.forEach(chart => {
+      const height = (chart.height / chart.width) * contentWidth;
+      ensureSpace(height + 8);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(10);
+      doc.text(chart.title, MARGIN, y + 4);
+      doc.addImage(chart.dataUrl, 'PNG', MARGIN, y + 6, contentWidth, height);
+      y += height + 10;
+    });
+  }
+
+  heading('Itemized Expenses');
+  autoTable(doc, {
+    startY: y,
+    margin: tableMargin,
+    theme: 'striped',
+    headStyles: { fillColor: [59, 130, 246] },
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    columnStyles: {
+      0: { cellWidth: 20 },
+      3: { halign: 'right', cellWidth: 26 },
+      4: { halign: 'right', cellWidth: 26 },
+      5: { halign: 'center', cellWidth: 16 }
+    },
+    head: [['Date', 'Category', 'Description', 'Amount', report.baseCurrency, 'Receipts']],
+    body: [...report.entries]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(entry => {
+        const sign = entry.type === 'income' ? '+' : '';
+        return [
+          entry.date,
+          entry.category,
+          [entry.description, ...entry.tags.map(tag => `#${tag}`)].join(' '),
+          `${sign}${money(entry.originalAmount, entry.currency)}`,
+          `${sign}${money(entry.amount, report.baseCurrency)}`,
+          entry.receiptCount > 0 ? entry.receiptCount.toString() : ''
+        ];
+      })
+  });
+  y = tableEnd() + 4;
+
+  if (report.receipts.length > 0) {
+    heading('Receipts');
+    const columns = 4;
+    const gap = 4;
+    const cellWidth = (contentWidth - gap * (columns - 1)) / columns;
+    const imageHeight = cellWidth * 1.2;
+    const cellHeight = imageHeight + 9;
+    report.receipts.forEach((receipt, index) => {
+      const column = index % columns;
+      if (column === 0) {
+        if (index > 0) y += cellHeight;
+        ensureSpace(cellHeight);
+      }
+      const x = MARGIN + column * (cellWidth + gap);
+      const scale = Math.min(cellWidth / receipt.width, imageHeight / receipt.height);
+      const width = receipt.width * scale;
+      const height = receipt.height * scale;
+      doc.addImage(receipt.dataUrl, 'JPEG', x + (cellWidth - width) / 2, y + (imageHeight - height) / 2, width, height);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(7);
+      doc.setTextColor(...MUTED);
+      doc.text(doc.splitTextToSize(receipt.caption, cellWidth).slice(0, 2), x, y + imageHeight + 3);
+    });
+  }
+
+  // Footer with the title and page numbers on every page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.text(report.title, MARGIN, pageHeight - MARGIN, { maxWidth: contentWidth - 30 });
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - MARGIN, { align: 'right' });
+  }
+
+  const fileName = report.title.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'expense-report';
+  doc.save(`${fileName}.pdf`);
+};
@@ -0,0 +1,249 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+
+export type SplitMethod = 'equal' | 'exact' | 'percent' | 'shares';
+
+export const SPLIT_METHODS: { value: SplitMethod; label: string }[] = [
+  { value: 'equal', label: 'Equally' },
+  { value: 'exact', label: 'Exact amounts' },
+  { value: 'percent', label: 'Percentages' },
+  { value: 'shares', label: 'Shares' }
+];
+
+// One member's part of a split expense; `share` is what the method was
+// given for them and `amount` what it came to
+export type ExpenseSplit = Pick<Tables<'expense_splits'>, 'user_id' | 'share' | 'amount'>;
+
+// How an expense is shared: who paid and each member's part
+export interface SplitDetails {
+  paidBy: string;
+  method: SplitMethod;
+  splits: ExpenseSplit[];
+}
+
+export type Settlement = Tables<'settlements'>;
+
+// What a member is owed (positive) or owes (negative) in one currency
+export interface Balance {
+  userId: string;
+  currency: string;
+  amount: number;
+}
+
+// A payment that settles part of the balances
+export interface Transfer {
+  from: string;
+  to: string;
+  currency: string;
+  amount: number;
+}
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Divide `amount` by `weights` in whole cents. Cents left over by rounding
+// down go to the largest remainders, so the parts always add up.
+const divideCents = (cents: number, weights: number[]): number[] => {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map(weight => (cents * weight) / total);
+  const parts = exact.map(Math.floor);
+  let left = cents - parts.reduce((sum, part) => sum + part, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (left <= 0) break;
+    parts[index]++;
+    left--;
+  }
+  return parts;
+};
+
+// Each member's part of `amount` under `method`. `shares` holds what was
+// entered per member: ignored for equal splits, amounts for exact ones,
+// percentages or share counts otherwise. Returns an error message when the
+// entries do not describe a valid split.
+export const computeSplit = (
+  amount: number,
+  method: SplitMethod,
+  shares: { userId: string; share: number }[]
+): { splits: ExpenseSplit[] } | { error: string } => {
+  if (shares.length === 0) return { error: 'Pick at least one member to split with.' };
+  if (shares.some(({ share }) => isNaN(share) || share < 0)) return { error: 'Split values cannot be negative.' };
+
+  const cents = toCents(amount);
+
+  if (method === 'exact') {
+    const total = shares.reduce((sum, { share }) => sum + toCents(share), 0);
+    if (total !== cents) {
+      return { error: `Exact amounts add up to ${(total / 100).toFixed(2)} instead of ${amount.toFixed(2)}.` };
+    }
+    return { splits: shares.map(({ userId, share }) => ({ user_id: userId, share, amount: share })) };
+  }
+
+  if (method === 'percent') {
+    const total = shares.reduce((sum, { share }) => sum + share, 0);
+    if (Math.abs(total - 100) > 0.001) return { error: `Percentages add up to ${total}% instead of 100%.` };
+  }
+
+  const weights = method === 'equal' ? shares.map(() => 1) : shares.map(({ share }) => share);
+  if (weights.every(weight => weight === 0)) return { error: 'At least one member needs a share.' };
+
+  const parts = divideCents(cents, weights);
+  return {
+    splits: shares.map(({ userId }, index) => ({
+      user_id: userId,
+      share: weights[index],
+      amount: parts[index] / 100
+    }))
+  };
+};
+
+// The split part of the expense form. Values are kept as typed; members
+// without an entry are left out of the split.
+export interface SplitForm {
+  paidBy: string;
+  method: SplitMethod;
+  shares: Record<string, string>;
+}
+
+// An equal split among everyone, paid by `paidBy`
+export const newSplitForm = (memberIds: string[], paidBy: string): SplitForm => ({
+  paidBy,
+  method: 'equal',
+  shares: Object.fromEntries(memberIds.map(id => [id, '']))
+});
+
+export const splitFormFrom = (expense: {
+  paid_by: string | null;
+  split_method: string | null;
+  expense_splits: ExpenseSplit[];
+}): SplitForm | null => {
+  if (!expense.paid_by || !expense.split_method) return null;
+  const method = expense.split_method as SplitMethod;
+  return {
+    paidBy: expense.paid_by,
+    method,
+    shares: Object.fromEntries(expense.expense_splits.map(split => [
+      split.user_id,
+      method === 'equal' ? '' : split.share.toString()
+    ]))
+  };
+};
+
+// Members whose entry is blank are left out; for equal splits every member
+// in the form takes part, as nothing is entered for them
+export const computeFormSplit = (form: SplitForm, amount: number) =>
+  computeSplit(
+    amount,
+    form.method,
+    Object.entries(form.shares)
+      .filter(([, share]) => form.method === 'equal' || share.trim() !== '')
+      .map(([userId, share]) => ({
+        userId,
+        share: form.method === 'equal' ? 1 : parseFloat(share)
+      }))
+  );
+
+// Members with a balance in one currency above which payments are found
+// greedily; the exact search grows with 3 to the power of their number
+const MAX_EXACT_SETTLE_MEMBERS = 12;
+
+interface OpenBalance {
+  userId: string;
+  cents: number;
+}
+
+// The member who owes most pays the member owed most until one of them is
+// even. Takes one payment fewer than the number of members, or less.
+const settleGreedily = (open: OpenBalance[], currency: string): Transfer[] => {
+  const transfers: Transfer[] = [];
+  const left = open.map(balance => ({ ...balance }));
+  for (;;) {
+    left.sort((a, b) => b.cents - a.cents);
+    const creditor = left[0];
+    const debtor = left[left.length - 1];
+    if (!creditor || creditor.cents <= 0 || debtor.cents >= 0) break;
+
+    const cents = Math.min(creditor.cents, -debtor.cents);
+    transfers.push({ from: debtor.userId, to: creditor.userId, currency, amount: cents / 100 });
+    creditor.cents -= cents;
+    debtor.cents += cents;
+  }
+  return transfers;
+};
+
+// Split balances that add up to zero into as many groups as possible that
+// also add up to zero. A group of k members settles in k - 1 payments, so
+// the most groups take the fewest payments overall.
+const zeroSumGroups = (open: OpenBalance[]): OpenBalance[][] => {
+  const full = (1 << open.length) - 1;
+  const sums = new Array<number>(full + 1).fill(0);
+  for (let mask = 1; mask <= full; mask++) {
+    const lowest = mask & -mask;
+    sums[mask] = sums[mask ^ lowest] + open[31 - Math.clz32(lowest)].cents;
+  }
+
+  // Most groups a zero-sum set of members splits into, and the group with
+  // its lowest member that achieves it; -1 for sets not adding up to zero
+  const groups = new Int32Array(full + 1).fill(-1);
+  const choice = new Int32Array(full + 1);
+  groups[0] = 0;
+  for (let mask = 1; mask <= full; mask++) {
+    if (sums[mask] !== 0) continue;
+    const lowest = mask & -mask;
+    const rest = mask ^ lowest;
+    // Every subset of the others, each joined with the lowest member
+    for (let others = rest; ; others = (others - 1) & rest) {
+      const group = others | lowest;
+      if (sums[group] === 0 && groups[mask ^ group] + 1 > groups[mask]) {
+        groups[mask] = groups[mask ^ group] + 1;
+        choice[mask] = group;
+      }
+      if (others === 0) break;
+    }
+  }
+
+  const result: OpenBalance[][] = [];
+  for (let mask = full; mask !== 0; mask ^= choice[mask]) {
+    result.push(open.filter((_, index) => choice[mask] & (1 << index)));
+  }
+  return result;
+};
+
+// Fewest payments that settle the balances: per currency, members are
+// split into as many groups that settle among themselves as possible, and
+// each group settles greedily. With many members a single greedy pass is
+// used instead, which may take a few more payments.
+export const settleUp = (balances: Balance[]): Transfer[] => {
+  const transfers: Transfer[] = [];
+  const currencies = [...new Set(balances.map(balance => balance.currency))];
+
+  for (const currency of currencies) {
+    const open = balances
+      .filter(balance => balance.currency === currency)
+      .map(balance => ({ userId: balance.userId, cents: toCents(balance.amount) }))
+      .filter(balance => balance.cents !== 0);
+    const balanced = open.reduce((sum, balance) => sum + balance.cents, 0) === 0;
+
+    if (!balanced || open.length > MAX_EXACT_SETTLE_MEMBERS) {
+      transfers.push(...settleGreedily(open, currency));
+    } else {
+      zeroSumGroups(open).forEach(group => transfers.push(...settleGreedily(group, currency)));
+    }
+  }
+  return transfers;
+};
+
+// Make the expense split exactly as `splits`; an empty list un-splits it
+export const setExpenseSplits = async (expenseId: string, splits: ExpenseSplit[]): Promise<void> => {
+  let removal = supabase.from('expense_splits').delete().eq('expense_id', expenseId);
+  if (splits.length > 0) removal = removal.not('user_id', 'in', `(${splits.map(split => split.user_id).join(',')})`);
+  const { error } = await removal;
+  if (error) throw error;
+
+  if (splits.length === 0) return;
+  const { error: upsertError } = await supabase
+    .from('expense_splits')
+    .upsert(splits.map(split => ({ ...split, expense_id: expenseId })), { onConflict: 'expense_id,user_id' });
+  if (upsertError) throw upsertError;
+};
@@ -0,0 +1,42 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { supabase } from '@/integrations/supabase/client';
+
+export type Tag = Tables<'tags'>;
+
+// Tags are stored lowercase without the leading '#', with dashes for spaces,
+// e.g. "#Client Acme" becomes "client-acme"
+export const normalizeTagName = (input: string): string =>
+  input
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9_-]/g, '');
+
+export const isValidTagName = (name: string) => /^[a-z0-9][a-z0-9_-]*$/.test(name);
+
+export const formatTag = (name: string) => `#${name}`;
+
+// Make the expense carry exactly `tagIds`
+export const setExpenseTags = async (userId: string, expenseId: string, tagIds: string[]): Promise<void> => {
+  let removal = supabase.from('expense_tags').delete().eq('expense_id', expenseId);
+  if (tagIds.length > 0) removal = removal.not('tag_id', 'in', `(${tagIds.join(',')})`);
+  const { error } = await removal;
+  if (error) throw error;
+
+  await addExpenseTags(userId, [expenseId], tagIds);
+};
+
+// Tag every expense in `expenseIds` with every tag in `tagIds`, keeping the
+// tags they already have
+export const addExpenseTags = async (userId: string, expenseIds: string[], tagIds: string[]): Promise<void> => {
+  const rows = expenseIds.flatMap(expenseId =>
+    tagIds.map(tagId => ({ expense_id: expenseId, tag_id: tagId, user_id: userId }))
+  );
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('expense_tags')
+    .upsert(rows, { onConflict: 'expense_id,tag_id', ignoreDuplicates: true });
+  if (error) throw error;
+};
@@ -0,0 +1,91 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { MailOpen } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAcceptInvitation, useInvitation } from '@/hooks/use-ledgers';
+import { supabase } from '@/integrations/supabase/client';
+import { roleLabel } from '@/lib/ledgers';
+
+// Landing page of an invitation link; signing in first comes back here
+const AcceptInvite = () => {
+  const { token = '' } = useParams();
+  const [email, setEmail] = useState<string | null>(null);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const invitation = useInvitation(token);
+  const accept = useAcceptInvitation();
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setEmail(user?.email ?? null));
+  }, []);
+
+  const handleAccept = async () => {
+    try {
+      await accept.mutateAsync(token);
+      toast({
+        title: "Invitation accepted",
+        description: `You now have access to "${invitation.data?.ledger_name}".`,
+      });
+      navigate('/');
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to accept invitation: " + (error as Error).message,
+      });
+    }
+  };
+
+  const data = invitation.data;
+  const problem = invitation.error
+    ? "The invitation could not be loaded: " + invitation.error.message
+    : !data
+      ? "This invitation link is not valid. Ask for a new one."
+      : data.accepted_at
+        ? "This invitation has already been used."
+        : new Date(data.expires_at) < new Date()
+          ? "This invitation has expired. Ask for a new one."
+          : email && data.email.toLowerCase() !== email.toLowerCase()
+            ? `This invitation was sent to ${data.email}, but you are signed in as ${email}.`
+            : null;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md bg-gradient-card shadow-card border-0 animate-scale-in">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MailOpen className="h-5 w-5 text-primary" />
+            Ledger Invitation
+          </CardTitle>
+          {data && (
+            <CardDescription>
+              You are invited to "{data.ledger_name}" as {roleLabel(data.role).toLowerCase()}.
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {invitation.isPending ? (
+            <div className="text-center py-4 text-muted-foreground">Loading...</div>
+          ) : problem ? (
+            <p className="text-sm text-muted-foreground">{problem}</p>
+          ) : (
+            <Button
+              onClick={handleAccept}
+              disabled={accept.isPending}
+              className="w-full bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+            >
+              {accept.isPending ? 'Joining...' : 'Accept Invitation'}
+            </Button>
+          )}
+          <Button variant="outline" className="w-full" onClick={() => navigate('/')}>
+            Go to my expenses
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptInvite;
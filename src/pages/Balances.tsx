@@ -0,0 +1,380 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import CurrencySelect from '@/components/CurrencySelect';
+import { ArrowLeft, ArrowRight, HandCoins, Scale, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrencySettings } from '@/hooks/use-currency-settings';
+import { useLedgerMembers, useLedgers } from '@/hooks/use-ledgers';
+import { useDeleteSettlement, useLedgerBalances, useRecordSettlement, useSettlements } from '@/hooks/use-settlements';
+import { formatMoney } from '@/lib/currency';
+import { LedgerMember, memberLabel } from '@/lib/ledgers';
+import { Settlement, settleUp, Transfer } from '@/lib/splits';
+import { cn } from '@/lib/utils';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+interface MemberSelectProps {
+  id: string;
+  members: LedgerMember[];
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const MemberSelect = ({ id, members, value, onChange }: MemberSelectProps) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger id={id} className="bg-background/50">
+      <SelectValue placeholder="Member" />
+    </SelectTrigger>
+    <SelectContent>
+      {members.map(member => (
+        <SelectItem key={member.user_id} value={member.user_id}>{member.email}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+// Who owes whom in the current ledger, the payments that would settle it
+// and the payments recorded so far
+const Balances = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { baseCurrency } = useCurrencySettings();
+  const { current: ledger, canEdit } = useLedgers();
+  const ledgerId = ledger?.id ?? '';
+  const { data: members = [] } = useLedgerMembers(ledgerId);
+  const balances = useLedgerBalances(ledgerId, { enabled: !!ledger });
+  const settlements = useSettlements(ledgerId, { enabled: !!ledger });
+  const recordSettlement = useRecordSettlement();
+  const deleteSettlement = useDeleteSettlement();
+  const [form, setForm] = useState({
+    from: '',
+    to: '',
+    amount: '',
+    currency: '',
+    date: today(),
+    note: ''
+  });
+
+  useEffect(() => {
+    const error = balances.error || settlements.error;
+    if (!error) return;
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: "Failed to load balances: " + error.message,
+    });
+  }, [balances.error, settlements.error, toast]);
+
+  const record = async (transfer: Transfer, note: string | null) => {
+    try {
+      await recordSettlement.mutateAsync({
+        ledger_id: ledgerId,
+        from_user: transfer.from,
+        to_user: transfer.to,
+        amount: transfer.amount,
+        currency: transfer.currency,
+        date: form.date || today(),
+        note
+      });
+      toast({
+        title: "Payment recorded",
+        description: `${memberLabel(members, transfer.from)} paid ${formatMoney(transfer.amount, transfer.currency)} to ${memberLabel(members, transfer.to)}.`,
+      });
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to record payment: " + (error as Error).message,
+      });
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(form.amount);
+    if (!form.from || !form.to || !(amount > 0)) {
+      toast({
+        title: "Validation Error",
+        description: "Pick who paid whom and enter an amount above zero.",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (form.from === form.to) {
+      toast({
+        title: "Validation Error",
+        description: "A payment needs two different members.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const recorded = await record(
+      { from: form.from, to: form.to, amount, currency: form.currency || baseCurrency },
+      form.note.trim() || null
+    );
+    if (recorded) setForm({ from: '', to: '', amount: '', currency: '', date: today(), note: '' });
+  };
+
+  const handleDelete = async (settlement: Settlement) => {
+    try {
+      await deleteSettlement.mutateAsync(settlement);
+      toast({
+        title: "Success",
+        description: "Payment deleted.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to delete payment: " + (error as Error).message,
+      });
+    }
+  };
+
+  const open = (balances.data || []).filter(balance => Math.round(balance.amount * 100) !== 0);
+  const transfers = settleUp(open);
+  const history = settlements.data || [];
+  const loading = !ledger || balances.isPending;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Balances
+            </h1>
+            <p className="text-muted-foreground">
+              What members{ledger && ` of "${ledger.name}"`} owe each other for split expenses
+            </p>
+          </div>
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Scale className="h-5 w-5 text-primary" />
+                Balances
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {loading ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading...</div>
+                ) : open.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Scale className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                    <p>Everyone is settled up</p>
+                  </div>
+                ) : (
+                  open.map(balance => (
+                    <div
+                      key={`${balance.userId}-${balance.currency}`}
+                      className="bg-background/50 p-4 rounded-lg border border-border/50 flex items-center justify-between gap-4"
+                    >
+                      <span className="truncate">{memberLabel(members, balance.userId)}</span>
+                      <span className={cn('font-semibold', balance.amount > 0 ? 'text-success' : 'text-destructive')}>
+                        {balance.amount > 0 ? 'is owed ' : 'owes '}
+                        {formatMoney(Math.abs(balance.amount), balance.currency)}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <HandCoins className="h-5 w-5 text-primary" />
+                Settle Up
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {loading ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading...</div>
+                ) : transfers.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <p>No payments needed</p>
+                  </div>
+                ) : (
+                  transfers.map(transfer => (
+                    <div
+                      key={`${transfer.from}-${transfer.to}-${transfer.currency}`}
+                      className="bg-background/50 p-4 rounded-lg border border-border/50 space-y-2"
+                    >
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="truncate">{memberLabel(members, transfer.from)}</span>
+                        <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                        <span className="truncate">{memberLabel(members, transfer.to)}</span>
+                        <span className="ml-auto font-semibold">{formatMoney(transfer.amount, transfer.currency)}</span>
+                      </div>
+                      {canEdit && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="w-full"
+                          disabled={recordSettlement.isPending}
+                          onClick={() => record(transfer, null)}
+                        >
+                          Record payment
+                        </Button>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {canEdit && (
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle>Record a Payment</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="settlement-from">Paid by</Label>
+                  <MemberSelect
+                    id="settlement-from"
+                    members={members}
+                    value={form.from}
+                    onChange={(value) => setForm(prev => ({ ...prev, from: value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="settlement-to">Paid to</Label>
+                  <MemberSelect
+                    id="settlement-to"
+                    members={members}
+                    value={form.to}
+                    onChange={(value) => setForm(prev => ({ ...prev, to: value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="settlement-amount">Amount</Label>
+                  <Input
+                    id="settlement-amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0.00"
+                    value={form.amount}
+                    onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                    className="bg-background/50"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="settlement-currency">Currency</Label>
+                  <CurrencySelect
+                    id="settlement-currency"
+                    value={form.currency || baseCurrency}
+                    onChange={(value) => setForm(prev => ({ ...prev, currency: value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="settlement-date">Date</Label>
+                  <Input
+                    id="settlement-date"
+                    type="date"
+                    value={form.date}
+                    onChange={(e) => setForm(prev => ({ ...prev, date: e.target.value }))}
+                    className="bg-background/50"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="settlement-note">Note (optional)</Label>
+                  <Input
+                    id="settlement-note"
+                    placeholder="e.g. Bank transfer"
+                    value={form.note}
+                    onChange={(e) => setForm(prev => ({ ...prev, note: e.target.value }))}
+                    className="bg-background/50"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  disabled={recordSettlement.isPending}
+                  className="md:col-span-2 bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+                >
+                  {recordSettlement.isPending ? 'Recording...' : 'Record Payment'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+          <CardHeader>
+            <CardTitle>Payment History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {!ledger || settlements.isPending ? (
+                <div className="text-center py-8 text-muted-foreground">Loading...</div>
+              ) : history.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <p>No payments recorded yet</p>
+                </div>
+              ) : (
+                history.map(settlement => (
+                  <div
+                    key={settlement.id}
+                    className="bg-background/50 p-4 rounded-lg border border-border/50 flex items-center justify-between gap-4"
+                  >
+                    <div className="flex-1">
+                      <p className="font-medium">
+                        {memberLabel(members, settlement.from_user)} paid {memberLabel(members, settlement.to_user)}{' '}
+                        {formatMoney(settlement.amount, settlement.currency)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {settlement.date}
+                        {settlement.note && ` · ${settlement.note}`}
+                      </p>
+                    </div>
+                    {canEdit && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title="Delete"
+                        onClick={() => handleDelete(settlement)}
+                        className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Balances;
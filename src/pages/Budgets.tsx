@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import CategorySelect from '@/components/CategorySelect';
+import { ArrowLeft, Edit, Target, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrencySettings } from '@/hooks/use-currency-settings';
+import { useCategories } from '@/hooks/use-categories';
+import { useLedgers } from '@/hooks/use-ledgers';
+import { supabase } from '@/integrations/supabase/client';
+import { Budget, BudgetPeriod, BUDGET_PERIODS } from '@/lib/budgets';
+import { formatMoney } from '@/lib/currency';
+
+const Budgets = () => {
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [form, setForm] = useState({
+    category: '',
+    period: 'monthly' as BudgetPeriod,
+    amount: ''
+  });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { baseCurrency } = useCurrencySettings();
+  const { current: ledger, canEdit } = useLedgers();
+  const { activeCategories } = useCategories(ledger?.id ?? '');
+  const navigate = useNavigate();
+
+  // Budgets are set per ledger, against the spending of all its members
+  useEffect(() => {
+    if (ledger) loadBudgets(ledger.id);
+    resetForm();
+  }, [ledger?.id]);
+
+  const loadBudgets = async (ledgerId = ledger?.id) => {
+    if (!ledgerId) return;
+    try {
+      const { data, error } = await supabase
+        .from('budgets')
+        .select('*')
+        .eq('ledger_id', ledgerId)
+        .order('category', { ascending: true });
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load budgets: " + error.message,
+        });
+      } else {
+        setBudgets(data || []);
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred while loading budgets",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setForm({ category: '', period: 'monthly', amount: '' });
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(form.amount);
+    if (!form.category || !form.amount || isNaN(amount) || amount <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Please choose a category and enter a positive limit.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!ledger) return;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        navigate('/login');
+        return;
+      }
+
+      const { error } = editingId
+        ? await supabase
+            .from('budgets')
+            .update({ category: form.category, period: form.period, amount })
+            .eq('id', editingId)
+        : await supabase
+            .from('budgets')
+            .upsert(
+              { category: form.category, period: form.period, amount, ledger_id: ledger.id, user_id: user.id },
+              { onConflict: 'ledger_id,category,period' }
+            );
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to save budget: " + error.message,
+        });
+        return;
+      }
+
+      toast({
+        title: "Success",
+        description: editingId ? "Budget updated successfully!" : "Budget saved successfully!"
+      });
+      resetForm();
+      await loadBudgets();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred",
+      });
+    }
+  };
+
+  const handleEdit = (budget: Budget) => {
+    setForm({
+      category: budget.category,
+      period: budget.period as BudgetPeriod,
+      amount: budget.amount.toString()
+    });
+    setEditingId(budget.id);
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('budgets')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to delete budget: " + error.message,
+        });
+        return;
+      }
+
+      toast({
+        title: "Success",
+        description: "Budget deleted successfully!"
+      });
+      if (editingId === id) resetForm();
+      await loadBudgets();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred while deleting budget",
+      });
+    }
+  };
+
+  const periodLabel = (period: string) =>
+    BUDGET_PERIODS.find(p => p.value === period)?.label ?? period;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Budgets
+            </h1>
+            <p className="text-muted-foreground">
+              Set spending limits per category
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="h-5 w-5 text-primary" />
+                {editingId ? 'Edit Budget' : 'Add Budget'}
+              </CardTitle>
+              <CardDescription>
+                Saving a budget for a category and period that already has one replaces its limit.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="budget-category">Category</Label>
+                  <CategorySelect
+                    id="budget-category"
+                    value={form.category}
+                    onChange={(value) => setForm(prev => ({ ...prev, category: value }))}
+                    categories={activeCategories.filter(category => category.kind === 'expense')}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="budget-period">Period</Label>
+                  <Select value={form.period} onValueChange={(value) => setForm(prev => ({ ...prev, period: value as BudgetPeriod }))}>
+                    <SelectTrigger id="budget-period" className="bg-background/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BUDGET_PERIODS.map(period => (
+                        <SelectItem key={period.value} value={period.value}>
+                          {period.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="budget-amount">Limit ({baseCurrency})</Label>
+                  <Input
+                    id="budget-amount"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0.00"
+                    value={form.amount}
+                    onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                    className="bg-background/50"
+                  />
+                </div>
+
+                {!canEdit && ledger && (
+                  <p className="text-sm text-muted-foreground">
+                    You can view the budgets of "{ledger.name}" but not change them.
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    type="submit"
+                    disabled={!canEdit}
+                    className="flex-1 bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+                  >
+                    {editingId ? 'Update Budget' : 'Save Budget'}
+                  </Button>
+                  {editingId && (
+                    <Button type="button" variant="outline" onClick={resetForm}>
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle>{ledger ? `Budgets of ${ledger.name}` : 'Budgets'}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {loading ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading...</div>
+                ) : budgets.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Target className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                    <p>No budgets yet</p>
+                  </div>
+                ) : (
+                  budgets.map(budget => (
+                    <div
+                      key={budget.id}
+                      className="bg-background/50 p-4 rounded-lg border border-border/50 flex items-center justify-between"
+                    >
+                      <div>
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="font-semibold">{budget.category}</span>
+                          <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded-full">
+                            {periodLabel(budget.period)}
+                          </span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">{formatMoney(budget.amount, baseCurrency)}</p>
+                      </div>
+                      {canEdit && (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleEdit(budget)}
+                            className="h-8 w-8 p-0 hover:bg-primary/10"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDelete(budget.id)}
+                            className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Budgets;
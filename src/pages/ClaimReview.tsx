@@ -0,0 +1,216 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import ClaimCard from '@/components/ClaimCard';
+import { ArrowLeft, ClipboardCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useClaims, useSetClaimStatus } from '@/hooks/use-claims';
+import { useLedgerMembers, useLedgers } from '@/hooks/use-ledgers';
+import { supabase } from '@/integrations/supabase/client';
+import { Claim, ClaimStatus } from '@/lib/claims';
+
+const REVIEW_MESSAGES: Partial<Record<ClaimStatus, string>> = {
+  approved: 'Claim approved.',
+  rejected: 'Claim rejected; the claimant can see your comment.',
+  reimbursed: 'Claim marked as reimbursed.'
+};
+
+// Claims waiting for an approver: submitted ones to approve or reject and
+// approved ones to pay out. Nobody reviews their own claims.
+const ClaimReview = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { current: ledger, canApprove } = useLedgers();
+  const ledgerId = ledger?.id ?? '';
+  const [userId, setUserId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<Claim | null>(null);
+  const [comment, setComment] = useState('');
+  const { data: members = [] } = useLedgerMembers(ledgerId);
+  const claims = useClaims(ledgerId, { enabled: !!ledger && canApprove });
+  const setStatus = useSetClaimStatus();
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    if (!claims.error) return;
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: "Failed to load claims: " + claims.error.message,
+    });
+  }, [claims.error, toast]);
+
+  const review = async (claim: Claim, status: ClaimStatus, reviewComment?: string) => {
+    try {
+      await setStatus.mutateAsync({ claim, status, comment: reviewComment });
+      toast({
+        title: "Success",
+        description: REVIEW_MESSAGES[status],
+      });
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to review claim: " + (error as Error).message,
+      });
+      return false;
+    }
+  };
+
+  const handleReject = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!rejecting) return;
+    if (!comment.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Please say why the claim is rejected.",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (await review(rejecting, 'rejected', comment.trim())) {
+      setRejecting(null);
+      setComment('');
+    }
+  };
+
+  const others = (claims.data || []).filter(claim => claim.user_id !== userId);
+  const submitted = others.filter(claim => claim.status === 'submitted');
+  const approved = others.filter(claim => claim.status === 'approved');
+  const loading = !ledger || (canApprove && claims.isPending);
+
+  const renderQueue = (title: string, queue: Claim[], empty: string) => (
+    <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {loading ? (
+            <div className="text-center py-8 text-muted-foreground">Loading...</div>
+          ) : queue.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <ClipboardCheck className="h-12 w-12 mx-auto mb-2 opacity-50" />
+              <p>{empty}</p>
+            </div>
+          ) : (
+            queue.map(claim => (
+              <ClaimCard
+                key={claim.id}
+                claim={claim}
+                members={members}
+                actions={
+                  claim.status === 'submitted' ? (
+                    <>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={setStatus.isPending}
+                        onClick={() => setRejecting(claim)}
+                        className="hover:bg-destructive/10 hover:text-destructive"
+                      >
+                        Reject
+                      </Button>
+                      <Button size="sm" disabled={setStatus.isPending} onClick={() => review(claim, 'approved')}>
+                        Approve
+                      </Button>
+                    </>
+                  ) : (
+                    <Button size="sm" disabled={setStatus.isPending} onClick={() => review(claim, 'reimbursed')}>
+                      Mark reimbursed
+                    </Button>
+                  )
+                }
+              />
+            ))
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button
+            onClick={() => navigate('/claims')}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Claim Review
+            </h1>
+            <p className="text-muted-foreground">
+              Approve, reject and pay out expense claims{ledger && ` in "${ledger.name}"`}
+            </p>
+          </div>
+        </div>
+
+        {ledger && !canApprove ? (
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardContent className="py-8 text-center text-muted-foreground">
+              Only approvers review claims. Ask an owner of "{ledger.name}" to make you one.
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {renderQueue('Awaiting Review', submitted, 'No claims to review')}
+            {renderQueue('Awaiting Reimbursement', approved, 'No approved claims to pay out')}
+          </>
+        )}
+      </div>
+
+      <Dialog open={rejecting !== null} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <form onSubmit={handleReject} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Reject "{rejecting?.title}"?</DialogTitle>
+              <DialogDescription>
+                The claimant sees your comment and can reopen the claim to fix it.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="reject-comment">Comment</Label>
+              <Textarea
+                id="reject-comment"
+                placeholder="e.g. The hotel receipt is missing"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRejecting(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={setStatus.isPending}>
+                Reject
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ClaimReview;
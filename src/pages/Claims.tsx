@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import ClaimCard from '@/components/ClaimCard';
+import { ArrowLeft, Briefcase, ClipboardCheck, Plus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useClaims, useCreateClaim, useDeleteClaim, useRemoveClaimExpense, useSetClaimStatus } from '@/hooks/use-claims';
+import { useLedgerMembers, useLedgers } from '@/hooks/use-ledgers';
+import { supabase } from '@/integrations/supabase/client';
+import { Claim, ClaimStatus } from '@/lib/claims';
+
+// Toast shown for each move a claimant makes
+const MOVE_MESSAGES: Partial<Record<ClaimStatus, string>> = {
+  submitted: 'Claim submitted for review.',
+  draft: 'Claim moved back to draft.'
+};
+
+// The signed-in user's expense claims in the current ledger
+const Claims = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { current: ledger, canEdit, canApprove } = useLedgers();
+  const ledgerId = ledger?.id ?? '';
+  const [userId, setUserId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const { data: members = [] } = useLedgerMembers(ledgerId);
+  const claims = useClaims(ledgerId, { enabled: !!ledger });
+  const createClaim = useCreateClaim();
+  const deleteClaim = useDeleteClaim();
+  const removeExpense = useRemoveClaimExpense();
+  const setStatus = useSetClaimStatus();
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    if (!claims.error) return;
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: "Failed to load claims: " + claims.error.message,
+    });
+  }, [claims.error, toast]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Please give the claim a title.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await createClaim.mutateAsync({ ledgerId, title: title.trim() });
+      setTitle('');
+      toast({
+        title: "Claim created",
+        description: "Select expenses in the history and choose \"Add to claim\".",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to create claim: " + (error as Error).message,
+      });
+    }
+  };
+
+  const handleMove = async (claim: Claim, status: ClaimStatus) => {
+    try {
+      await setStatus.mutateAsync({ claim, status });
+      toast({
+        title: "Success",
+        description: MOVE_MESSAGES[status],
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to update claim: " + (error as Error).message,
+      });
+    }
+  };
+
+  const handleDelete = async (claim: Claim) => {
+    try {
+      await deleteClaim.mutateAsync(claim);
+      toast({
+        title: "Success",
+        description: "Claim deleted; its expenses are kept.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to delete claim: " + (error as Error).message,
+      });
+    }
+  };
+
+  const handleRemoveExpense = async (claim: Claim, expenseId: string) => {
+    try {
+      await removeExpense.mutateAsync({ claim, expenseId });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to remove expense from claim: " + (error as Error).message,
+      });
+    }
+  };
+
+  const myClaims = (claims.data || []).filter(claim => claim.user_id === userId);
+  const busy = setStatus.isPending || deleteClaim.isPending;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Expense Claims
+            </h1>
+            <p className="text-muted-foreground">
+              Group business expenses{ledger && ` of "${ledger.name}"`} and submit them for reimbursement
+            </p>
+          </div>
+          {canApprove && (
+            <Button
+              onClick={() => navigate('/claims/review')}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+            >
+              <ClipboardCheck className="h-4 w-4" />
+              Review queue
+            </Button>
+          )}
+        </div>
+
+        {canEdit && (
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Plus className="h-5 w-5 text-primary" />
+                New Claim
+              </CardTitle>
+              <CardDescription>
+                A claim starts as a draft; add expenses to it from the history, then submit it for review.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleCreate} className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="claim-title">Title</Label>
+                  <Input
+                    id="claim-title"
+                    placeholder="e.g. Berlin client visit"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    className="bg-background/50"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  disabled={createClaim.isPending}
+                  className="bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+                >
+                  Create
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+          <CardHeader>
+            <CardTitle>My Claims</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {!ledger || claims.isPending ? (
+                <div className="text-center py-8 text-muted-foreground">Loading...</div>
+              ) : myClaims.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Briefcase className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                  <p>No claims yet</p>
+                </div>
+              ) : (
+                myClaims.map(claim => (
+                  <ClaimCard
+                    key={claim.id}
+                    claim={claim}
+                    members={members}
+                    onRemoveExpense={claim.status === 'draft' ? (expenseId) => handleRemoveExpense(claim, expenseId) : undefined}
+                    actions={
+                      claim.status === 'draft' ? (
+                        <>
+                          <Button size="sm" variant="outline" disabled={busy} onClick={() => handleDelete(claim)}>
+                            Delete
+                          </Button>
+                          <Button
+                            size="sm"
+                            disabled={busy || claim.expenses.length === 0}
+                            onClick={() => handleMove(claim, 'submitted')}
+                          >
+                            Submit
+                          </Button>
+                        </>
+                      ) : claim.status === 'submitted' ? (
+                        <Button size="sm" variant="outline" disabled={busy} onClick={() => handleMove(claim, 'draft')}>
+                          Withdraw
+                        </Button>
+                      ) : claim.status === 'rejected' ? (
+                        <Button size="sm" variant="outline" disabled={busy} onClick={() => handleMove(claim, 'draft')}>
+                          Reopen as draft
+                        </Button>
+                      ) : undefined
+                    }
+                  />
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Claims;
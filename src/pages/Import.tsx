@@ -0,0 +1,562 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import CurrencySelect from '@/components/CurrencySelect';
+import CategorySelect from '@/components/CategorySelect';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ArrowLeft, CheckCircle2, FileUp, XCircle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrencySettings } from '@/hooks/use-currency-settings';
+import { useCategories } from '@/hooks/use-categories';
+import { fetchAllExpenses } from '@/hooks/use-expenses';
+import { useLedgers } from '@/hooks/use-ledgers';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_CATEGORY_ICON, fallbackCategoryColor } from '@/lib/categories';
+import { parseCsv } from '@/lib/csv';
+import { formatMoney } from '@/lib/currency';
+import { NO_EXPENSE_FILTERS } from '@/lib/expenseHistory';
+import {
+  ColumnMapping,
+  DateOrder,
+  DecimalSeparator,
+  IMPORT_FIELDS,
+  ImportField,
+  ImportOptions,
+  ParsedImportRow,
+  guessColumnMapping,
+  markDuplicates,
+  parseImportRows
+} from '@/lib/expenseImport';
+
+type Step = 'upload' | 'map' | 'review' | 'done';
+
+interface RowError {
+  line: number;
+  message: string;
+}
+
+const BATCH_SIZE = 100;
+const PREVIEW_ROWS = 5;
+
+const Import = () => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({ amount: null, currency: null, category: null, description: null, date: null });
+  const [options, setOptions] = useState<Omit<ImportOptions, 'defaultCurrency' | 'knownCategories'>>({
+    dateOrder: 'dmy',
+    decimalSeparator: '.',
+    defaultCategory: 'Other'
+  });
+  const [defaultCurrency, setDefaultCurrency] = useState('');
+  const [parsedRows, setParsedRows] = useState<ParsedImportRow[]>([]);
+  const [includedDuplicates, setIncludedDuplicates] = useState<Set<number>>(new Set());
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [importedCount, setImportedCount] = useState(0);
+  const [rowErrors, setRowErrors] = useState<RowError[]>([]);
+  const { toast } = useToast();
+  const { baseCurrency } = useCurrencySettings();
+  const { current: ledger, canEdit } = useLedgers();
+  const { categories, activeCategories, reload: reloadCategories } = useCategories(ledger?.id ?? '');
+  const navigate = useNavigate();
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setParsedRows([]);
+    setIncludedDuplicates(new Set());
+    setProgress(0);
+    setImportedCount(0);
+    setRowErrors([]);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const rows = parseCsv(await file.text());
+      if (rows.length < 2) {
+        toast({
+          variant: "destructive",
+          title: "Empty file",
+          description: "The CSV needs a header row and at least one data row.",
+        });
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(rows[0].map(header => header.trim()));
+      setDataRows(rows.slice(1));
+      setMapping(guessColumnMapping(rows[0]));
+      setStep('map');
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not read the selected file",
+      });
+    }
+  };
+
+  const handleReview = async () => {
+    const missing = IMPORT_FIELDS.filter(field => field.required && mapping[field.value] === null);
+    if (missing.length > 0) {
+      toast({
+        title: "Validation Error",
+        description: `Please map a column to: ${missing.map(field => field.label).join(', ')}.`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const rows = parseImportRows(dataRows, mapping, {
+      ...options,
+      defaultCurrency: defaultCurrency || baseCurrency,
+      knownCategories: categories.map(category => category.name)
+    });
+    const dates = rows.map(row => row.date).filter((date): date is string => date !== null).sort();
+
+    try {
+      let existing: { amount: number; date: string; description: string | null }[] = [];
+      if (dates.length > 0 && ledger) {
+        // Paged, as a long date range can hold more rows than one request returns
+        try {
+          existing = await fetchAllExpenses({
+            ...NO_EXPENSE_FILTERS,
+            ledger: ledger.id,
+            from: dates[0],
+            to: dates[dates.length - 1]
+          });
+        } catch (error) {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Failed to check for duplicates: " + (error as Error).message,
+          });
+          return;
+        }
+      }
+
+      setParsedRows(markDuplicates(rows, existing));
+      setIncludedDuplicates(new Set());
+      setStep('review');
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred while checking for duplicates",
+      });
+    }
+  };
+
+  const rowsToImport = parsedRows.filter(row =>
+    row.errors.length === 0 && (!row.duplicate || includedDuplicates.has(row.line))
+  );
+
+  const handleImport = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      navigate('/login');
+      return;
+    }
+    if (!ledger) return;
+
+    setImporting(true);
+    const errors: RowError[] = parsedRows
+      .filter(row => row.errors.length > 0)
+      .map(row => ({ line: row.line, message: row.errors.join('; ') }));
+    let imported = 0;
+
+    const toInsert = (row: ParsedImportRow) => ({
+      amount: row.amount as number,
+      currency: row.currency,
+      category: row.category,
+      description: row.description,
+      date: row.date as string,
+      ledger_id: ledger.id,
+      user_id: user.id
+    });
+
+    try {
+      // Categories seen for the first time in the file become regular categories
+      const knownNames = new Set(categories.map(category => category.name));
+      const newNames = [...new Set(rowsToImport.map(row => row.category))].filter(name => !knownNames.has(name));
+      if (newNames.length > 0) {
+        const { error } = await supabase
+          .from('categories')
+          .upsert(
+            newNames.map((name, index) => ({
+              ledger_id: ledger.id,
+              user_id: user.id,
+              name,
+              color: fallbackCategoryColor(name),
+              icon: DEFAULT_CATEGORY_ICON,
+              sort_order: categories.length + index
+            })),
+            { onConflict: 'ledger_id,name', ignoreDuplicates: true }
+          );
+
+        if (error) {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Failed to create imported categories: " + error.message,
+          });
+        } else {
+          await reloadCategories();
+        }
+      }
+
+      for (let start = 0; start < rowsToImport.length; start += BATCH_SIZE) {
+        const batch = rowsToImport.slice(start, start + BATCH_SIZE);
+        const { error } = await supabase.from('expenses').insert(batch.map(toInsert));
+
+        if (error) {
+          // A batch insert is all-or-nothing; retry row by row to report exactly which rows fail
+          for (const row of batch) {
+            const { error: rowError } = await supabase.from('expenses').insert(toInsert(row));
+            if (rowError) errors.push({ line: row.line, message: rowError.message });
+            else imported++;
+          }
+        } else {
+          imported += batch.length;
+        }
+
+        setProgress(Math.round(((start + batch.length) / rowsToImport.length) * 100));
+      }
+
+      toast({
+        title: "Import finished",
+        description: `${imported} ${imported === 1 ? 'expense' : 'expenses'} imported.`
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred during import",
+      });
+    } finally {
+      errors.sort((a, b) => a.line - b.line);
+      setImportedCount(imported);
+      setRowErrors(errors);
+      setImporting(false);
+      setStep('done');
+    }
+  };
+
+  const toggleDuplicate = (line: number, checked: boolean) => {
+    setIncludedDuplicates(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(line);
+      else next.delete(line);
+      return next;
+    });
+  };
+
+  const errorCount = parsedRows.filter(row => row.errors.length > 0).length;
+  const duplicateCount = parsedRows.filter(row => row.duplicate).length;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Import Expenses
+            </h1>
+            <p className="text-muted-foreground">
+              Bulk-load historical expenses from a CSV file{ledger && ` into "${ledger.name}"`}
+            </p>
+          </div>
+        </div>
+
+        {step === 'upload' && (
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileUp className="h-5 w-5 text-primary" />
+                Choose a CSV file
+              </CardTitle>
+              <CardDescription>
+                The first row must contain column headers. Comma, semicolon, tab and pipe separated files are supported.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleFile}
+                className="bg-background/50"
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'map' && (
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle>Map columns</CardTitle>
+              <CardDescription>
+                {fileName} · {dataRows.length} data {dataRows.length === 1 ? 'row' : 'rows'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+                {IMPORT_FIELDS.map(field => (
+                  <div key={field.value} className="space-y-2">
+                    <Label>{field.label}{field.required ? ' *' : ''}</Label>
+                    <Select
+                      value={mapping[field.value] === null ? 'none' : String(mapping[field.value])}
+                      onValueChange={(value) => setMapping(prev => ({
+                        ...prev,
+                        [field.value as ImportField]: value === 'none' ? null : Number(value)
+                      }))}
+                    >
+                      <SelectTrigger className="bg-background/50">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not mapped</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="space-y-2">
+                  <Label>Date format</Label>
+                  <Select
+                    value={options.dateOrder}
+                    onValueChange={(value) => setOptions(prev => ({ ...prev, dateOrder: value as DateOrder }))}
+                  >
+                    <SelectTrigger className="bg-background/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="dmy">Day first (31/07/2025)</SelectItem>
+                      <SelectItem value="mdy">Month first (07/31/2025)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Number format</Label>
+                  <Select
+                    value={options.decimalSeparator}
+                    onValueChange={(value) => setOptions(prev => ({ ...prev, decimalSeparator: value as DecimalSeparator }))}
+                  >
+                    <SelectTrigger className="bg-background/50">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=".">1,00,000.50 or 100,000.50</SelectItem>
+                      <SelectItem value=",">100.000,50</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Category for rows without one</Label>
+                  <CategorySelect
+                    value={options.defaultCategory}
+                    onChange={(value) => setOptions(prev => ({ ...prev, defaultCategory: value }))}
+                    categories={activeCategories.filter(category => category.kind === 'expense')}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Currency for rows without one</Label>
+                  <CurrencySelect value={defaultCurrency || baseCurrency} onChange={setDefaultCurrency} />
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium mb-2">Preview</p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {headers.map((header, index) => (
+                        <TableHead key={index}>{header || `Column ${index + 1}`}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dataRows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                      <TableRow key={rowIndex}>
+                        {headers.map((_, index) => (
+                          <TableCell key={index}>{row[index]}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={reset}>Choose another file</Button>
+                <Button
+                  onClick={handleReview}
+                  className="bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+                >
+                  Review rows
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'review' && (
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle>Review</CardTitle>
+              <CardDescription>
+                {rowsToImport.length} ready to import · {duplicateCount} likely {duplicateCount === 1 ? 'duplicate' : 'duplicates'} · {errorCount} with errors
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="max-h-[32rem] overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {parsedRows.map(row => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        <TableCell>{row.date ?? '—'}</TableCell>
+                        <TableCell className="text-right">
+                          {row.amount !== null ? formatMoney(row.amount, row.currency) : '—'}
+                        </TableCell>
+                        <TableCell>{row.description}</TableCell>
+                        <TableCell>{row.category}</TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <span className="flex items-center gap-1 text-destructive text-xs">
+                              <XCircle className="h-4 w-4 shrink-0" />
+                              {row.errors.join('; ')}
+                            </span>
+                          ) : row.duplicate ? (
+                            <label className="flex items-center gap-2 text-warning text-xs">
+                              <AlertTriangle className="h-4 w-4 shrink-0" />
+                              Duplicate
+                              <Checkbox
+                                checked={includedDuplicates.has(row.line)}
+                                onCheckedChange={(checked) => toggleDuplicate(row.line, checked === true)}
+                              />
+                              <span className="text-muted-foreground">import anyway</span>
+                            </label>
+                          ) : (
+                            <span className="flex items-center gap-1 text-success text-xs">
+                              <CheckCircle2 className="h-4 w-4 shrink-0" />
+                              Ready
+                            </span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {importing && <Progress value={progress} className="h-2" />}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setStep('map')} disabled={importing}>
+                  Back to mapping
+                </Button>
+                <Button
+                  onClick={handleImport}
+                  disabled={importing || !canEdit || rowsToImport.length === 0}
+                  className="bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+                >
+                  {importing ? 'Importing...' : `Import ${rowsToImport.length} ${rowsToImport.length === 1 ? 'row' : 'rows'}`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === 'done' && (
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CheckCircle2 className="h-5 w-5 text-success" />
+                Import complete
+              </CardTitle>
+              <CardDescription>
+                {importedCount} imported · {rowErrors.length} failed · {parsedRows.length - importedCount - rowErrors.length} skipped as duplicates
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {rowErrors.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium mb-2">Rows not imported</p>
+                  <div className="max-h-80 overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Line</TableHead>
+                          <TableHead>Reason</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rowErrors.map(error => (
+                          <TableRow key={error.line}>
+                            <TableCell className="text-muted-foreground">{error.line}</TableCell>
+                            <TableCell className="text-destructive">{error.message}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={reset}>Import another file</Button>
+                <Button
+                  onClick={() => navigate('/')}
+                  className="bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+                >
+                  View expenses
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Import;
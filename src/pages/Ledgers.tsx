@@ -0,0 +1,517 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, BookOpen, Copy, Mail, Plus, UserMinus, UserPlus, Users, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useChangeMemberRole,
+  useCreateLedger,
+  useInviteToLedger,
+  useLedgerInvitations,
+  useLedgerMembers,
+  useLedgers,
+  useRemoveMember,
+  useRenameLedger,
+  useRevokeInvitation,
+  useSetClaimApprover
+} from '@/hooks/use-ledgers';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  LEDGER_ROLES,
+  Ledger,
+  LedgerInvitation,
+  LedgerMember,
+  LedgerRole,
+  canApproveClaims,
+  invitationLink,
+  invitationMailto,
+  isValidEmail,
+  roleLabel
+} from '@/lib/ledgers';
+
+// Members and invitations of one ledger; only owners can change them
+const LedgerMembers = ({ ledger, userId }: { ledger: Ledger; userId: string | null }) => {
+  const [inviteForm, setInviteForm] = useState({ email: '', role: 'editor' as LedgerRole });
+  const [name, setName] = useState(ledger.name);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const isOwner = ledger.role === 'owner';
+  const members = useLedgerMembers(ledger.id);
+  const invitations = useLedgerInvitations(ledger.id, { enabled: isOwner });
+  const renameLedger = useRenameLedger();
+  const changeRole = useChangeMemberRole();
+  const removeMember = useRemoveMember();
+  const setApprover = useSetClaimApprover();
+  const invite = useInviteToLedger();
+  const revokeInvitation = useRevokeInvitation();
+
+  useEffect(() => {
+    setName(ledger.name);
+  }, [ledger.name]);
+
+  const loadError = members.error ?? invitations.error;
+  useEffect(() => {
+    if (loadError) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load ledger members: " + loadError.message,
+      });
+    }
+  }, [loadError, toast]);
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    try {
+      await renameLedger.mutateAsync({ ledgerId: ledger.id, name: name.trim() });
+      toast({
+        title: "Success",
+        description: "Ledger renamed.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to rename ledger: " + (error as Error).message,
+      });
+    }
+  };
+
+  const handleRoleChange = async (member: LedgerMember, role: LedgerRole) => {
+    try {
+      await changeRole.mutateAsync({ member, role });
+      toast({
+        title: "Success",
+        description: `${member.email} is now ${roleLabel(role).toLowerCase()}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to change role: " + (error as Error).message,
+      });
+    }
+  };
+
+  const handleApproverChange = async (member: LedgerMember, canApprove: boolean) => {
+    try {
+      await setApprover.mutateAsync({ member, canApprove });
+      toast({
+        title: "Success",
+        description: canApprove
+          ? `${member.email} can now approve expense claims.`
+          : `${member.email} no longer approves expense claims.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to change approver: " + (error as Error).message,
+      });
+    }
+  };
+
+  const handleRemove = async (member: LedgerMember) => {
+    const leaving = member.user_id === userId;
+    try {
+      await removeMember.mutateAsync(member);
+      toast({
+        title: "Success",
+        description: leaving ? `You left "${ledger.name}".` : `${member.email} was removed.`,
+      });
+      if (leaving) navigate('/');
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (leaving ? "Failed to leave ledger: " : "Failed to remove member: ") + (error as Error).message,
+      });
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = inviteForm.email.trim();
+    if (!isValidEmail(email)) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter a valid email address.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const invitation = await invite.mutateAsync({ ledgerId: ledger.id, email, role: inviteForm.role });
+      setInviteForm(prev => ({ ...prev, email: '' }));
+      toast({
+        title: "Invitation created",
+        description: `Send ${email} the invitation link; it is valid for 7 days.`,
+      });
+      window.location.href = invitationMailto(invitation, ledger.name);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to invite: " + (error as Error).message,
+      });
+    }
+  };
+
+  const handleCopyLink = async (invitation: LedgerInvitation) => {
+    try {
+      await navigator.clipboard.writeText(invitationLink(invitation.token));
+      toast({
+        title: "Link copied",
+        description: `Share it with ${invitation.email} to let them join.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not copy the invitation link",
+      });
+    }
+  };
+
+  const handleRevoke = async (invitation: LedgerInvitation) => {
+    try {
+      await revokeInvitation.mutateAsync(invitation);
+      toast({
+        title: "Success",
+        description: `Invitation for ${invitation.email} revoked.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to revoke invitation: " + (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5 text-primary" />
+          Members of "{ledger.name}"
+        </CardTitle>
+        <CardDescription>
+          {LEDGER_ROLES.map(role => `${role.label}s: ${role.description.toLowerCase()}`).join(' · ')}
+          {' · Approvers: review expense claims'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isOwner && (
+          <form onSubmit={handleRename} className="flex items-end gap-2">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="ledger-name">Name</Label>
+              <Input
+                id="ledger-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="bg-background/50"
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={renameLedger.isPending || name.trim() === ledger.name}>
+              Rename
+            </Button>
+          </form>
+        )}
+
+        <div className="space-y-3">
+          {members.isPending ? (
+            <div className="text-center py-4 text-muted-foreground">Loading...</div>
+          ) : (
+            (members.data || []).map(member => {
+              const isSelf = member.user_id === userId;
+              return (
+                <div
+                  key={member.user_id}
+                  className="flex items-center justify-between gap-4 bg-background/50 p-3 rounded-lg border border-border/50"
+                >
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate font-medium">{member.email || 'Unknown member'}</p>
+                    {isSelf && <p className="text-xs text-muted-foreground">You</p>}
+                  </div>
+                  {isOwner && member.role !== 'owner' ? (
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id={`approver-${member.user_id}`}
+                        checked={member.can_approve}
+                        onCheckedChange={(checked) => handleApproverChange(member, checked)}
+                      />
+                      <Label htmlFor={`approver-${member.user_id}`} className="text-xs">Approver</Label>
+                    </div>
+                  ) : canApproveClaims(member) && (
+                    <Badge variant="outline">Approver</Badge>
+                  )}
+                  {isOwner && !isSelf ? (
+                    <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as LedgerRole)}>
+                      <SelectTrigger className="w-32 bg-background/50">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {LEDGER_ROLES.map(role => (
+                          <SelectItem key={role.value} value={role.value}>
+                            {role.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="secondary">{roleLabel(member.role)}</Badge>
+                  )}
+                  {(isOwner || isSelf) && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title={isSelf ? 'Leave ledger' : 'Remove member'}
+                      onClick={() => handleRemove(member)}
+                      className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                    >
+                      <UserMinus className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {isOwner && (
+          <div className="space-y-4">
+            <form onSubmit={handleInvite} className="space-y-2">
+              <Label htmlFor="invite-email">Invite by email</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="invite-email"
+                  type="email"
+                  placeholder="name@example.com"
+                  value={inviteForm.email}
+                  onChange={(e) => setInviteForm(prev => ({ ...prev, email: e.target.value }))}
+                  className="bg-background/50"
+                />
+                <Select
+                  value={inviteForm.role}
+                  onValueChange={(value) => setInviteForm(prev => ({ ...prev, role: value as LedgerRole }))}
+                >
+                  <SelectTrigger className="w-32 bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEDGER_ROLES.filter(role => role.value !== 'owner').map(role => (
+                      <SelectItem key={role.value} value={role.value}>
+                        {role.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button type="submit" disabled={invite.isPending} className="flex items-center gap-2">
+                  <UserPlus className="h-4 w-4" />
+                  Invite
+                </Button>
+              </div>
+            </form>
+
+            {(invitations.data || []).length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Pending invitations</p>
+                {(invitations.data || []).map(invitation => {
+                  const expired = new Date(invitation.expires_at) < new Date();
+                  return (
+                    <div
+                      key={invitation.id}
+                      className="flex items-center justify-between gap-2 bg-background/50 p-3 rounded-lg border border-border/50"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate text-sm">{invitation.email}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {roleLabel(invitation.role)}
+                          {expired ? ' · expired' : ` · expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      {!expired && (
+                        <>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            title="Copy invitation link"
+                            onClick={() => handleCopyLink(invitation)}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="outline" title="Send by email" className="h-8 w-8 p-0" asChild>
+                            <a href={invitationMailto(invitation, ledger.name)}>
+                              <Mail className="h-4 w-4" />
+                            </a>
+                          </Button>
+                        </>
+                      )}
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        title="Revoke invitation"
+                        onClick={() => handleRevoke(invitation)}
+                        className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+const Ledgers = () => {
+  const [newName, setNewName] = useState('');
+  const [userId, setUserId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { ledgers, current, switchLedger, loading, error } = useLedgers();
+  const createLedger = useCreateLedger();
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setUserId(user?.id ?? null));
+  }, []);
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load ledgers: " + error.message,
+      });
+    }
+  }, [error, toast]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter a name for the ledger.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      await createLedger.mutateAsync(newName.trim());
+      toast({
+        title: "Success",
+        description: `Ledger "${newName.trim()}" created. Invite others to share it.`,
+      });
+      setNewName('');
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to create ledger: " + (error as Error).message,
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Ledgers
+            </h1>
+            <p className="text-muted-foreground">
+              Share expenses with your household or team and choose who can change them
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BookOpen className="h-5 w-5 text-primary" />
+                Your Ledgers
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-3">
+                {loading ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading...</div>
+                ) : (
+                  ledgers.map(ledger => (
+                    <div
+                      key={ledger.id}
+                      className="flex items-center justify-between gap-4 bg-background/50 p-4 rounded-lg border border-border/50"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p className="truncate font-semibold">{ledger.name}</p>
+                        <p className="text-xs text-muted-foreground">{roleLabel(ledger.role)}</p>
+                      </div>
+                      {ledger.id === current?.id ? (
+                        <Badge>Current</Badge>
+                      ) : (
+                        <Button size="sm" variant="outline" onClick={() => switchLedger(ledger.id)}>
+                          Switch
+                        </Button>
+                      )}
+                    </div>
+                  ))
+                )}
+              </div>
+
+              <form onSubmit={handleCreate} className="space-y-2">
+                <Label htmlFor="new-ledger">New ledger</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="new-ledger"
+                    placeholder="e.g. Flat 4B"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    className="bg-background/50"
+                  />
+                  <Button
+                    type="submit"
+                    disabled={createLedger.isPending}
+                    className="flex items-center gap-2 bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Create
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          {current && <LedgerMembers key={current.id} ledger={current} userId={userId} />}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Ledgers;
@@ -0,0 +1,558 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import CurrencySelect from '@/components/CurrencySelect';
+import CategorySelect from '@/components/CategorySelect';
+import CategoryBadge from '@/components/CategoryBadge';
+import { ArrowLeft, Pause, Play, Repeat, SkipForward, Square, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrencySettings } from '@/hooks/use-currency-settings';
+import { useCategories } from '@/hooks/use-categories';
+import { useLedgers } from '@/hooks/use-ledgers';
+import { supabase } from '@/integrations/supabase/client';
+import { EntryType, ENTRY_TYPES, isIncome } from '@/lib/cashflow';
+import { formatMoney } from '@/lib/currency';
+import { addDays, toDateKey } from '@/lib/dates';
+import { cn } from '@/lib/utils';
+import {
+  RecurringExpense,
+  RecurrenceFrequency,
+  RECURRENCE_FREQUENCIES,
+  getNextOccurrence
+} from '@/lib/recurring';
+
+const emptyForm = () => ({
+  type: 'expense' as EntryType,
+  amount: '',
+  currency: '',
+  category: '',
+  description: '',
+  frequency: 'monthly' as RecurrenceFrequency,
+  interval: '1',
+  dayOfMonth: '',
+  startDate: toDateKey(new Date()),
+  endDate: ''
+});
+
+const Recurring = () => {
+  const [series, setSeries] = useState<RecurringExpense[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+  const { baseCurrency } = useCurrencySettings();
+  const { current: ledger, canEdit } = useLedgers();
+  const { activeCategories, colorFor, iconFor } = useCategories(ledger?.id ?? '');
+  const navigate = useNavigate();
+
+  // Series are listed per ledger, like the expenses they generate
+  useEffect(() => {
+    if (ledger) loadSeries(ledger.id);
+  }, [ledger?.id]);
+
+  const loadSeries = async (ledgerId = ledger?.id) => {
+    if (!ledgerId) return;
+    try {
+      const { data, error } = await supabase
+        .from('recurring_expenses')
+        .select('*')
+        .eq('ledger_id', ledgerId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to load recurring expenses: " + error.message,
+        });
+      } else {
+        setSeries(data || []);
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred while loading recurring expenses",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(form.amount);
+    const interval = parseInt(form.interval, 10);
+    const dayOfMonth = form.dayOfMonth ? parseInt(form.dayOfMonth, 10) : null;
+
+    if (!form.amount || !form.category || !form.description || isNaN(amount)) {
+      toast({
+        title: "Validation Error",
+        description: "Please fill in all required fields.",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (isNaN(interval) || interval < 1 || (dayOfMonth !== null && (dayOfMonth < 1 || dayOfMonth > 31))) {
+      toast({
+        title: "Validation Error",
+        description: "Repeat interval must be at least 1 and day of month between 1 and 31.",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (form.endDate && form.endDate < form.startDate) {
+      toast({
+        title: "Validation Error",
+        description: "End date cannot be before the start date.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!ledger) return;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        navigate('/login');
+        return;
+      }
+
+      const usesDayOfMonth = form.frequency === 'monthly' || form.frequency === 'yearly';
+      const { error } = await supabase
+        .from('recurring_expenses')
+        .insert({
+          amount,
+          currency: form.currency || baseCurrency,
+          category: form.category,
+          description: form.description,
+          frequency: form.frequency,
+          interval,
+          day_of_month: usesDayOfMonth ? dayOfMonth : null,
+          start_date: form.startDate,
+          end_date: form.endDate || null,
+          type: form.type,
+          ledger_id: ledger.id,
+          user_id: user.id
+        });
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to add recurring expense: " + error.message,
+        });
+        return;
+      }
+
+      toast({
+        title: "Success",
+        description: "Recurring expense added successfully!"
+      });
+      setForm(emptyForm());
+      await loadSeries();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred",
+      });
+    }
+  };
+
+  const updateSeries = async (
+    id: string,
+    changes: Partial<RecurringExpense>,
+    successMessage: string
+  ) => {
+    try {
+      const { error } = await supabase
+        .from('recurring_expenses')
+        .update(changes)
+        .eq('id', id);
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to update recurring expense: " + error.message,
+        });
+        return;
+      }
+
+      toast({
+        title: "Success",
+        description: successMessage
+      });
+      await loadSeries();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred",
+      });
+    }
+  };
+
+  const handleTogglePause = (item: RecurringExpense) => {
+    if (item.paused) {
+      // Resume from today without backfilling occurrences missed while paused
+      const yesterday = addDays(toDateKey(new Date()), -1);
+      const lastGenerated = item.last_generated_date && item.last_generated_date > yesterday
+        ? item.last_generated_date
+        : yesterday;
+      updateSeries(item.id, { paused: false, last_generated_date: lastGenerated }, "Recurring expense resumed.");
+    } else {
+      updateSeries(item.id, { paused: true }, "Recurring expense paused.");
+    }
+  };
+
+  const handleSkip = (item: RecurringExpense) => {
+    const next = getNextOccurrence(item);
+    if (!next) return;
+    updateSeries(
+      item.id,
+      { skipped_dates: [...item.skipped_dates, next] },
+      `Skipped the occurrence on ${next}.`
+    );
+  };
+
+  const handleEnd = (item: RecurringExpense) => {
+    updateSeries(item.id, { end_date: toDateKey(new Date()) }, "Recurring expense ended.");
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('recurring_expenses')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to delete recurring expense: " + error.message,
+        });
+        return;
+      }
+
+      toast({
+        title: "Success",
+        description: "Recurring expense deleted. Already generated expenses were kept."
+      });
+      await loadSeries();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred while deleting recurring expense",
+      });
+    }
+  };
+
+  const describeSchedule = (item: RecurringExpense) => {
+    const frequency = RECURRENCE_FREQUENCIES.find(f => f.value === item.frequency);
+    const unit = frequency?.unit ?? item.frequency;
+    const every = item.interval === 1 ? `Every ${unit}` : `Every ${item.interval} ${unit}s`;
+    return item.day_of_month ? `${every} on day ${item.day_of_month}` : every;
+  };
+
+  const todayKey = toDateKey(new Date());
+  const usesDayOfMonth = form.frequency === 'monthly' || form.frequency === 'yearly';
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Recurring Expenses
+            </h1>
+            <p className="text-muted-foreground">
+              Rent, subscriptions, EMIs and salary are added automatically when they fall due
+            </p>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Repeat className="h-5 w-5 text-primary" />
+                Add Recurring Expense
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <Tabs
+                  value={form.type}
+                  onValueChange={(value) => setForm(prev => ({ ...prev, type: value as EntryType, category: '' }))}
+                >
+                  <TabsList className="grid w-full grid-cols-2">
+                    {ENTRY_TYPES.map(type => (
+                      <TabsTrigger key={type.value} value={type.value}>
+                        {type.label}
+                      </TabsTrigger>
+                    ))}
+                  </TabsList>
+                </Tabs>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2 col-span-2">
+                    <Label htmlFor="recurring-amount">Amount</Label>
+                    <Input
+                      id="recurring-amount"
+                      type="number"
+                      step="0.01"
+                      placeholder="0.00"
+                      value={form.amount}
+                      onChange={(e) => setForm(prev => ({ ...prev, amount: e.target.value }))}
+                      className="bg-background/50"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recurring-currency">Currency</Label>
+                    <CurrencySelect
+                      id="recurring-currency"
+                      value={form.currency || baseCurrency}
+                      onChange={(value) => setForm(prev => ({ ...prev, currency: value }))}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-category">Category</Label>
+                  <CategorySelect
+                    id="recurring-category"
+                    value={form.category}
+                    onChange={(value) => setForm(prev => ({ ...prev, category: value }))}
+                    categories={activeCategories.filter(category => category.kind === form.type)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="recurring-description">Description</Label>
+                  <Input
+                    id="recurring-description"
+                    placeholder="e.g. Flat rent"
+                    value={form.description}
+                    onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                    className="bg-background/50"
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="recurring-frequency">Repeats</Label>
+                    <Select
+                      value={form.frequency}
+                      onValueChange={(value) => setForm(prev => ({ ...prev, frequency: value as RecurrenceFrequency }))}
+                    >
+                      <SelectTrigger id="recurring-frequency" className="bg-background/50">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {RECURRENCE_FREQUENCIES.map(frequency => (
+                          <SelectItem key={frequency.value} value={frequency.value}>
+                            {frequency.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recurring-interval">Every</Label>
+                    <Input
+                      id="recurring-interval"
+                      type="number"
+                      min="1"
+                      value={form.interval}
+                      onChange={(e) => setForm(prev => ({ ...prev, interval: e.target.value }))}
+                      className="bg-background/50"
+                    />
+                  </div>
+                </div>
+
+                {usesDayOfMonth && (
+                  <div className="space-y-2">
+                    <Label htmlFor="recurring-day">Day of month</Label>
+                    <Input
+                      id="recurring-day"
+                      type="number"
+                      min="1"
+                      max="31"
+                      placeholder="Same as start date"
+                      value={form.dayOfMonth}
+                      onChange={(e) => setForm(prev => ({ ...prev, dayOfMonth: e.target.value }))}
+                      className="bg-background/50"
+                    />
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="recurring-start">Start date</Label>
+                    <Input
+                      id="recurring-start"
+                      type="date"
+                      value={form.startDate}
+                      onChange={(e) => setForm(prev => ({ ...prev, startDate: e.target.value }))}
+                      className="bg-background/50"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="recurring-end">End date (optional)</Label>
+                    <Input
+                      id="recurring-end"
+                      type="date"
+                      value={form.endDate}
+                      onChange={(e) => setForm(prev => ({ ...prev, endDate: e.target.value }))}
+                      className="bg-background/50"
+                    />
+                  </div>
+                </div>
+
+                {!canEdit && ledger && (
+                  <p className="text-sm text-muted-foreground">
+                    You can view "{ledger.name}" but not add to it.
+                  </p>
+                )}
+                <Button
+                  type="submit"
+                  disabled={!canEdit}
+                  className="w-full bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+                >
+                  Add Recurring Expense
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+            <CardHeader>
+              <CardTitle>Your Series</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {loading ? (
+                  <div className="text-center py-8 text-muted-foreground">Loading...</div>
+                ) : series.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Repeat className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                    <p>No recurring expenses yet</p>
+                  </div>
+                ) : (
+                  series.map(item => {
+                    const next = getNextOccurrence(item);
+                    const ended = next === null;
+                    return (
+                      <div
+                        key={item.id}
+                        className="bg-background/50 p-4 rounded-lg border border-border/50"
+                      >
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2 mb-1">
+                              <span className={cn('font-semibold text-lg', isIncome(item) && 'text-success')}>
+                                {isIncome(item) && '+'}{formatMoney(item.amount, item.currency)}
+                              </span>
+                              {item.category && (
+                                <CategoryBadge
+                                  name={item.category}
+                                  color={colorFor(item.category)}
+                                  icon={iconFor(item.category)}
+                                />
+                              )}
+                              {item.paused && !ended && (
+                                <span className="text-xs bg-warning/10 text-warning px-2 py-1 rounded-full">
+                                  Paused
+                                </span>
+                              )}
+                              {ended && (
+                                <span className="text-xs bg-muted text-muted-foreground px-2 py-1 rounded-full">
+                                  Ended
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-sm text-muted-foreground mb-1">{item.description}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {describeSchedule(item)}
+                              {!ended && !item.paused && ` · next on ${next}`}
+                              {item.end_date && ` · until ${item.end_date}`}
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            {!ended && (
+                              <>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  title={item.paused ? 'Resume' : 'Pause'}
+                                  onClick={() => handleTogglePause(item)}
+                                  className="h-8 w-8 p-0 hover:bg-primary/10"
+                                >
+                                  {item.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  title="Skip next occurrence"
+                                  onClick={() => handleSkip(item)}
+                                  className="h-8 w-8 p-0 hover:bg-primary/10"
+                                >
+                                  <SkipForward className="h-4 w-4" />
+                                </Button>
+                                {item.start_date <= todayKey && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    title="End series today"
+                                    onClick={() => handleEnd(item)}
+                                    className="h-8 w-8 p-0 hover:bg-warning/10 hover:text-warning"
+                                  >
+                                    <Square className="h-4 w-4" />
+                                  </Button>
+                                )}
+                              </>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              title="Delete series"
+                              onClick={() => handleDelete(item.id)}
+                              className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Recurring;
@@ -0,0 +1,362 @@
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import DateRangePicker from '@/components/DateRangePicker';
+import ExpenseCharts from '@/components/ExpenseCharts';
+import { ArrowLeft, ChevronDown, FileText, Folder, Hash } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCategories } from '@/hooks/use-categories';
+import { useCurrencySettings } from '@/hooks/use-currency-settings';
+import { useDateRangeFilter } from '@/hooks/use-date-range-filter';
+import { useAllExpenses } from '@/hooks/use-expenses';
+import { useLedgers } from '@/hooks/use-ledgers';
+import { useTags } from '@/hooks/use-tags';
+import { isIncome } from '@/lib/cashflow';
+import { buildCategoryBreakdown, flattenCategoryTree, rollUpCategoryTotals } from '@/lib/categories';
+import { convertToBase, formatMoney } from '@/lib/currency';
+import { countRangeDays } from '@/lib/dateRange';
+import { NO_EXPENSE_FILTERS } from '@/lib/expenseHistory';
+import { ReportChart, downloadExpenseReport, loadReceiptThumbnails, reportSummary, svgToImage } from '@/lib/report';
+import { formatTag } from '@/lib/tags';
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+// Builds a PDF statement of the current ledger for a date range and an
+// optional selection of categories and tags, previewed as it is set up
+const Reports = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { baseCurrency, convert } = useCurrencySettings();
+  const dateFilter = useDateRangeFilter();
+  const { current: ledger } = useLedgers();
+  const ledgerId = ledger?.id ?? '';
+  const { categories, tree, colorFor, pathOf, belongsTo, loading: categoriesLoading } = useCategories(ledgerId);
+  const { tags, nameOf } = useTags(ledgerId, { enabled: !!ledger });
+  const [title, setTitle] = useState('');
+  const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [includeCharts, setIncludeCharts] = useState(true);
+  const [includeReceipts, setIncludeReceipts] = useState(true);
+  const [generating, setGenerating] = useState(false);
+  const chartsRef = useRef<HTMLDivElement>(null);
+
+  // A selected category includes its sub-categories
+  const categoryNames = selectedCategories.length > 0
+    ? categories
+      .filter(category => selectedCategories.some(name => belongsTo(category.name, name)))
+      .map(category => category.name)
+    : null;
+  const report = useAllExpenses({
+    ...NO_EXPENSE_FILTERS,
+    ledger: ledgerId,
+    from: dateFilter.range.from,
+    to: dateFilter.range.to,
+    categories: categoryNames,
+    tags: selectedTags.length > 0 ? selectedTags : null
+  }, { enabled: !!ledger && !categoriesLoading });
+
+  useEffect(() => {
+    if (!report.error) return;
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: "Failed to load expenses: " + report.error.message,
+    });
+  }, [report.error, toast]);
+
+  const expenses = report.data ?? [];
+  const converted = convertToBase(expenses, convert);
+  const spending = converted.filter(expense => !isIncome(expense));
+  const income = converted.filter(isIncome);
+  const days = countRangeDays(dateFilter.range, spending.map(expense => expense.date));
+  const categoryTotals = rollUpCategoryTotals(
+    spending.reduce((acc, expense) => {
+      acc[expense.category] = (acc[expense.category] || 0) + expense.amount;
+      return acc;
+    }, {} as Record<string, number>),
+    pathOf
+  );
+  const breakdown = buildCategoryBreakdown(categoryTotals, tree, categories);
+  const tagNamesOf = (expense: (typeof expenses)[number]) =>
+    expense.expense_tags
+      .map(({ tag_id }) => nameOf(tag_id))
+      .filter((name): name is string => name !== undefined);
+
+  const defaultTitle = `Expense Report – ${dateFilter.label}`;
+  const entries = converted.map(expense => ({
+    amount: expense.amount,
+    originalAmount: expense.originalAmount,
+    currency: expense.currency,
+    category: expense.category,
+    description: expense.description,
+    date: expense.date,
+    type: expense.type,
+    tags: tagNamesOf(expense),
+    receiptCount: expense.expense_attachments.length
+  }));
+  const summary = reportSummary({ entries, baseCurrency, days });
+
+  // The charts exactly as previewed, titled like their cards
+  const captureCharts = async (): Promise<ReportChart[]> => {
+    const svgs = [...(chartsRef.current?.querySelectorAll<SVGSVGElement>('.recharts-wrapper > svg.recharts-surface') ?? [])];
+    const charts: ReportChart[] = [];
+    for (const svg of svgs) {
+      let card = svg.parentElement;
+      while (card && !card.querySelector('h3')) card = card.parentElement;
+      charts.push({ title: card?.querySelector('h3')?.textContent ?? '', ...(await svgToImage(svg)) });
+    }
+    return charts;
+  };
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const details = [
+        `Period: ${dateFilter.label}`,
+        ...(ledger ? [`Ledger: ${ledger.name}`] : []),
+        ...(selectedCategories.length > 0 ? [`Categories: ${selectedCategories.join(', ')}`] : []),
+        ...(selectedTags.length > 0
+          ? [`Tags: ${selectedTags.map(id => formatTag(nameOf(id) ?? '')).join(', ')}`]
+          : [])
+      ];
+      const receipts = includeReceipts
+        ? await loadReceiptThumbnails(converted.flatMap(expense =>
+          expense.expense_attachments.map(attachment => ({
+            attachment,
+            caption: `${expense.date} · ${expense.description}`
+          }))
+        ))
+        : [];
+
+      await downloadExpenseReport({
+        title: title.trim() || defaultTitle,
+        details,
+        baseCurrency,
+        days,
+        entries,
+        breakdown: breakdown.map(row => ({
+          name: row.name,
+          amount: categoryTotals[row.name],
+          color: colorFor(row.name),
+          children: row.children.map(child => ({
+            name: child.name,
+            amount: categoryTotals[child.name],
+            depth: child.depth,
+            color: colorFor(child.name)
+          }))
+        })),
+        charts: includeCharts ? await captureCharts() : [],
+        receipts
+      });
+      toast({
+        title: "Report ready",
+        description: `${entries.length} entries exported to PDF.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Report Failed",
+        description: "Failed to generate report: " + (error as Error).message,
+      });
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const loading = !ledger || categoriesLoading || report.isPending;
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Reports
+            </h1>
+            <p className="text-muted-foreground">
+              Printable PDF statements for reimbursement or tax filing
+            </p>
+          </div>
+        </div>
+
+        <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5 text-primary" />
+              Report Settings
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="report-title">Title</Label>
+              <Input
+                id="report-title"
+                placeholder={defaultTitle}
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="bg-background/50"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <DateRangePicker
+                preset={dateFilter.preset}
+                range={dateFilter.range}
+                label={dateFilter.label}
+                onPresetChange={dateFilter.setPreset}
+                onCustomRangeChange={dateFilter.setCustomRange}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm" className="bg-background/50">
+                    <Folder className="h-4 w-4" />
+                    {selectedCategories.length > 0 ? `${selectedCategories.length} categories` : 'All categories'}
+                    <ChevronDown className="h-3 w-3 opacity-50" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="start" className="w-64 max-h-80 overflow-y-auto space-y-2">
+                  {flattenCategoryTree(tree).map(({ category, depth }) => (
+                    <div key={category.id} className="flex items-center gap-2" style={{ paddingLeft: `${depth * 0.75}rem` }}>
+                      <Checkbox
+                        id={`report-category-${category.id}`}
+                        checked={selectedCategories.includes(category.name)}
+                        onCheckedChange={() => setSelectedCategories(prev => toggle(prev, category.name))}
+                      />
+                      <Label htmlFor={`report-category-${category.id}`} className="text-sm font-normal">
+                        {category.name}
+                      </Label>
+                    </div>
+                  ))}
+                </PopoverContent>
+              </Popover>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" size="sm" className="bg-background/50" disabled={tags.length === 0}>
+                    <Hash className="h-4 w-4" />
+                    {selectedTags.length > 0 ? `${selectedTags.length} tags` : 'All tags'}
+                    <ChevronDown className="h-3 w-3 opacity-50" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="start" className="w-64 max-h-80 overflow-y-auto space-y-2">
+                  {tags.map(tag => (
+                    <div key={tag.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`report-tag-${tag.id}`}
+                        checked={selectedTags.includes(tag.id)}
+                        onCheckedChange={() => setSelectedTags(prev => toggle(prev, tag.id))}
+                      />
+                      <Label htmlFor={`report-tag-${tag.id}`} className="text-sm font-normal">
+                        {formatTag(tag.name)}
+                      </Label>
+                    </div>
+                  ))}
+                </PopoverContent>
+              </Popover>
+            </div>
+
+            <div className="flex flex-wrap gap-6">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="report-charts"
+                  checked={includeCharts}
+                  onCheckedChange={(checked) => setIncludeCharts(checked === true)}
+                />
+                <Label htmlFor="report-charts" className="font-normal">Include charts</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="report-receipts"
+                  checked={includeReceipts}
+                  onCheckedChange={(checked) => setIncludeReceipts(checked === true)}
+                />
+                <Label htmlFor="report-receipts" className="font-normal">Include receipt thumbnails</Label>
+              </div>
+            </div>
+
+            <Button
+              onClick={handleGenerate}
+              disabled={loading || generating || expenses.length === 0}
+              className="w-full bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              {generating ? 'Generating...' : 'Download PDF'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+          <CardHeader>
+            <CardTitle>Preview</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {loading ? (
+              <div className="text-center py-8 text-muted-foreground">Loading...</div>
+            ) : expenses.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <FileText className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                <p>No expenses match these settings</p>
+              </div>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                  {summary.map(({ label, value }) => (
+                    <div key={label} className="bg-background/50 p-3 rounded-lg border border-border/50">
+                      <p className="text-xs text-muted-foreground">{label}</p>
+                      <p className="font-semibold">{value}</p>
+                    </div>
+                  ))}
+                </div>
+                <div className="space-y-1">
+                  {breakdown.map(row => (
+                    <div key={row.name} className="flex justify-between text-sm">
+                      <span className="flex items-center gap-2">
+                        <span className="h-2 w-2 rounded-full" style={{ backgroundColor: colorFor(row.name) }} />
+                        {row.name}
+                      </span>
+                      <span className="font-medium">{formatMoney(categoryTotals[row.name], baseCurrency)}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        {includeCharts && (
+          <div ref={chartsRef}>
+            <ExpenseCharts
+              expenses={spending}
+              income={income}
+              currency={baseCurrency}
+              rangeLabel={dateFilter.label}
+              colorFor={colorFor}
+              pathOf={pathOf}
+              animate={false}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Reports;
@@ -0,0 +1,421 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import CurrencySelect from '@/components/CurrencySelect';
+import CategoryManager from '@/components/CategoryManager';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, ArrowRightLeft, Coins, FileUp, Tags, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCurrencySettings } from '@/hooks/use-currency-settings';
+import { useCategories } from '@/hooks/use-categories';
+import { useLedgers } from '@/hooks/use-ledgers';
+import { supabase } from '@/integrations/supabase/client';
+import { parseRatesFile } from '@/lib/currency';
+import { toDateKey } from '@/lib/dates';
+
+const Settings = () => {
+  const { baseCurrency, rates, loading, error, reload } = useCurrencySettings();
+  const { current: ledger, canEdit } = useLedgers();
+  const { categories, error: categoriesError, reload: reloadCategories } = useCategories(ledger?.id ?? '');
+  const [selectedBase, setSelectedBase] = useState(baseCurrency);
+  const [rateForm, setRateForm] = useState({
+    currency: 'USD',
+    quoteCurrency: baseCurrency,
+    rate: '',
+    date: toDateKey(new Date())
+  });
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    setSelectedBase(baseCurrency);
+    setRateForm(prev => ({ ...prev, quoteCurrency: baseCurrency }));
+  }, [baseCurrency]);
+
+  useEffect(() => {
+    if (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load currency settings: " + error,
+      });
+    }
+  }, [error, toast]);
+
+  useEffect(() => {
+    if (categoriesError) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to load categories: " + categoriesError,
+      });
+    }
+  }, [categoriesError, toast]);
+
+  const getUserId = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) navigate('/login');
+    return user?.id ?? null;
+  };
+
+  const handleSaveBase = async () => {
+    try {
+      const userId = await getUserId();
+      if (!userId) return;
+
+      const { error } = await supabase
+        .from('user_settings')
+        .upsert({ user_id: userId, base_currency: selectedBase });
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to save base currency: " + error.message,
+        });
+        return;
+      }
+
+      toast({
+        title: "Success",
+        description: `Totals and charts will now be shown in ${selectedBase}.`
+      });
+      await reload();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred",
+      });
+    }
+  };
+
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rate = parseFloat(rateForm.rate);
+    if (isNaN(rate) || rate <= 0 || rateForm.currency === rateForm.quoteCurrency) {
+      toast({
+        title: "Validation Error",
+        description: "Enter a positive rate between two different currencies.",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      const userId = await getUserId();
+      if (!userId) return;
+
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert(
+          {
+            user_id: userId,
+            currency: rateForm.currency,
+            quote_currency: rateForm.quoteCurrency,
+            rate,
+            date: rateForm.date,
+            source: 'manual'
+          },
+          { onConflict: 'user_id,currency,quote_currency,date' }
+        );
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to save exchange rate: " + error.message,
+        });
+        return;
+      }
+
+      toast({
+        title: "Success",
+        description: "Exchange rate saved successfully!"
+      });
+      setRateForm(prev => ({ ...prev, rate: '' }));
+      await reload();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred",
+      });
+    }
+  };
+
+  const handleImportRates = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const userId = await getUserId();
+      if (!userId) return;
+
+      const { rates: parsed, errors } = parseRatesFile(await file.text(), baseCurrency);
+      if (parsed.length > 0) {
+        const { error } = await supabase
+          .from('exchange_rates')
+          .upsert(
+            parsed.map(({ currency, quote_currency, rate, date }) => ({
+              user_id: userId,
+              currency,
+              quote_currency,
+              rate,
+              date,
+              source: 'import'
+            })),
+            { onConflict: 'user_id,currency,quote_currency,date' }
+          );
+
+        if (error) {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: "Failed to import exchange rates: " + error.message,
+          });
+          return;
+        }
+      }
+
+      toast({
+        variant: errors.length > 0 && parsed.length === 0 ? "destructive" : "default",
+        title: "Rates imported",
+        description: errors.length > 0
+          ? `${parsed.length} imported, ${errors.length} skipped (line ${errors[0].line}: ${errors[0].message}${errors.length > 1 ? ', …' : ''}).`
+          : `${parsed.length} exchange ${parsed.length === 1 ? 'rate' : 'rates'} imported.`
+      });
+      await reload();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Could not read the selected rates file",
+      });
+    }
+  };
+
+  const handleDeleteRate = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Failed to delete exchange rate: " + error.message,
+        });
+        return;
+      }
+
+      await reload();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "An unexpected error occurred while deleting exchange rate",
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Settings
+            </h1>
+            <p className="text-muted-foreground">
+              Categories, currencies and exchange rates
+            </p>
+          </div>
+        </div>
+
+        <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Tags className="h-5 w-5 text-primary" />
+              Categories
+            </CardTitle>
+            <CardDescription>
+              {ledger && `Shared by everyone in "${ledger.name}". `}
+              Colors are used everywhere a category appears. Renaming updates existing expenses; archived categories stay on past expenses but are no longer offered for new ones.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {ledger && !canEdit ? (
+              <p className="text-sm text-muted-foreground">
+                You can view "{ledger.name}" but not change its categories.
+              </p>
+            ) : ledger && (
+              <CategoryManager ledgerId={ledger.id} categories={categories} onChange={reloadCategories} />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Coins className="h-5 w-5 text-primary" />
+              Base Currency
+            </CardTitle>
+            <CardDescription>
+              Totals, budgets and charts are converted into this currency. Each expense keeps its original amount.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="base-currency">Currency</Label>
+                <CurrencySelect id="base-currency" value={selectedBase} onChange={setSelectedBase} />
+              </div>
+              <Button
+                onClick={handleSaveBase}
+                disabled={loading || selectedBase === baseCurrency}
+                className="bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+              >
+                Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowRightLeft className="h-5 w-5 text-primary" />
+              Exchange Rates
+            </CardTitle>
+            <CardDescription>
+              A rate applies from its date until a newer one is entered. Import a CSV with date, currency, quote_currency and rate columns to load many at once.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <form onSubmit={handleAddRate} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="rate-currency">1 unit of</Label>
+                <CurrencySelect
+                  id="rate-currency"
+                  value={rateForm.currency}
+                  onChange={(value) => setRateForm(prev => ({ ...prev, currency: value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-value">equals</Label>
+                <Input
+                  id="rate-value"
+                  type="number"
+                  step="any"
+                  min="0"
+                  placeholder="0.00"
+                  value={rateForm.rate}
+                  onChange={(e) => setRateForm(prev => ({ ...prev, rate: e.target.value }))}
+                  className="bg-background/50"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-quote">of</Label>
+                <CurrencySelect
+                  id="rate-quote"
+                  value={rateForm.quoteCurrency}
+                  onChange={(value) => setRateForm(prev => ({ ...prev, quoteCurrency: value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-date">From</Label>
+                <Input
+                  id="rate-date"
+                  type="date"
+                  value={rateForm.date}
+                  onChange={(e) => setRateForm(prev => ({ ...prev, date: e.target.value }))}
+                  className="bg-background/50"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="bg-gradient-primary shadow-primary hover:shadow-lg transition-all duration-300"
+              >
+                Save Rate
+              </Button>
+            </form>
+
+            <div className="space-y-2">
+              <Label htmlFor="rates-file" className="flex items-center gap-2">
+                <FileUp className="h-4 w-4" />
+                Import rates file
+              </Label>
+              <Input
+                id="rates-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={handleImportRates}
+                className="bg-background/50"
+              />
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              {rates.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <ArrowRightLeft className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                  <p>No exchange rates yet</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Pair</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rates.map(rate => (
+                      <TableRow key={rate.id}>
+                        <TableCell>{rate.date}</TableCell>
+                        <TableCell>{rate.currency} → {rate.quote_currency}</TableCell>
+                        <TableCell className="text-right">{rate.rate}</TableCell>
+                        <TableCell className="capitalize text-muted-foreground">{rate.source}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDeleteRate(rate.id)}
+                            className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,209 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import CategoryBadge from '@/components/CategoryBadge';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCategories } from '@/hooks/use-categories';
+import { TrashedExpense, usePurgeExpense, useRestoreExpense, useTrashedExpenses } from '@/hooks/use-expenses';
+import { useLedgers } from '@/hooks/use-ledgers';
+import { isIncome } from '@/lib/cashflow';
+import { formatMoney } from '@/lib/currency';
+import { TRASH_RETENTION_DAYS, daysUntilPurge } from '@/lib/expenseHistory';
+import { cn } from '@/lib/utils';
+
+const Trash = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { current: ledger, canEdit } = useLedgers();
+  const { colorFor, iconFor } = useCategories(ledger?.id ?? '');
+  const trash = useTrashedExpenses(ledger?.id ?? '', { enabled: !!ledger });
+  const restoreExpense = useRestoreExpense();
+  const purgeExpense = usePurgeExpense();
+
+  useEffect(() => {
+    if (!trash.error) return;
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: "Failed to load deleted expenses: " + trash.error.message,
+    });
+  }, [trash.error, toast]);
+
+  const handleRestore = async (expense: TrashedExpense) => {
+    try {
+      const { queued } = await restoreExpense.mutateAsync(expense);
+      toast({
+        title: queued ? "Saved offline" : "Success",
+        description: queued
+          ? "The expense will be restored when you are back online."
+          : "Expense restored successfully!",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to restore expense: " + (error as Error).message,
+      });
+    }
+  };
+
+  const handlePurge = async (expense: TrashedExpense) => {
+    try {
+      const { receiptError } = await purgeExpense.mutateAsync(expense);
+      toast({
+        title: "Success",
+        description: "Expense deleted permanently.",
+      });
+
+      if (receiptError) {
+        toast({
+          variant: "destructive",
+          title: "Receipt cleanup failed",
+          description: "The expense was deleted; its receipt files will be removed the next time you open the app.",
+        });
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to delete expense: " + (error as Error).message,
+      });
+    }
+  };
+
+  const expenses = trash.data || [];
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center gap-4 animate-fade-in">
+          <Button
+            onClick={() => navigate('/')}
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Trash
+            </h1>
+            <p className="text-muted-foreground">
+              Deleted expenses{ledger && ` of "${ledger.name}"`} are kept for {TRASH_RETENTION_DAYS} days before they are removed for good
+            </p>
+          </div>
+        </div>
+
+        <Card className="bg-gradient-card shadow-card border-0 animate-scale-in">
+          <CardHeader>
+            <CardTitle>Deleted Expenses</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {!ledger || trash.isPending ? (
+                <div className="text-center py-8 text-muted-foreground">Loading...</div>
+              ) : expenses.length === 0 ? (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Trash2 className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                  <p>The trash is empty</p>
+                </div>
+              ) : (
+                expenses.map(expense => {
+                  const daysLeft = daysUntilPurge(expense.deleted_at);
+                  return (
+                    <div
+                      key={expense.id}
+                      className="bg-background/50 p-4 rounded-lg border border-border/50"
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1">
+                          <div className="flex items-center gap-2 mb-1">
+                            <span className={cn('font-semibold text-lg', isIncome(expense) && 'text-success')}>
+                              {isIncome(expense) && '+'}{formatMoney(expense.amount, expense.currency)}
+                            </span>
+                            {expense.category && (
+                              <CategoryBadge
+                                name={expense.category}
+                                color={colorFor(expense.category)}
+                                icon={iconFor(expense.category)}
+                              />
+                            )}
+                          </div>
+                          <p className="text-sm text-muted-foreground mb-1">{expense.description}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {expense.date}
+                            {` · deleted ${new Date(expense.deleted_at).toLocaleDateString()}`}
+                            {daysLeft === 0 ? ' · removed within a day' : ` · removed in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`}
+                          </p>
+                        </div>
+                        {canEdit && (
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              title="Restore"
+                              onClick={() => handleRestore(expense)}
+                              className="h-8 w-8 p-0 hover:bg-primary/10"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  title="Delete permanently"
+                                  className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    This expense and its receipts will be removed for good. This cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handlePurge(expense)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Trash;
@@ -0,0 +1,58 @@
+-- Create recurring_expenses table for scheduled bills (rent, subscriptions, EMIs)
+CREATE TABLE public.recurring_expenses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL,
+  description TEXT,
+  category TEXT,
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+  interval INTEGER NOT NULL DEFAULT 1 CHECK (interval > 0),
+  day_of_month INTEGER CHECK (day_of_month BETWEEN 1 AND 31),
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  paused BOOLEAN NOT NULL DEFAULT false,
+  skipped_dates DATE[] NOT NULL DEFAULT '{}',
+  last_generated_date DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.recurring_expenses ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own recurring expenses" 
+ON public.recurring_expenses 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recurring expenses" 
+ON public.recurring_expenses 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring expenses" 
+ON public.recurring_expenses 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring expenses" 
+ON public.recurring_expenses 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_recurring_expenses_updated_at
+  BEFORE UPDATE ON public.recurring_expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_recurring_expenses_user_id ON public.recurring_expenses(user_id);
+
+-- Link materialized occurrences back to their series; the unique pair makes
+-- generation idempotent when several tabs load the app at the same time
+ALTER TABLE public.expenses
+  ADD COLUMN recurring_expense_id UUID REFERENCES public.recurring_expenses(id) ON DELETE SET NULL,
+  ADD COLUMN occurrence_date DATE,
+  ADD CONSTRAINT expenses_recurring_occurrence_key UNIQUE (recurring_expense_id, occurrence_date);
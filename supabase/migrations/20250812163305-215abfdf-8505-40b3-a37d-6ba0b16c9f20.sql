@@ -0,0 +1,70 @@
+-- Private bucket for receipt images and PDFs, one folder per user
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'receipts',
+  'receipts',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf']
+);
+
+-- Objects live under `<user_id>/<expense_id>/...`, so the first folder is the owner
+CREATE POLICY "Users can view their own receipts" 
+ON storage.objects 
+FOR SELECT 
+USING (bucket_id = 'receipts' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own receipts" 
+ON storage.objects 
+FOR INSERT 
+WITH CHECK (bucket_id = 'receipts' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can update their own receipts" 
+ON storage.objects 
+FOR UPDATE 
+USING (bucket_id = 'receipts' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own receipts" 
+ON storage.objects 
+FOR DELETE 
+USING (bucket_id = 'receipts' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+-- Create expense_attachments table linking stored receipts to expenses
+CREATE TABLE public.expense_attachments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.expense_attachments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own expense attachments" 
+ON public.expense_attachments 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own expense attachments" 
+ON public.expense_attachments 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id AND e.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can update their own expense attachments" 
+ON public.expense_attachments 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own expense attachments" 
+ON public.expense_attachments 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_expense_attachments_expense_id ON public.expense_attachments(expense_id);
+CREATE INDEX idx_expense_attachments_user_id ON public.expense_attachments(user_id);
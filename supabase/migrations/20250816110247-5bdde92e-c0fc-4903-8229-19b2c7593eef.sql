@@ -0,0 +1,122 @@
+-- Create categories table so each user can manage their own categories
+CREATE TABLE public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  color TEXT NOT NULL DEFAULT '#3182ed' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  icon TEXT NOT NULL DEFAULT 'tag',
+  archived BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own categories" 
+ON public.categories 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own categories" 
+ON public.categories 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categories" 
+ON public.categories 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categories" 
+ON public.categories 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_categories_user_id ON public.categories(user_id);
+
+-- Expenses, budgets and recurring series refer to categories by name, so a
+-- rename is carried over to every row that used the old name
+CREATE OR REPLACE FUNCTION public.rename_category_references()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name <> OLD.name THEN
+    UPDATE public.expenses SET category = NEW.name
+      WHERE user_id = NEW.user_id AND category = OLD.name;
+    UPDATE public.budgets SET category = NEW.name
+      WHERE user_id = NEW.user_id AND category = OLD.name;
+    UPDATE public.recurring_expenses SET category = NEW.name
+      WHERE user_id = NEW.user_id AND category = OLD.name;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER rename_category_references
+  AFTER UPDATE OF name ON public.categories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.rename_category_references();
+
+-- Default categories every account starts with
+CREATE OR REPLACE FUNCTION public.seed_default_categories(_user_id UUID)
+RETURNS void AS $$
+  INSERT INTO public.categories (user_id, name, color, icon, sort_order)
+  VALUES
+    (_user_id, 'Food & Dining', '#3182ed', 'utensils', 0),
+    (_user_id, 'Transportation', '#16a249', 'car', 1),
+    (_user_id, 'Shopping', '#f59f0a', 'shopping-bag', 2),
+    (_user_id, 'Entertainment', '#ef4343', 'film', 3),
+    (_user_id, 'Bills & Utilities', '#7c3bed', 'zap', 4),
+    (_user_id, 'Healthcare', '#2a9d90', 'heart-pulse', 5),
+    (_user_id, 'Travel', '#d9a520', 'plane', 6),
+    (_user_id, 'Education', '#6aabf0', 'graduation-cap', 7),
+    (_user_id, 'Business', '#db2979', 'briefcase', 8),
+    (_user_id, 'Other', '#f97415', 'tag', 9)
+  ON CONFLICT (user_id, name) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.seed_default_categories(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user_categories()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.seed_default_categories(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER on_auth_user_created_seed_categories
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user_categories();
+
+-- Backfill existing accounts: the defaults plus every free-text category
+-- already used on an expense, budget or recurring series
+SELECT public.seed_default_categories(id) FROM auth.users;
+
+UPDATE public.expenses SET category = trim(category) WHERE category <> trim(category);
+
+INSERT INTO public.categories (user_id, name, color, icon, sort_order)
+SELECT
+  used.user_id,
+  used.name,
+  (ARRAY['#3182ed', '#16a249', '#f59f0a', '#ef4343', '#7c3bed', '#2a9d90', '#d9a520', '#6aabf0', '#db2979', '#f97415'])
+    [1 + (row_number() OVER (PARTITION BY used.user_id ORDER BY used.name) - 1) % 10],
+  'tag',
+  100 + row_number() OVER (PARTITION BY used.user_id ORDER BY used.name)
+FROM (
+  SELECT user_id, category AS name FROM public.expenses WHERE category IS NOT NULL AND category <> ''
+  UNION
+  SELECT user_id, category FROM public.budgets
+  UNION
+  SELECT user_id, category FROM public.recurring_expenses WHERE category IS NOT NULL AND category <> ''
+) AS used
+ON CONFLICT (user_id, name) DO NOTHING;
@@ -0,0 +1,39 @@
+-- Record income on the same table as expenses, told apart by `type`
+ALTER TABLE public.expenses
+  ADD COLUMN type TEXT NOT NULL DEFAULT 'expense' CHECK (type IN ('expense', 'income'));
+
+CREATE INDEX idx_expenses_user_id_type_date ON public.expenses(user_id, type, date);
+
+-- Recurring series can produce income too (e.g. a monthly salary)
+ALTER TABLE public.recurring_expenses
+  ADD COLUMN type TEXT NOT NULL DEFAULT 'expense' CHECK (type IN ('expense', 'income'));
+
+-- Categories are offered either for expenses or for income
+ALTER TABLE public.categories
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'expense' CHECK (kind IN ('expense', 'income'));
+
+-- Default income categories alongside the expense ones
+CREATE OR REPLACE FUNCTION public.seed_default_categories(_user_id UUID)
+RETURNS void AS $$
+  INSERT INTO public.categories (user_id, name, color, icon, sort_order, kind)
+  VALUES
+    (_user_id, 'Food & Dining', '#3182ed', 'utensils', 0, 'expense'),
+    (_user_id, 'Transportation', '#16a249', 'car', 1, 'expense'),
+    (_user_id, 'Shopping', '#f59f0a', 'shopping-bag', 2, 'expense'),
+    (_user_id, 'Entertainment', '#ef4343', 'film', 3, 'expense'),
+    (_user_id, 'Bills & Utilities', '#7c3bed', 'zap', 4, 'expense'),
+    (_user_id, 'Healthcare', '#2a9d90', 'heart-pulse', 5, 'expense'),
+    (_user_id, 'Travel', '#d9a520', 'plane', 6, 'expense'),
+    (_user_id, 'Education', '#6aabf0', 'graduation-cap', 7, 'expense'),
+    (_user_id, 'Business', '#db2979', 'briefcase', 8, 'expense'),
+    (_user_id, 'Other', '#f97415', 'tag', 9, 'expense'),
+    (_user_id, 'Salary', '#16a249', 'banknote', 0, 'income'),
+    (_user_id, 'Refunds', '#2a9d90', 'rotate-ccw', 1, 'income'),
+    (_user_id, 'Reimbursements', '#3182ed', 'receipt', 2, 'income'),
+    (_user_id, 'Other Income', '#7c3bed', 'wallet', 3, 'income')
+  ON CONFLICT (user_id, name) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.seed_default_categories(UUID) FROM PUBLIC, anon, authenticated;
+
+SELECT public.seed_default_categories(id) FROM auth.users;
@@ -0,0 +1,11 @@
+-- Full-text search over expense descriptions. The 'simple' configuration
+-- keeps words as typed (no stemming or stop words), which suits merchant
+-- names and short notes better than a language dictionary.
+ALTER TABLE public.expenses
+  ADD COLUMN description_search tsvector
+  GENERATED ALWAYS AS (to_tsvector('simple', coalesce(description, ''))) STORED;
+
+CREATE INDEX idx_expenses_description_search ON public.expenses USING GIN (description_search);
+
+-- Amount and date filters from the search bar are applied per user
+CREATE INDEX idx_expenses_user_id_date ON public.expenses(user_id, date);
@@ -0,0 +1,54 @@
+-- Keyset pagination for the expense history walks (date, id) newest first
+DROP INDEX IF EXISTS public.idx_expenses_user_id_date;
+CREATE INDEX idx_expenses_user_id_date_id ON public.expenses(user_id, date DESC, id DESC);
+
+-- Per-day sums of the expenses matching the history filters, so totals,
+-- category sums and monthly series no longer need every row in the browser.
+-- Rows stay split by currency and day because exchange rates are dated and
+-- conversion into the base currency happens client-side.
+-- Amount filters are a JSON array of {"op": "gt|gte|lt|lte|eq", "value": n}.
+-- Runs as the caller, so the expenses RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.expense_daily_totals(
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _search text DEFAULT NULL,
+  _categories text[] DEFAULT NULL,
+  _currency text DEFAULT NULL,
+  _type text DEFAULT NULL,
+  _amount_filters jsonb DEFAULT '[]'::jsonb
+)
+RETURNS TABLE (
+  date date,
+  type text,
+  category text,
+  currency text,
+  amount numeric,
+  entry_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT e.date, e.type, e.category, e.currency, sum(e.amount), count(*)
+  FROM public.expenses e
+  WHERE (_from IS NULL OR e.date >= _from)
+    AND (_to IS NULL OR e.date <= _to)
+    AND (_search IS NULL OR e.description_search @@ to_tsquery('simple', _search))
+    AND (_categories IS NULL OR e.category = ANY(_categories))
+    AND (_currency IS NULL OR e.currency = _currency)
+    AND (_type IS NULL OR e.type = _type)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(_amount_filters) AS f
+      WHERE NOT CASE f->>'op'
+        WHEN 'gt' THEN e.amount > (f->>'value')::numeric
+        WHEN 'gte' THEN e.amount >= (f->>'value')::numeric
+        WHEN 'lt' THEN e.amount < (f->>'value')::numeric
+        WHEN 'lte' THEN e.amount <= (f->>'value')::numeric
+        WHEN 'eq' THEN e.amount = (f->>'value')::numeric
+        ELSE true
+      END
+    )
+  GROUP BY e.date, e.type, e.category, e.currency
+  ORDER BY e.date;
+$$;
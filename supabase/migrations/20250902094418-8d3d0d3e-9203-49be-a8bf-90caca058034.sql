@@ -0,0 +1,7 @@
+-- Broadcast expense changes over Realtime so other open tabs and devices
+-- can merge them live. Full replica identity puts every column (user_id in
+-- particular) into the old record of updates and deletes, which the
+-- per-user subscription filter and RLS checks need.
+ALTER TABLE public.expenses REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.expenses;
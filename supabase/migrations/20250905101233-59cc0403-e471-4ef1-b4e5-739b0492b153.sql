@@ -0,0 +1,92 @@
+-- Soft deletes: a deleted expense keeps its row in the trash until it is
+-- restored or purged
+ALTER TABLE public.expenses ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- The history only ever walks live rows; the trash is listed newest first
+DROP INDEX IF EXISTS public.idx_expenses_user_id_date_id;
+CREATE INDEX idx_expenses_user_id_date_id ON public.expenses(user_id, date DESC, id DESC) WHERE deleted_at IS NULL;
+CREATE INDEX idx_expenses_deleted_at ON public.expenses(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Live and trashed expenses. Both run as the caller, so the expenses RLS
+-- policies still apply; writes keep going to the table itself.
+CREATE VIEW public.active_expenses WITH (security_invoker = true) AS
+  SELECT * FROM public.expenses WHERE deleted_at IS NULL;
+
+CREATE VIEW public.deleted_expenses WITH (security_invoker = true) AS
+  SELECT * FROM public.expenses WHERE deleted_at IS NOT NULL;
+
+-- Totals only count live expenses
+CREATE OR REPLACE FUNCTION public.expense_daily_totals(
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _search text DEFAULT NULL,
+  _categories text[] DEFAULT NULL,
+  _currency text DEFAULT NULL,
+  _type text DEFAULT NULL,
+  _amount_filters jsonb DEFAULT '[]'::jsonb
+)
+RETURNS TABLE (
+  date date,
+  type text,
+  category text,
+  currency text,
+  amount numeric,
+  entry_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT e.date, e.type, e.category, e.currency, sum(e.amount), count(*)
+  FROM public.active_expenses e
+  WHERE (_from IS NULL OR e.date >= _from)
+    AND (_to IS NULL OR e.date <= _to)
+    AND (_search IS NULL OR e.description_search @@ to_tsquery('simple', _search))
+    AND (_categories IS NULL OR e.category = ANY(_categories))
+    AND (_currency IS NULL OR e.currency = _currency)
+    AND (_type IS NULL OR e.type = _type)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(_amount_filters) AS f
+      WHERE NOT CASE f->>'op'
+        WHEN 'gt' THEN e.amount > (f->>'value')::numeric
+        WHEN 'gte' THEN e.amount >= (f->>'value')::numeric
+        WHEN 'lt' THEN e.amount < (f->>'value')::numeric
+        WHEN 'lte' THEN e.amount <= (f->>'value')::numeric
+        WHEN 'eq' THEN e.amount = (f->>'value')::numeric
+        ELSE true
+      END
+    )
+  GROUP BY e.date, e.type, e.category, e.currency
+  ORDER BY e.date;
+$$;
+
+-- Permanently delete expenses that have been in the trash for 30 days.
+-- Attachment rows go with them through the cascade; their stored files
+-- cannot be removed from SQL and are left to the Storage API.
+CREATE OR REPLACE FUNCTION public.purge_deleted_expenses()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  purged integer;
+BEGIN
+  DELETE FROM public.expenses
+  WHERE deleted_at < now() - interval '30 days';
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_deleted_expenses() FROM PUBLIC, anon, authenticated;
+
+-- Run the purge nightly
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'purge-deleted-expenses',
+  '30 3 * * *',
+  'SELECT public.purge_deleted_expenses()'
+);
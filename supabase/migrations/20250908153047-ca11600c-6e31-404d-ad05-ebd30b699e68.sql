@@ -0,0 +1,15 @@
+-- Move a batch of expenses by the same number of days in one statement.
+-- Runs as the caller, so the expenses policies decide which rows move.
+CREATE OR REPLACE FUNCTION public.shift_expense_dates(_ids uuid[], _days integer)
+RETURNS integer
+LANGUAGE sql
+SET search_path = ''
+AS $$
+  WITH shifted AS (
+    UPDATE public.expenses
+    SET date = date + _days
+    WHERE id = ANY(_ids)
+    RETURNING id
+  )
+  SELECT count(*)::integer FROM shifted;
+$$;
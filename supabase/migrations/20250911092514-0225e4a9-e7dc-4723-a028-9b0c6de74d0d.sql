@@ -0,0 +1,182 @@
+-- Create tags table for free-form labels that cut across categories, such
+-- as a client, a trip or whether an expense is reimbursable
+CREATE TABLE public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Stored without the leading '#'
+  name TEXT NOT NULL CHECK (name ~ '^[a-z0-9][a-z0-9_-]*$'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tags" 
+ON public.tags 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags" 
+ON public.tags 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags" 
+ON public.tags 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags" 
+ON public.tags 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_tags_updated_at
+  BEFORE UPDATE ON public.tags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_tags_user_id ON public.tags(user_id);
+
+-- Create expense_tags table linking expenses to their tags
+CREATE TABLE public.expense_tags (
+  expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (expense_id, tag_id)
+);
+
+ALTER TABLE public.expense_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own expense tags" 
+ON public.expense_tags 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own expense tags" 
+ON public.expense_tags 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id AND e.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own expense tags" 
+ON public.expense_tags 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_expense_tags_tag_id ON public.expense_tags(tag_id);
+CREATE INDEX idx_expense_tags_user_id ON public.expense_tags(user_id);
+
+-- Expenses matching the history filters, shared by the aggregate functions
+-- below. `_tags` keeps expenses carrying any of the given tags.
+-- Amount filters are a JSON array of {"op": "gt|gte|lt|lte|eq", "value": n}.
+-- Runs as the caller, so the expenses RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.filtered_expenses(
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _search text DEFAULT NULL,
+  _categories text[] DEFAULT NULL,
+  _currency text DEFAULT NULL,
+  _type text DEFAULT NULL,
+  _amount_filters jsonb DEFAULT '[]'::jsonb,
+  _tags uuid[] DEFAULT NULL
+)
+RETURNS SETOF public.active_expenses
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT e.*
+  FROM public.active_expenses e
+  WHERE (_from IS NULL OR e.date >= _from)
+    AND (_to IS NULL OR e.date <= _to)
+    AND (_search IS NULL OR e.description_search @@ to_tsquery('simple', _search))
+    AND (_categories IS NULL OR e.category = ANY(_categories))
+    AND (_currency IS NULL OR e.currency = _currency)
+    AND (_type IS NULL OR e.type = _type)
+    AND (_tags IS NULL OR EXISTS (
+      SELECT 1 FROM public.expense_tags et WHERE et.expense_id = e.id AND et.tag_id = ANY(_tags)
+    ))
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(_amount_filters) AS f
+      WHERE NOT CASE f->>'op'
+        WHEN 'gt' THEN e.amount > (f->>'value')::numeric
+        WHEN 'gte' THEN e.amount >= (f->>'value')::numeric
+        WHEN 'lt' THEN e.amount < (f->>'value')::numeric
+        WHEN 'lte' THEN e.amount <= (f->>'value')::numeric
+        WHEN 'eq' THEN e.amount = (f->>'value')::numeric
+        ELSE true
+      END
+    );
+$$;
+
+-- The tag filter changes the signature, so the old function is replaced
+DROP FUNCTION IF EXISTS public.expense_daily_totals(date, date, text, text[], text, text, jsonb);
+
+-- Per-day sums of the expenses matching the history filters. Rows stay
+-- split by currency and day because exchange rates are dated and
+-- conversion into the base currency happens client-side.
+CREATE OR REPLACE FUNCTION public.expense_daily_totals(
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _search text DEFAULT NULL,
+  _categories text[] DEFAULT NULL,
+  _currency text DEFAULT NULL,
+  _type text DEFAULT NULL,
+  _amount_filters jsonb DEFAULT '[]'::jsonb,
+  _tags uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  date date,
+  type text,
+  category text,
+  currency text,
+  amount numeric,
+  entry_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT e.date, e.type, e.category, e.currency, sum(e.amount), count(*)
+  FROM public.filtered_expenses(_from, _to, _search, _categories, _currency, _type, _amount_filters, _tags) e
+  GROUP BY e.date, e.type, e.category, e.currency
+  ORDER BY e.date;
+$$;
+
+-- The same sums split by tag instead of category. An expense with several
+-- tags counts towards each of them; untagged expenses are left out.
+CREATE OR REPLACE FUNCTION public.expense_tag_totals(
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _search text DEFAULT NULL,
+  _categories text[] DEFAULT NULL,
+  _currency text DEFAULT NULL,
+  _type text DEFAULT NULL,
+  _amount_filters jsonb DEFAULT '[]'::jsonb,
+  _tags uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  date date,
+  type text,
+  tag_id uuid,
+  currency text,
+  amount numeric,
+  entry_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT e.date, e.type, et.tag_id, e.currency, sum(e.amount), count(*)
+  FROM public.filtered_expenses(_from, _to, _search, _categories, _currency, _type, _amount_filters, _tags) e
+  JOIN public.expense_tags et ON et.expense_id = e.id
+  GROUP BY e.date, e.type, et.tag_id, e.currency
+  ORDER BY e.date;
+$$;
@@ -0,0 +1,525 @@
+-- Ledgers own expenses, so several people can keep the books of a shared
+-- flat or a team together. Every account starts with a personal ledger.
+CREATE TABLE public.ledgers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Owners manage the ledger and its members, editors add and change
+-- expenses, viewers only read
+CREATE TABLE public.ledger_members (
+  ledger_id UUID NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  -- Copied from the account so members can see who else is in the ledger
+  email TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (ledger_id, user_id)
+);
+
+CREATE TABLE public.ledger_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ledger_id UUID NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email ~ '^[^@\s]+@[^@\s]+$'),
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  -- Secret part of the invitation link
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + interval '7 days',
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_ledgers_updated_at
+  BEFORE UPDATE ON public.ledgers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_ledger_members_user_id ON public.ledger_members(user_id);
+CREATE INDEX idx_ledger_invitations_ledger_id ON public.ledger_invitations(ledger_id);
+
+-- Role of the signed-in user in a ledger, or NULL when not a member.
+-- Security definer so policies can use it without recursing into the
+-- ledger_members policies.
+CREATE OR REPLACE FUNCTION public.ledger_role(_ledger_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT role FROM public.ledger_members WHERE ledger_id = _ledger_id AND user_id = auth.uid();
+$$;
+
+ALTER TABLE public.ledgers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Ledgers are created through create_ledger, which also adds the owner
+CREATE POLICY "Members can view their ledgers" 
+ON public.ledgers 
+FOR SELECT 
+USING (public.ledger_role(id) IS NOT NULL);
+
+CREATE POLICY "Owners can update their ledgers" 
+ON public.ledgers 
+FOR UPDATE 
+USING (public.ledger_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete their ledgers" 
+ON public.ledgers 
+FOR DELETE 
+USING (public.ledger_role(id) = 'owner');
+
+-- Members join by accepting an invitation
+CREATE POLICY "Members can view the members of their ledgers" 
+ON public.ledger_members 
+FOR SELECT 
+USING (public.ledger_role(ledger_id) IS NOT NULL);
+
+CREATE POLICY "Owners can change member roles" 
+ON public.ledger_members 
+FOR UPDATE 
+USING (public.ledger_role(ledger_id) = 'owner');
+
+CREATE POLICY "Owners can remove members and members can leave" 
+ON public.ledger_members 
+FOR DELETE 
+USING (public.ledger_role(ledger_id) = 'owner' OR auth.uid() = user_id);
+
+CREATE POLICY "Owners can view invitations to their ledgers" 
+ON public.ledger_invitations 
+FOR SELECT 
+USING (public.ledger_role(ledger_id) = 'owner');
+
+CREATE POLICY "Owners can invite to their ledgers" 
+ON public.ledger_invitations 
+FOR INSERT 
+WITH CHECK (public.ledger_role(ledger_id) = 'owner' AND auth.uid() = invited_by);
+
+CREATE POLICY "Owners can revoke invitations to their ledgers" 
+ON public.ledger_invitations 
+FOR DELETE 
+USING (public.ledger_role(ledger_id) = 'owner');
+
+-- A ledger always keeps an owner, unless the ledger itself is going away
+CREATE OR REPLACE FUNCTION public.ensure_ledger_has_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.role = 'owner'
+    AND (TG_OP = 'DELETE' OR NEW.role <> 'owner')
+    AND EXISTS (SELECT 1 FROM public.ledgers WHERE id = OLD.ledger_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.ledger_members
+      WHERE ledger_id = OLD.ledger_id AND role = 'owner' AND user_id <> OLD.user_id
+    )
+  THEN
+    RAISE EXCEPTION 'A ledger needs at least one owner';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER ensure_ledger_has_owner
+  BEFORE UPDATE OR DELETE ON public.ledger_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.ensure_ledger_has_owner();
+
+-- Create a ledger owned by the signed-in user
+CREATE OR REPLACE FUNCTION public.create_ledger(_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  _ledger_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO public.ledgers (name, created_by) VALUES (trim(_name), auth.uid())
+  RETURNING id INTO _ledger_id;
+  INSERT INTO public.ledger_members (ledger_id, user_id, role, email)
+  VALUES (_ledger_id, auth.uid(), 'owner', coalesce(auth.jwt() ->> 'email', ''));
+  RETURN _ledger_id;
+END;
+$$;
+
+-- What an invitation link is for, shown before it is accepted
+CREATE OR REPLACE FUNCTION public.get_ledger_invitation(_token UUID)
+RETURNS TABLE (
+  ledger_id UUID,
+  ledger_name TEXT,
+  role TEXT,
+  email TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  accepted_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT i.ledger_id, l.name, i.role, i.email, i.expires_at, i.accepted_at
+  FROM public.ledger_invitations i
+  JOIN public.ledgers l ON l.id = i.ledger_id
+  WHERE i.token = _token;
+$$;
+
+-- Join the ledger an invitation is for. Only the invited address can use
+-- it, once and before it expires; existing members keep their role.
+CREATE OR REPLACE FUNCTION public.accept_ledger_invitation(_token UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  invitation public.ledger_invitations;
+  _email TEXT := coalesce(auth.jwt() ->> 'email', '');
+BEGIN
+  SELECT * INTO invitation FROM public.ledger_invitations WHERE token = _token FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found';
+  END IF;
+  IF invitation.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Invitation has already been used';
+  END IF;
+  IF invitation.expires_at < now() THEN
+    RAISE EXCEPTION 'Invitation has expired';
+  END IF;
+  IF lower(invitation.email) <> lower(_email) THEN
+    RAISE EXCEPTION 'Invitation was sent to a different email address';
+  END IF;
+
+  INSERT INTO public.ledger_members (ledger_id, user_id, role, email)
+  VALUES (invitation.ledger_id, auth.uid(), invitation.role, _email)
+  ON CONFLICT (ledger_id, user_id) DO NOTHING;
+  UPDATE public.ledger_invitations SET accepted_at = now() WHERE id = invitation.id;
+  RETURN invitation.ledger_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_ledger(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_ledger_invitation(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.accept_ledger_invitation(UUID) FROM PUBLIC, anon;
+
+-- Personal ledger for every new account
+CREATE OR REPLACE FUNCTION public.handle_new_user_ledger()
+RETURNS TRIGGER AS $$
+DECLARE
+  _ledger_id UUID;
+BEGIN
+  INSERT INTO public.ledgers (name, created_by) VALUES ('Personal', NEW.id)
+  RETURNING id INTO _ledger_id;
+  INSERT INTO public.ledger_members (ledger_id, user_id, role, email)
+  VALUES (_ledger_id, NEW.id, 'owner', coalesce(NEW.email, ''));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER on_auth_user_created_ledger
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_user_ledger();
+
+-- Backfill existing accounts: a personal ledger holding everything they
+-- recorded so far
+INSERT INTO public.ledgers (name, created_by)
+SELECT 'Personal', id FROM auth.users;
+
+INSERT INTO public.ledger_members (ledger_id, user_id, role, email)
+SELECT l.id, u.id, 'owner', coalesce(u.email, '')
+FROM public.ledgers l
+JOIN auth.users u ON u.id = l.created_by;
+
+ALTER TABLE public.expenses ADD COLUMN ledger_id UUID REFERENCES public.ledgers(id) ON DELETE CASCADE;
+ALTER TABLE public.recurring_expenses ADD COLUMN ledger_id UUID REFERENCES public.ledgers(id) ON DELETE CASCADE;
+ALTER TABLE public.tags ADD COLUMN ledger_id UUID REFERENCES public.ledgers(id) ON DELETE CASCADE;
+
+UPDATE public.expenses e SET ledger_id = l.id FROM public.ledgers l WHERE l.created_by = e.user_id;
+UPDATE public.recurring_expenses r SET ledger_id = l.id FROM public.ledgers l WHERE l.created_by = r.user_id;
+UPDATE public.tags t SET ledger_id = l.id FROM public.ledgers l WHERE l.created_by = t.user_id;
+
+ALTER TABLE public.expenses ALTER COLUMN ledger_id SET NOT NULL;
+ALTER TABLE public.recurring_expenses ALTER COLUMN ledger_id SET NOT NULL;
+ALTER TABLE public.tags ALTER COLUMN ledger_id SET NOT NULL;
+
+-- The history walks one ledger at a time
+DROP INDEX IF EXISTS public.idx_expenses_user_id_date_id;
+CREATE INDEX idx_expenses_ledger_id_date_id ON public.expenses(ledger_id, date DESC, id DESC) WHERE deleted_at IS NULL;
+
+-- Tags are shared by everyone in the ledger
+ALTER TABLE public.tags DROP CONSTRAINT tags_user_id_name_key;
+ALTER TABLE public.tags ADD CONSTRAINT tags_ledger_id_name_key UNIQUE (ledger_id, name);
+
+-- Expenses: members read, owners and editors write. `user_id` stays the
+-- person who recorded the expense. Editors may change any expense of the
+-- ledger, including others', and that holds for `shift_expense_dates` too,
+-- which runs as the caller.
+DROP POLICY "Users can view their own expenses" ON public.expenses;
+DROP POLICY "Users can create their own expenses" ON public.expenses;
+DROP POLICY "Users can update their own expenses" ON public.expenses;
+DROP POLICY "Users can delete their own expenses" ON public.expenses;
+
+CREATE POLICY "Members can view ledger expenses" 
+ON public.expenses 
+FOR SELECT 
+USING (public.ledger_role(ledger_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create ledger expenses" 
+ON public.expenses 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update ledger expenses" 
+ON public.expenses 
+FOR UPDATE 
+USING (public.ledger_role(ledger_id) IN ('owner', 'editor'))
+WITH CHECK (public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete ledger expenses" 
+ON public.expenses 
+FOR DELETE 
+USING (public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+-- Attachments and tag links follow the expense they belong to
+DROP POLICY "Users can view their own expense attachments" ON public.expense_attachments;
+DROP POLICY "Users can create their own expense attachments" ON public.expense_attachments;
+DROP POLICY "Users can update their own expense attachments" ON public.expense_attachments;
+DROP POLICY "Users can delete their own expense attachments" ON public.expense_attachments;
+
+CREATE POLICY "Members can view ledger expense attachments" 
+ON public.expense_attachments 
+FOR SELECT 
+USING (EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id));
+
+CREATE POLICY "Editors can create ledger expense attachments" 
+ON public.expense_attachments 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.expenses e
+    WHERE e.id = expense_id AND public.ledger_role(e.ledger_id) IN ('owner', 'editor')
+  )
+);
+
+CREATE POLICY "Editors can delete ledger expense attachments" 
+ON public.expense_attachments 
+FOR DELETE 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.expenses e
+    WHERE e.id = expense_id AND public.ledger_role(e.ledger_id) IN ('owner', 'editor')
+  )
+);
+
+DROP POLICY "Users can view their own expense tags" ON public.expense_tags;
+DROP POLICY "Users can create their own expense tags" ON public.expense_tags;
+DROP POLICY "Users can delete their own expense tags" ON public.expense_tags;
+
+CREATE POLICY "Members can view ledger expense tags" 
+ON public.expense_tags 
+FOR SELECT 
+USING (EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id));
+
+CREATE POLICY "Editors can create ledger expense tags" 
+ON public.expense_tags 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.expenses e
+    JOIN public.tags t ON t.id = tag_id AND t.ledger_id = e.ledger_id
+    WHERE e.id = expense_id AND public.ledger_role(e.ledger_id) IN ('owner', 'editor')
+  )
+);
+
+CREATE POLICY "Editors can delete ledger expense tags" 
+ON public.expense_tags 
+FOR DELETE 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.expenses e
+    WHERE e.id = expense_id AND public.ledger_role(e.ledger_id) IN ('owner', 'editor')
+  )
+);
+
+DROP POLICY "Users can view their own tags" ON public.tags;
+DROP POLICY "Users can create their own tags" ON public.tags;
+DROP POLICY "Users can update their own tags" ON public.tags;
+DROP POLICY "Users can delete their own tags" ON public.tags;
+
+CREATE POLICY "Members can view ledger tags" 
+ON public.tags 
+FOR SELECT 
+USING (public.ledger_role(ledger_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create ledger tags" 
+ON public.tags 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update ledger tags" 
+ON public.tags 
+FOR UPDATE 
+USING (public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete ledger tags" 
+ON public.tags 
+FOR DELETE 
+USING (public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+-- Recurring series stay with the person who set them up, but can only
+-- generate into a ledger they may still write to
+DROP POLICY "Users can create their own recurring expenses" ON public.recurring_expenses;
+
+CREATE POLICY "Users can create their own recurring expenses" 
+ON public.recurring_expenses 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+-- Receipts are stored under the uploader's folder, then the expense id;
+-- other members of the expense's ledger may read them and editors remove them
+CREATE POLICY "Members can view ledger receipts" 
+ON storage.objects 
+FOR SELECT 
+USING (
+  bucket_id = 'receipts'
+  AND EXISTS (SELECT 1 FROM public.expenses e WHERE e.id::text = (storage.foldername(name))[2])
+);
+
+CREATE POLICY "Editors can delete ledger receipts" 
+ON storage.objects 
+FOR DELETE 
+USING (
+  bucket_id = 'receipts'
+  AND EXISTS (
+    SELECT 1 FROM public.expenses e
+    WHERE e.id::text = (storage.foldername(name))[2] AND public.ledger_role(e.ledger_id) IN ('owner', 'editor')
+  )
+);
+
+-- Aggregates are taken over one ledger. The new argument changes the
+-- signatures, so the old functions are replaced.
+DROP FUNCTION IF EXISTS public.expense_daily_totals(date, date, text, text[], text, text, jsonb, uuid[]);
+DROP FUNCTION IF EXISTS public.expense_tag_totals(date, date, text, text[], text, text, jsonb, uuid[]);
+DROP FUNCTION IF EXISTS public.filtered_expenses(date, date, text, text[], text, text, jsonb, uuid[]);
+
+-- The views were expanded before expenses had a ledger
+CREATE OR REPLACE VIEW public.active_expenses WITH (security_invoker = true) AS
+  SELECT * FROM public.expenses WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE VIEW public.deleted_expenses WITH (security_invoker = true) AS
+  SELECT * FROM public.expenses WHERE deleted_at IS NOT NULL;
+
+-- Expenses matching the history filters, shared by the aggregate functions
+-- below. `_tags` keeps expenses carrying any of the given tags.
+-- Amount filters are a JSON array of {"op": "gt|gte|lt|lte|eq", "value": n}.
+-- Runs as the caller, so the expenses RLS policies still apply.
+CREATE OR REPLACE FUNCTION public.filtered_expenses(
+  _ledger_id uuid DEFAULT NULL,
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _search text DEFAULT NULL,
+  _categories text[] DEFAULT NULL,
+  _currency text DEFAULT NULL,
+  _type text DEFAULT NULL,
+  _amount_filters jsonb DEFAULT '[]'::jsonb,
+  _tags uuid[] DEFAULT NULL
+)
+RETURNS SETOF public.active_expenses
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT e.*
+  FROM public.active_expenses e
+  WHERE (_ledger_id IS NULL OR e.ledger_id = _ledger_id)
+    AND (_from IS NULL OR e.date >= _from)
+    AND (_to IS NULL OR e.date <= _to)
+    AND (_search IS NULL OR e.description_search @@ to_tsquery('simple', _search))
+    AND (_categories IS NULL OR e.category = ANY(_categories))
+    AND (_currency IS NULL OR e.currency = _currency)
+    AND (_type IS NULL OR e.type = _type)
+    AND (_tags IS NULL OR EXISTS (
+      SELECT 1 FROM public.expense_tags et WHERE et.expense_id = e.id AND et.tag_id = ANY(_tags)
+    ))
+    AND NOT EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(_amount_filters) AS f
+      WHERE NOT CASE f->>'op'
+        WHEN 'gt' THEN e.amount > (f->>'value')::numeric
+        WHEN 'gte' THEN e.amount >= (f->>'value')::numeric
+        WHEN 'lt' THEN e.amount < (f->>'value')::numeric
+        WHEN 'lte' THEN e.amount <= (f->>'value')::numeric
+        WHEN 'eq' THEN e.amount = (f->>'value')::numeric
+        ELSE true
+      END
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.expense_daily_totals(
+  _ledger_id uuid DEFAULT NULL,
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _search text DEFAULT NULL,
+  _categories text[] DEFAULT NULL,
+  _currency text DEFAULT NULL,
+  _type text DEFAULT NULL,
+  _amount_filters jsonb DEFAULT '[]'::jsonb,
+  _tags uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  date date,
+  type text,
+  category text,
+  currency text,
+  amount numeric,
+  entry_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT e.date, e.type, e.category, e.currency, sum(e.amount), count(*)
+  FROM public.filtered_expenses(_ledger_id, _from, _to, _search, _categories, _currency, _type, _amount_filters, _tags) e
+  GROUP BY e.date, e.type, e.category, e.currency
+  ORDER BY e.date;
+$$;
+
+CREATE OR REPLACE FUNCTION public.expense_tag_totals(
+  _ledger_id uuid DEFAULT NULL,
+  _from date DEFAULT NULL,
+  _to date DEFAULT NULL,
+  _search text DEFAULT NULL,
+  _categories text[] DEFAULT NULL,
+  _currency text DEFAULT NULL,
+  _type text DEFAULT NULL,
+  _amount_filters jsonb DEFAULT '[]'::jsonb,
+  _tags uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  date date,
+  type text,
+  tag_id uuid,
+  currency text,
+  amount numeric,
+  entry_count bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT e.date, e.type, et.tag_id, e.currency, sum(e.amount), count(*)
+  FROM public.filtered_expenses(_ledger_id, _from, _to, _search, _categories, _currency, _type, _amount_filters, _tags) e
+  JOIN public.expense_tags et ON et.expense_id = e.id
+  GROUP BY e.date, e.type, et.tag_id, e.currency
+  ORDER BY e.date;
+$$;
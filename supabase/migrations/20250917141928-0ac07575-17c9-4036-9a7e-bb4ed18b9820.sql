@@ -0,0 +1,148 @@
+-- Split expenses: one member of the ledger pays and the cost is divided
+-- among several. An expense without splits stays an ordinary expense.
+ALTER TABLE public.expenses
+  ADD COLUMN paid_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN split_method TEXT CHECK (split_method IN ('equal', 'exact', 'percent', 'shares'));
+
+CREATE TABLE public.expense_splits (
+  expense_id UUID NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- What the member was given under the split method: an exact amount, a
+  -- percentage or a number of shares (1 for equal splits)
+  share NUMERIC(12,4) NOT NULL CHECK (share >= 0),
+  -- The member's part of the expense, in the expense's currency
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (expense_id, user_id)
+);
+
+CREATE INDEX idx_expense_splits_user_id ON public.expense_splits(user_id);
+
+ALTER TABLE public.expense_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view ledger expense splits" 
+ON public.expense_splits 
+FOR SELECT 
+USING (EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id));
+
+-- Costs can only be split among members of the expense's ledger
+CREATE POLICY "Editors can create ledger expense splits" 
+ON public.expense_splits 
+FOR INSERT 
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.expenses e
+    JOIN public.ledger_members m ON m.ledger_id = e.ledger_id AND m.user_id = expense_splits.user_id
+    WHERE e.id = expense_id AND public.ledger_role(e.ledger_id) IN ('owner', 'editor')
+  )
+);
+
+CREATE POLICY "Editors can update ledger expense splits" 
+ON public.expense_splits 
+FOR UPDATE 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.expenses e
+    WHERE e.id = expense_id AND public.ledger_role(e.ledger_id) IN ('owner', 'editor')
+  )
+);
+
+CREATE POLICY "Editors can delete ledger expense splits" 
+ON public.expense_splits 
+FOR DELETE 
+USING (
+  EXISTS (
+    SELECT 1 FROM public.expenses e
+    WHERE e.id = expense_id AND public.ledger_role(e.ledger_id) IN ('owner', 'editor')
+  )
+);
+
+-- Money paid from one member to another to settle what they owe
+CREATE TABLE public.settlements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ledger_id UUID NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  from_user UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  to_user UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  date DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  -- Who recorded the payment
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (from_user <> to_user)
+);
+
+CREATE TRIGGER update_settlements_updated_at
+  BEFORE UPDATE ON public.settlements
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_settlements_ledger_id ON public.settlements(ledger_id, date DESC);
+
+ALTER TABLE public.settlements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view ledger settlements" 
+ON public.settlements 
+FOR SELECT 
+USING (public.ledger_role(ledger_id) IS NOT NULL);
+
+CREATE POLICY "Editors can record ledger settlements" 
+ON public.settlements 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.ledger_role(ledger_id) IN ('owner', 'editor')
+  AND EXISTS (SELECT 1 FROM public.ledger_members m WHERE m.ledger_id = settlements.ledger_id AND m.user_id = from_user)
+  AND EXISTS (SELECT 1 FROM public.ledger_members m WHERE m.ledger_id = settlements.ledger_id AND m.user_id = to_user)
+);
+
+CREATE POLICY "Editors can delete ledger settlements" 
+ON public.settlements 
+FOR DELETE 
+USING (public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+-- The views were expanded before expenses had a payer
+CREATE OR REPLACE VIEW public.active_expenses WITH (security_invoker = true) AS
+  SELECT * FROM public.expenses WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE VIEW public.deleted_expenses WITH (security_invoker = true) AS
+  SELECT * FROM public.expenses WHERE deleted_at IS NOT NULL;
+
+-- What each member of a ledger is owed (positive) or owes (negative), per
+-- currency. The payer of a split expense is owed every member's part of it,
+-- including their own, which their own part cancels out. A settlement
+-- moves the balance of both members towards zero. Trashed expenses do not
+-- count.
+CREATE OR REPLACE FUNCTION public.ledger_balances(_ledger_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  currency text,
+  balance numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH splits AS (
+    SELECT e.paid_by, e.currency, s.user_id, s.amount
+    FROM public.active_expenses e
+    JOIN public.expense_splits s ON s.expense_id = e.id
+    WHERE e.ledger_id = _ledger_id AND e.paid_by IS NOT NULL
+  ),
+  entries AS (
+    SELECT paid_by AS user_id, currency, amount FROM splits
+    UNION ALL
+    SELECT user_id, currency, -amount FROM splits
+    UNION ALL
+    SELECT from_user, currency, amount FROM public.settlements WHERE ledger_id = _ledger_id
+    UNION ALL
+    SELECT to_user, currency, -amount FROM public.settlements WHERE ledger_id = _ledger_id
+  )
+  SELECT user_id, currency, sum(amount)
+  FROM entries
+  GROUP BY user_id, currency
+  HAVING sum(amount) <> 0
+  ORDER BY currency, sum(amount) DESC;
+$$;
@@ -0,0 +1,166 @@
+-- Expense claims: a member groups business expenses into a claim and
+-- submits it for reimbursement. An approver reviews it, and once approved
+-- marks it reimbursed:
+--   draft -> submitted -> approved -> reimbursed
+--                      -> rejected -> draft
+-- Owners can always approve; other members only when an owner lets them.
+-- Nobody approves their own claim.
+ALTER TABLE public.ledger_members
+  ADD COLUMN can_approve BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE public.claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ledger_id UUID NOT NULL REFERENCES public.ledgers(id) ON DELETE CASCADE,
+  -- Who is claiming the money back
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'submitted', 'approved', 'rejected', 'reimbursed')),
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  -- Why the approver decided as they did; required for a rejection
+  review_comment TEXT,
+  reimbursed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (status <> 'rejected' OR review_comment IS NOT NULL)
+);
+
+CREATE TRIGGER update_claims_updated_at
+  BEFORE UPDATE ON public.claims
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_claims_ledger_id ON public.claims(ledger_id, status);
+
+ALTER TABLE public.expenses
+  ADD COLUMN claim_id UUID REFERENCES public.claims(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_expenses_claim_id ON public.expenses(claim_id) WHERE claim_id IS NOT NULL;
+
+-- Whether the signed-in user may review claims in a ledger
+CREATE OR REPLACE FUNCTION public.is_claim_approver(_ledger_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.ledger_members
+    WHERE ledger_id = _ledger_id AND user_id = auth.uid() AND (role = 'owner' OR can_approve)
+  );
+$$;
+
+ALTER TABLE public.claims ENABLE ROW LEVEL SECURITY;
+
+-- The status only moves through set_claim_status; claimants edit and
+-- delete their claims while they are drafts
+CREATE POLICY "Members can view ledger claims" 
+ON public.claims 
+FOR SELECT 
+USING (public.ledger_role(ledger_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create their own claims" 
+ON public.claims 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'draft'
+  AND public.ledger_role(ledger_id) IN ('owner', 'editor')
+);
+
+CREATE POLICY "Claimants can update their draft claims" 
+ON public.claims 
+FOR UPDATE 
+USING (auth.uid() = user_id AND status = 'draft')
+WITH CHECK (auth.uid() = user_id AND status = 'draft');
+
+CREATE POLICY "Claimants can delete their draft claims" 
+ON public.claims 
+FOR DELETE 
+USING (auth.uid() = user_id AND status = 'draft');
+
+-- Only expenses of the claim's ledger go into a claim, and only while it is
+-- a draft; expenses in a claim under review or decided stay as they are
+CREATE OR REPLACE FUNCTION public.check_expense_claim()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.claim_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM public.claims WHERE id = OLD.claim_id AND status <> 'draft')
+  THEN
+    RAISE EXCEPTION 'Expenses in a submitted claim cannot be changed';
+  END IF;
+
+  IF NEW.claim_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.claim_id IS DISTINCT FROM OLD.claim_id)
+  THEN
+    IF NEW.type <> 'expense' THEN
+      RAISE EXCEPTION 'Income cannot be claimed';
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM public.claims
+      WHERE id = NEW.claim_id AND ledger_id = NEW.ledger_id AND status = 'draft'
+    ) THEN
+      RAISE EXCEPTION 'Expenses can only be added to a draft claim of the same ledger';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+CREATE TRIGGER check_expense_claim
+  BEFORE INSERT OR UPDATE ON public.expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_expense_claim();
+
+-- Move a claim along its lifecycle. Claimants submit their drafts, withdraw
+-- them while under review and reopen rejected ones; approvers approve or
+-- reject (with a comment) what others submitted and mark approved claims
+-- reimbursed.
+CREATE OR REPLACE FUNCTION public.set_claim_status(_claim_id UUID, _status TEXT, _comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  claim public.claims;
+  _is_claimant BOOLEAN;
+  _is_approver BOOLEAN;
+BEGIN
+  SELECT * INTO claim FROM public.claims WHERE id = _claim_id FOR UPDATE;
+  IF NOT FOUND OR public.ledger_role(claim.ledger_id) IS NULL THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+  _is_claimant := claim.user_id = auth.uid();
+  _is_approver := NOT _is_claimant AND public.is_claim_approver(claim.ledger_id);
+
+  IF claim.status = 'draft' AND _status = 'submitted' AND _is_claimant THEN
+    IF NOT EXISTS (SELECT 1 FROM public.expenses WHERE claim_id = _claim_id AND deleted_at IS NULL) THEN
+      RAISE EXCEPTION 'Add at least one expense before submitting the claim';
+    END IF;
+    UPDATE public.claims SET status = _status, submitted_at = now() WHERE id = _claim_id;
+  ELSIF claim.status IN ('submitted', 'rejected') AND _status = 'draft' AND _is_claimant THEN
+    UPDATE public.claims SET status = _status WHERE id = _claim_id;
+  ELSIF claim.status = 'submitted' AND _status IN ('approved', 'rejected') AND _is_approver THEN
+    IF _status = 'rejected' AND coalesce(trim(_comment), '') = '' THEN
+      RAISE EXCEPTION 'A rejection needs a comment';
+    END IF;
+    UPDATE public.claims
+    SET status = _status, reviewed_by = auth.uid(), reviewed_at = now(), review_comment = nullif(trim(_comment), '')
+    WHERE id = _claim_id;
+  ELSIF claim.status = 'approved' AND _status = 'reimbursed' AND _is_approver THEN
+    UPDATE public.claims SET status = _status, reimbursed_at = now() WHERE id = _claim_id;
+  ELSE
+    RAISE EXCEPTION 'You cannot move a % claim to %', claim.status, _status;
+  END IF;
+END;
+$$;
+
+-- The views were expanded before expenses could be claimed
+CREATE OR REPLACE VIEW public.active_expenses WITH (security_invoker = true) AS
+  SELECT * FROM public.expenses WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE VIEW public.deleted_expenses WITH (security_invoker = true) AS
+  SELECT * FROM public.expenses WHERE deleted_at IS NOT NULL;
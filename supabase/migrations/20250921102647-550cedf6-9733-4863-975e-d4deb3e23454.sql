@@ -0,0 +1,14 @@
+-- Expenses saved although the anomaly detector found them unusual keep what
+-- it found, so they can be reviewed later; cleared once they are reviewed
+ALTER TABLE public.expenses
+  ADD COLUMN anomaly_flags TEXT[]
+    CHECK (anomaly_flags <@ ARRAY['amount', 'frequency', 'duplicate']::TEXT[] AND cardinality(anomaly_flags) > 0);
+
+CREATE INDEX idx_expenses_anomaly_flags ON public.expenses(ledger_id) WHERE anomaly_flags IS NOT NULL;
+
+-- The views were expanded before expenses could be flagged
+CREATE OR REPLACE VIEW public.active_expenses WITH (security_invoker = true) AS
+  SELECT * FROM public.expenses WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE VIEW public.deleted_expenses WITH (security_invoker = true) AS
+  SELECT * FROM public.expenses WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,43 @@
+-- Only claimants move expenses into and out of their claims, and only
+-- expenses they paid for themselves: their own, or split ones they paid.
+-- Editors can update every expense in a ledger, so without this one member
+-- could claim back what another spent.
+CREATE OR REPLACE FUNCTION public.check_expense_claim()
+RETURNS TRIGGER AS $$
+DECLARE
+  claim public.claims;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.claim_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM public.claims WHERE id = OLD.claim_id AND status <> 'draft')
+  THEN
+    RAISE EXCEPTION 'Expenses in a submitted claim cannot be changed';
+  END IF;
+
+  -- A deleted claim releases its expenses whoever they belong to
+  IF TG_OP = 'UPDATE' AND OLD.claim_id IS NOT NULL AND NEW.claim_id IS DISTINCT FROM OLD.claim_id
+    AND EXISTS (SELECT 1 FROM public.claims WHERE id = OLD.claim_id AND user_id IS DISTINCT FROM auth.uid())
+  THEN
+    RAISE EXCEPTION 'Only the claimant can take expenses out of a claim';
+  END IF;
+
+  IF NEW.claim_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.claim_id IS DISTINCT FROM OLD.claim_id OR NEW.paid_by IS DISTINCT FROM OLD.paid_by)
+  THEN
+    IF NEW.type <> 'expense' THEN
+      RAISE EXCEPTION 'Income cannot be claimed';
+    END IF;
+    SELECT * INTO claim FROM public.claims
+    WHERE id = NEW.claim_id AND ledger_id = NEW.ledger_id AND status = 'draft';
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Expenses can only be added to a draft claim of the same ledger';
+    END IF;
+    IF (TG_OP = 'INSERT' OR NEW.claim_id IS DISTINCT FROM OLD.claim_id) AND claim.user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the claimant can add expenses to a claim';
+    END IF;
+    IF coalesce(NEW.paid_by, NEW.user_id) <> claim.user_id THEN
+      RAISE EXCEPTION 'Only expenses the claimant paid for can be claimed';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
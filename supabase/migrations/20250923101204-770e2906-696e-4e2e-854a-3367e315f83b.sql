@@ -0,0 +1,208 @@
+-- Categories and budgets belong to a ledger like the expenses they describe,
+-- so members share one category tree and budgets are set for the ledger's
+-- spending rather than for one member's. `user_id` stays the person who
+-- created them.
+ALTER TABLE public.categories ADD COLUMN ledger_id UUID REFERENCES public.ledgers(id) ON DELETE CASCADE;
+ALTER TABLE public.budgets ADD COLUMN ledger_id UUID REFERENCES public.ledgers(id) ON DELETE CASCADE;
+
+ALTER TABLE public.categories DROP CONSTRAINT categories_user_id_name_key;
+ALTER TABLE public.budgets DROP CONSTRAINT budgets_user_id_category_period_key;
+
+-- A parent must be in the same ledger and must not be one of the
+-- category's own descendants, which would turn the tree into a cycle
+CREATE OR REPLACE FUNCTION public.validate_category_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.categories
+    WHERE id = NEW.parent_id AND ledger_id = NEW.ledger_id
+  ) THEN
+    RAISE EXCEPTION 'Parent category not found';
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM public.categories WHERE id = NEW.parent_id
+      UNION
+      SELECT c.id, c.parent_id
+      FROM public.categories c
+      JOIN ancestors a ON c.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A category cannot be nested under one of its own sub-categories';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
+
+-- Backfill: every ledger gets a copy of its creator's categories, plus
+-- those other members used on the ledger's expenses and recurring series.
+-- A name two people defined keeps the creator's color and icon.
+INSERT INTO public.categories (user_id, ledger_id, name, color, icon, archived, sort_order, kind)
+SELECT DISTINCT ON (l.id, c.name) c.user_id, l.id, c.name, c.color, c.icon, c.archived, c.sort_order, c.kind
+FROM public.ledgers l
+JOIN public.categories c ON c.ledger_id IS NULL AND (
+  c.user_id = l.created_by
+  OR EXISTS (
+    SELECT 1 FROM public.expenses e
+    WHERE e.ledger_id = l.id AND e.user_id = c.user_id AND e.category = c.name
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.recurring_expenses r
+    WHERE r.ledger_id = l.id AND r.user_id = c.user_id AND r.category = c.name
+  )
+)
+ORDER BY l.id, c.name, c.user_id = l.created_by DESC, c.user_id;
+
+-- Copies keep their parent when it was copied from the same person's
+-- tree, which cannot form a cycle
+UPDATE public.categories c
+SET parent_id = parent_copy.id
+FROM public.categories original
+JOIN public.categories original_parent ON original_parent.id = original.parent_id
+JOIN public.categories parent_copy ON parent_copy.name = original_parent.name AND parent_copy.user_id = original_parent.user_id
+WHERE c.ledger_id IS NOT NULL
+  AND original.ledger_id IS NULL
+  AND original.user_id = c.user_id
+  AND original.name = c.name
+  AND parent_copy.ledger_id = c.ledger_id;
+
+DELETE FROM public.categories WHERE ledger_id IS NULL;
+
+-- Budgets were set against everything their owner recorded, which is what
+-- their personal ledger, the oldest one they created, holds
+UPDATE public.budgets b SET ledger_id = personal.id
+FROM (
+  SELECT DISTINCT ON (created_by) id, created_by
+  FROM public.ledgers
+  ORDER BY created_by, created_at
+) AS personal
+WHERE personal.created_by = b.user_id;
+
+DELETE FROM public.budgets WHERE ledger_id IS NULL;
+
+ALTER TABLE public.categories ALTER COLUMN ledger_id SET NOT NULL;
+ALTER TABLE public.budgets ALTER COLUMN ledger_id SET NOT NULL;
+
+ALTER TABLE public.categories ADD CONSTRAINT categories_ledger_id_name_key UNIQUE (ledger_id, name);
+ALTER TABLE public.budgets ADD CONSTRAINT budgets_ledger_id_category_period_key UNIQUE (ledger_id, category, period);
+
+DROP INDEX IF EXISTS public.idx_categories_user_id;
+DROP INDEX IF EXISTS public.idx_budgets_user_id;
+
+-- Expenses, budgets and recurring series refer to categories by name, so a
+-- rename is carried over to every row of the ledger that used the old name.
+-- Runs as the owner, as members may only update their own recurring series.
+CREATE OR REPLACE FUNCTION public.rename_category_references()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name <> OLD.name THEN
+    UPDATE public.expenses SET category = NEW.name
+      WHERE ledger_id = NEW.ledger_id AND category = OLD.name;
+    UPDATE public.budgets SET category = NEW.name
+      WHERE ledger_id = NEW.ledger_id AND category = OLD.name;
+    UPDATE public.recurring_expenses SET category = NEW.name
+      WHERE ledger_id = NEW.ledger_id AND category = OLD.name;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+-- Default categories are seeded for every new ledger instead of every new
+-- account; the account's personal ledger gets them that way too
+DROP TRIGGER IF EXISTS on_auth_user_created_seed_categories ON auth.users;
+DROP FUNCTION IF EXISTS public.handle_new_user_categories();
+DROP FUNCTION IF EXISTS public.seed_default_categories(UUID);
+
+CREATE OR REPLACE FUNCTION public.seed_default_categories(_ledger_id UUID, _user_id UUID)
+RETURNS void AS $$
+  INSERT INTO public.categories (ledger_id, user_id, name, color, icon, sort_order, kind)
+  VALUES
+    (_ledger_id, _user_id, 'Food & Dining', '#3182ed', 'utensils', 0, 'expense'),
+    (_ledger_id, _user_id, 'Transportation', '#16a249', 'car', 1, 'expense'),
+    (_ledger_id, _user_id, 'Shopping', '#f59f0a', 'shopping-bag', 2, 'expense'),
+    (_ledger_id, _user_id, 'Entertainment', '#ef4343', 'film', 3, 'expense'),
+    (_ledger_id, _user_id, 'Bills & Utilities', '#7c3bed', 'zap', 4, 'expense'),
+    (_ledger_id, _user_id, 'Healthcare', '#2a9d90', 'heart-pulse', 5, 'expense'),
+    (_ledger_id, _user_id, 'Travel', '#d9a520', 'plane', 6, 'expense'),
+    (_ledger_id, _user_id, 'Education', '#6aabf0', 'graduation-cap', 7, 'expense'),
+    (_ledger_id, _user_id, 'Business', '#db2979', 'briefcase', 8, 'expense'),
+    (_ledger_id, _user_id, 'Other', '#f97415', 'tag', 9, 'expense'),
+    (_ledger_id, _user_id, 'Salary', '#16a249', 'banknote', 0, 'income'),
+    (_ledger_id, _user_id, 'Refunds', '#2a9d90', 'rotate-ccw', 1, 'income'),
+    (_ledger_id, _user_id, 'Reimbursements', '#3182ed', 'receipt', 2, 'income'),
+    (_ledger_id, _user_id, 'Other Income', '#7c3bed', 'wallet', 3, 'income')
+  ON CONFLICT (ledger_id, name) DO NOTHING;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = '';
+
+REVOKE EXECUTE ON FUNCTION public.seed_default_categories(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_ledger_categories()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.seed_default_categories(NEW.id, NEW.created_by);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER on_ledger_created_seed_categories
+  AFTER INSERT ON public.ledgers
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_new_ledger_categories();
+
+-- Categories and budgets: members read, owners and editors write
+DROP POLICY "Users can view their own categories" ON public.categories;
+DROP POLICY "Users can create their own categories" ON public.categories;
+DROP POLICY "Users can update their own categories" ON public.categories;
+DROP POLICY "Users can delete their own categories" ON public.categories;
+
+CREATE POLICY "Members can view ledger categories" 
+ON public.categories 
+FOR SELECT 
+USING (public.ledger_role(ledger_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create ledger categories" 
+ON public.categories 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update ledger categories" 
+ON public.categories 
+FOR UPDATE 
+USING (public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete ledger categories" 
+ON public.categories 
+FOR DELETE 
+USING (public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+DROP POLICY "Users can view their own budgets" ON public.budgets;
+DROP POLICY "Users can create their own budgets" ON public.budgets;
+DROP POLICY "Users can update their own budgets" ON public.budgets;
+DROP POLICY "Users can delete their own budgets" ON public.budgets;
+
+CREATE POLICY "Members can view ledger budgets" 
+ON public.budgets 
+FOR SELECT 
+USING (public.ledger_role(ledger_id) IS NOT NULL);
+
+CREATE POLICY "Editors can create ledger budgets" 
+ON public.budgets 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update ledger budgets" 
+ON public.budgets 
+FOR UPDATE 
+USING (public.ledger_role(ledger_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete ledger budgets" 
+ON public.budgets 
+FOR DELETE 
+USING (public.ledger_role(ledger_id) IN ('owner', 'editor'));
@@ -0,0 +1,44 @@
+-- Receipt files whose attachment rows went with their expense, when it was
+-- purged from the trash or its ledger was deleted. Files cannot be removed
+-- from SQL, so they are queued here and the uploader's client removes them
+-- through the Storage API on its next load. Once the expense is gone only
+-- the uploader may still delete the files in their folder.
+CREATE TABLE public.receipt_cleanup (
+  storage_path TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_receipt_cleanup_user_id ON public.receipt_cleanup(user_id);
+
+ALTER TABLE public.receipt_cleanup ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only added by the trigger below
+CREATE POLICY "Users can view their own receipt cleanup" 
+ON public.receipt_cleanup 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own receipt cleanup" 
+ON public.receipt_cleanup 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- An attachment removed on its own has its file deleted by the client right
+-- away; only those removed along with their expense are queued
+CREATE OR REPLACE FUNCTION public.queue_receipt_cleanup()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.expenses WHERE id = OLD.expense_id) THEN
+    INSERT INTO public.receipt_cleanup (storage_path, user_id)
+    VALUES (OLD.storage_path, OLD.user_id)
+    ON CONFLICT (storage_path) DO NOTHING;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE TRIGGER queue_receipt_cleanup
+  AFTER DELETE ON public.expense_attachments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_receipt_cleanup();
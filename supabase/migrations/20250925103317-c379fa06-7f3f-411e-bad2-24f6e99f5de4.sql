@@ -0,0 +1,67 @@
+-- Renaming a category carries the new name over to expenses in submitted,
+-- approved and reimbursed claims too. The rename sets a transaction-local
+-- flag, and the claim lock lets an update through while it is set and only
+-- the category changed.
+CREATE OR REPLACE FUNCTION public.rename_category_references()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.name <> OLD.name THEN
+    PERFORM set_config('app.renaming_category', 'on', true);
+    UPDATE public.expenses SET category = NEW.name
+      WHERE ledger_id = NEW.ledger_id AND category = OLD.name;
+    PERFORM set_config('app.renaming_category', '', true);
+    UPDATE public.budgets SET category = NEW.name
+      WHERE ledger_id = NEW.ledger_id AND category = OLD.name;
+    UPDATE public.recurring_expenses SET category = NEW.name
+      WHERE ledger_id = NEW.ledger_id AND category = OLD.name;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = '';
+
+CREATE OR REPLACE FUNCTION public.check_expense_claim()
+RETURNS TRIGGER AS $$
+DECLARE
+  claim public.claims;
+BEGIN
+  -- A rename may change the category of locked expenses, and nothing else.
+  -- The generated search column is not computed yet in a BEFORE trigger.
+  IF TG_OP = 'UPDATE' AND OLD.claim_id IS NOT NULL
+    AND EXISTS (SELECT 1 FROM public.claims WHERE id = OLD.claim_id AND status <> 'draft')
+    AND NOT (
+      coalesce(current_setting('app.renaming_category', true), '') = 'on'
+      AND to_jsonb(NEW) - 'category' - 'updated_at' - 'description_search'
+        = to_jsonb(OLD) - 'category' - 'updated_at' - 'description_search'
+    )
+  THEN
+    RAISE EXCEPTION 'Expenses in a submitted claim cannot be changed';
+  END IF;
+
+  -- A deleted claim releases its expenses whoever they belong to
+  IF TG_OP = 'UPDATE' AND OLD.claim_id IS NOT NULL AND NEW.claim_id IS DISTINCT FROM OLD.claim_id
+    AND EXISTS (SELECT 1 FROM public.claims WHERE id = OLD.claim_id AND user_id IS DISTINCT FROM auth.uid())
+  THEN
+    RAISE EXCEPTION 'Only the claimant can take expenses out of a claim';
+  END IF;
+
+  IF NEW.claim_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.claim_id IS DISTINCT FROM OLD.claim_id OR NEW.paid_by IS DISTINCT FROM OLD.paid_by)
+  THEN
+    IF NEW.type <> 'expense' THEN
+      RAISE EXCEPTION 'Income cannot be claimed';
+    END IF;
+    SELECT * INTO claim FROM public.claims
+    WHERE id = NEW.claim_id AND ledger_id = NEW.ledger_id AND status = 'draft';
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Expenses can only be added to a draft claim of the same ledger';
+    END IF;
+    IF (TG_OP = 'INSERT' OR NEW.claim_id IS DISTINCT FROM OLD.claim_id) AND claim.user_id IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the claimant can add expenses to a claim';
+    END IF;
+    IF coalesce(NEW.paid_by, NEW.user_id) <> claim.user_id THEN
+      RAISE EXCEPTION 'Only expenses the claimant paid for can be claimed';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = '';
@@ -0,0 +1,52 @@
+-- Renaming a category reaches expenses in claims past the draft stage,
+-- which otherwise stay locked
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+INSERT INTO auth.users (id, email)
+VALUES ('6f1c2d3e-0000-4000-8000-000000000001', 'claimant@example.com');
+
+SELECT set_config('request.jwt.claims', '{"sub": "6f1c2d3e-0000-4000-8000-000000000001"}', true);
+
+INSERT INTO public.claims (id, ledger_id, user_id, title)
+SELECT '6f1c2d3e-0000-4000-8000-000000000002', id, created_by, 'Conference'
+FROM public.ledgers WHERE created_by = '6f1c2d3e-0000-4000-8000-000000000001';
+
+INSERT INTO public.expenses (id, ledger_id, user_id, amount, currency, category, description, date, claim_id)
+SELECT
+  '6f1c2d3e-0000-4000-8000-000000000003', id, created_by, 120, 'EUR', 'Travel', 'Train', '2025-09-01',
+  '6f1c2d3e-0000-4000-8000-000000000002'
+FROM public.ledgers WHERE created_by = '6f1c2d3e-0000-4000-8000-000000000001';
+
+UPDATE public.claims SET status = 'submitted', submitted_at = now()
+WHERE id = '6f1c2d3e-0000-4000-8000-000000000002';
+
+SELECT throws_ok(
+  $$UPDATE public.expenses SET category = 'Business' WHERE id = '6f1c2d3e-0000-4000-8000-000000000003'$$,
+  'Expenses in a submitted claim cannot be changed',
+  'expenses in a submitted claim stay locked'
+);
+
+SELECT lives_ok(
+  $$UPDATE public.categories SET name = 'Trips'
+    WHERE name = 'Travel'
+      AND ledger_id = (SELECT ledger_id FROM public.claims WHERE id = '6f1c2d3e-0000-4000-8000-000000000002')$$,
+  'a category used in a submitted claim can be renamed'
+);
+
+SELECT is(
+  (SELECT category FROM public.expenses WHERE id = '6f1c2d3e-0000-4000-8000-000000000003'),
+  'Trips',
+  'the rename reaches the claimed expense'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.expenses SET amount = 1 WHERE id = '6f1c2d3e-0000-4000-8000-000000000003'$$,
+  'Expenses in a submitted claim cannot be changed',
+  'the lock holds again after the rename'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
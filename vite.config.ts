@@ -2,6 +2,7 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { VitePWA } from "vite-plugin-pwa";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -13,6 +14,30 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    // Installable app whose shell is cached by a service worker, so it opens
+    // offline; data comes from the persisted query cache and the outbox
+    VitePWA({
+      registerType: "autoUpdate",
+      includeAssets: ["favicon.ico", "pwa-icon.svg"],
+      manifest: {
+        name: "Professional Expense Calculator",
+        short_name: "Expenses",
+        description: "Track and manage your expenses with precision",
+        theme_color: "#3b86ee",
+        background_color: "#f9f9fb",
+        display: "standalone",
+        start_url: "/",
+        icons: [
+          { src: "/pwa-icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any maskable" },
+        ],
+      },
+      workbox: {
+        globPatterns: ["**/*.{js,css,html,ico,svg,png,woff2}"],
+        navigateFallback: "/index.html",
+        // The spreadsheet export pulls in a large bundle
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+      },
+    }),
   ].filter(Boolean),
   resolve: {
     alias: {